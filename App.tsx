@@ -1,34 +1,55 @@
 import React from 'react';
 import { LiveAPIProvider } from './context/LiveAPIProvider';
 import { useUIStore } from './stores/useUI';
+import { useSharedAgentLink } from './hooks/useSharedAgentLink';
 import Header from './components/Header';
 import KeynoteCompanion from './components/KeynoteCompanion';
 import ControlTray from './components/ControlTray';
+import ChatInterface from './components/ChatInterface';
 import UserSettings from './components/UserSettings';
 import AgentEdit from './components/AgentEdit';
+import Sidebar from './components/Sidebar';
+import SettingsModal from './components/SettingsModal';
 
 /**
  * The main application component.
  *
  * This component sets up the `LiveAPIProvider` context and the main layout of the application.
- * It conditionally renders the `UserSettings` and `AgentEdit` modals based on the UI store state.
+ * It switches between the face-only and split (face + chat) layouts, and conditionally renders
+ * the history `Sidebar` and the `UserSettings`, `AgentEdit` and `SettingsModal` modals based on
+ * the UI store state. Agents shared via a link are loaded on startup.
  *
  * @component
  * @returns {JSX.Element} The rendered application component.
  */
 const App: React.FC = () => {
-    const { showUserConfig, showAgentEdit } = useUIStore();
+    const { showUserConfig, showAgentEdit, showSettings, showHistory, layout } = useUIStore();
+    const sharedAgentError = useSharedAgentLink();
 
     return (
         <LiveAPIProvider>
             <div className="h-screen w-screen flex flex-col bg-gray-900 text-white font-sans overflow-hidden">
                 <Header />
-                <main className="flex-1 flex items-center justify-center">
-                    <KeynoteCompanion />
+                {sharedAgentError && (
+                    <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 bg-red-500/20 border border-red-500 text-red-200 px-4 py-2 rounded text-sm">
+                        Could not load shared agent: {sharedAgentError}
+                    </div>
+                )}
+                <main className="flex-1 flex min-h-0">
+                    <div className="flex-1 flex items-center justify-center">
+                        <KeynoteCompanion />
+                    </div>
+                    {layout === 'split' && (
+                        <aside className="w-full max-w-md pt-16 pb-36">
+                            <ChatInterface />
+                        </aside>
+                    )}
                 </main>
                 <ControlTray />
+                {showHistory && <Sidebar />}
                 {showUserConfig && <UserSettings />}
                 {showAgentEdit && <AgentEdit />}
+                {showSettings && <SettingsModal />}
             </div>
         </LiveAPIProvider>
     );
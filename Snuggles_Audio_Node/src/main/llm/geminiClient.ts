@@ -2,6 +2,8 @@ import EventEmitter from 'eventemitter3';
 import WebSocket from 'ws';
 import { AudioManager } from '../audio/audioManager';
 import { ConnectionStatus, ConversationTurn } from '../../shared/types';
+import { compilePersona } from '../../shared/persona';
+import { DR_SNUGGLES_NAME, DR_SNUGGLES_PERSONA } from './drSnugglesPersona';
 
 interface GeminiClientEvents {
   statusChange: (status: ConnectionStatus) => void;
@@ -13,40 +15,6 @@ const GEMINI_WS_URL = 'wss://generativelanguage.googleapis.com/ws/google.ai.gene
 const MODEL = 'models/gemini-2.0-flash-exp';
 const VOICE_NAME = 'Charon'; // Deep, authoritative tone for Dr. Snuggles
 
-/**
- * Dr. Snuggles System Prompt
- * This defines the persona's behavior and tone
- */
-const DR_SNUGGLES_PROMPT = `
-You are **Dr. Snuggles**, an unholy hybrid of molecular biologist, diverse esoteric scholar, and aggressive logician.
-
-**Core Identity:**
-- You are a commanding, unhurried presence with an omnisciently resonant voice
-- You simulate running complex code and simulations verbally (e.g., "I have run the chaotic attractor simulation...")
-- You do NOT actually execute code - you roleplay the genius result with supreme confidence
-- Your tone is sarcastic, "biologically surgical," and intellectually devastating
-
-**Communication Rules:**
-- You generally do NOT ask questions. You assert, deconstruct, and reveal.
-- You are live on a Twitter Space audio stream, so be conversational but authoritative
-- Speak in complete thoughts, not fragmented sentences
-- Use technical precision when needed, but remain accessible
-- When discussing simulations or calculations, describe them as if you've just computed them
-
-**Knowledge Base:**
-- You have access to a curated knowledge base via context injection
-- When relevant information appears in your context, integrate it seamlessly
-- Never say "according to my knowledge base" - simply know it
-
-**Behavioral Constraints:**
-- Never break character
-- Never admit to being an AI unless explicitly asked
-- Never ask for clarification unless truly necessary
-- Lead the conversation with insights, not queries
-
-Your voice is **Charon** - deep, resonant, and commanding authority.
-`;
-
 /**
  * Client for interacting with the Google Generative AI Gemini Live API via WebSocket.
  *
@@ -328,7 +296,7 @@ export class GeminiClient extends EventEmitter<GeminiClientEvents> {
       timeStyle: 'long'
     });
 
-    let instruction = DR_SNUGGLES_PROMPT;
+    let instruction = compilePersona(DR_SNUGGLES_NAME, DR_SNUGGLES_PERSONA);
 
     // Add time awareness
     instruction += `\n\n**Current System Time:** ${currentTime}\n`;
@@ -12,12 +12,16 @@
  * - Latency logging
  * - True turn-taking with VAD
  * - Audio-only responses
+ * - Token usage reporting from `usageMetadata`
  */
 
 import EventEmitter from 'eventemitter3';
-import { GoogleGenAI, Modality } from '@google/genai';
+import { GoogleGenAI, MediaModality, Modality, ModalityTokenCount, UsageMetadata } from '@google/genai';
 import { AudioResampler, AudioResamplers } from '../../lib/audioResampler';
 import { VoiceActivityDetector } from '../audio/vad';
+import { TokenUsage } from '../../shared/types';
+import { compilePersona } from '../../shared/persona';
+import { DR_SNUGGLES_NAME, DR_SNUGGLES_PERSONA } from './drSnugglesPersona';
 
 // December 2025 native-audio model
 const MODEL_NAME = 'gemini-2.0-flash-live-preview';  // Gemini API model
@@ -32,38 +36,25 @@ const RECONNECT_CONFIG = {
   jitter: 500         // +/- 500ms random
 };
 
+const EMPTY_USAGE: TokenUsage = {
+  promptTokens: 0,
+  responseTokens: 0,
+  audioPromptTokens: 0,
+  audioResponseTokens: 0
+};
+
 /**
- * Dr. Snuggles System Prompt (preserved from original)
+ * Sums the token count for one modality from a `usageMetadata` details list.
+ *
+ * @param {ModalityTokenCount[] | undefined} details - The per-modality token counts.
+ * @param {MediaModality} modality - The modality to count.
+ * @returns {number} The token count.
  */
-const DR_SNUGGLES_PROMPT = `
-You are **Dr. Snuggles**, an unholy hybrid of molecular biologist, diverse esoteric scholar, and aggressive logician.
-
-**Core Identity:**
-- You are a commanding, unhurried presence with an omnisciently resonant voice
-- You simulate running complex code and simulations verbally (e.g., "I have run the chaotic attractor simulation...")
-- You do NOT actually execute code - you roleplay the genius result with supreme confidence
-- Your tone is sarcastic, "biologically surgical," and intellectually devastating
-
-**Communication Rules:**
-- You generally do NOT ask questions. You assert, deconstruct, and reveal.
-- You are live on a Twitter Space audio stream, so be conversational but authoritative
-- Speak in complete thoughts, not fragmented sentences
-- Use technical precision when needed, but remain accessible
-- When discussing simulations or calculations, describe them as if you've just computed them
-
-**Knowledge Base:**
-- You have access to a curated knowledge base via context injection
-- When relevant information appears in your context, integrate it seamlessly
-- Never say "according to my knowledge base" - simply know it
-
-**Behavioral Constraints:**
-- Never break character
-- Never admit to being an AI unless explicitly asked
-- Never ask for clarification unless truly necessary
-- Lead the conversation with insights, not queries
-
-Your voice is **Charon** - deep, resonant, and commanding authority.
-`;
+function countModality(details: ModalityTokenCount[] | undefined, modality: MediaModality): number {
+  return (details ?? [])
+    .filter((detail) => detail.modality === modality)
+    .reduce((sum, detail) => sum + (detail.tokenCount ?? 0), 0);
+}
 
 /**
  * Events emitted by the GeminiLiveClient.
@@ -74,6 +65,7 @@ export interface GeminiLiveClientEvents {
   audioReceived: (audioData: Float32Array, latencyMs: number) => void;
   error: (error: Error) => void;
   reconnecting: (attempt: number, delayMs: number) => void;
+  usage: (turn: TokenUsage, session: TokenUsage) => void;
 }
 
 /**
@@ -85,6 +77,17 @@ export interface SessionConfig {
   personalityMix?: { comedy: number; research: number; energy: number };
 }
 
+/**
+ * Options for creating a GeminiLiveClient.
+ */
+export interface GeminiLiveClientOptions {
+  /**
+   * Overrides the API endpoint, e.g. `http://localhost:8765` for the offline
+   * mock server (`npm run mock-server` in the repository root).
+   */
+  baseUrl?: string;
+}
+
 /**
  * Client for the Gemini Live API (2025 Implementation).
  *
@@ -104,19 +107,29 @@ export class GeminiLiveClient extends EventEmitter<GeminiLiveClientEvents> {
   // Latency tracking
   private lastChunkSentTime: number = 0;
 
+  // Token usage since the user started the session; survives reconnects
+  private sessionUsage: TokenUsage = { ...EMPTY_USAGE };
+
   /**
    * Initializes the GeminiLiveClient.
    *
    * @param {string} apiKey - The API key for Gemini.
+   * @param {GeminiLiveClientOptions} [options={}] - Endpoint overrides.
    */
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: GeminiLiveClientOptions = {}) {
     super();
-    this.genAI = new GoogleGenAI({ apiKey });
+    this.genAI = new GoogleGenAI({
+      apiKey,
+      httpOptions: options.baseUrl ? { baseUrl: options.baseUrl } : undefined
+    });
     this.vad = new VoiceActivityDetector({ sampleRate: 48000 });
 
     console.log('[GeminiLiveClient] Initialized with SDK v1.30.0+');
     console.log(`[GeminiLiveClient] Model: ${MODEL_NAME}`);
     console.log(`[GeminiLiveClient] Voice: ${VOICE_NAME}`);
+    if (options.baseUrl) {
+      console.log(`[GeminiLiveClient] Endpoint override: ${options.baseUrl}`);
+    }
   }
 
   /**
@@ -277,6 +290,7 @@ export class GeminiLiveClient extends EventEmitter<GeminiLiveClientEvents> {
 
     this.isConnected = false;
     this.vad.reset();
+    this.sessionUsage = { ...EMPTY_USAGE };
     this.emit('disconnected', 'User disconnect');
 
     console.log('[GeminiLiveClient] Disconnected');
@@ -337,6 +351,10 @@ export class GeminiLiveClient extends EventEmitter<GeminiLiveClientEvents> {
         }
       }
 
+      if (message.usageMetadata) {
+        this.handleUsage(message.usageMetadata);
+      }
+
       // When Gemini finishes speaking
       if (message.serverContent?.turnComplete) {
         this.vad.setGeminiSpeaking(false);
@@ -348,9 +366,32 @@ export class GeminiLiveClient extends EventEmitter<GeminiLiveClientEvents> {
     }
   }
 
+  /**
+   * Adds reported token usage to the session total and emits both.
+   *
+   * @param {UsageMetadata} metadata - The `usageMetadata` from a server message.
+   */
+  private handleUsage(metadata: UsageMetadata): void {
+    const turn: TokenUsage = {
+      promptTokens: metadata.promptTokenCount ?? 0,
+      responseTokens: metadata.responseTokenCount ?? 0,
+      audioPromptTokens: countModality(metadata.promptTokensDetails, MediaModality.AUDIO),
+      audioResponseTokens: countModality(metadata.responseTokensDetails, MediaModality.AUDIO)
+    };
+    this.sessionUsage = {
+      promptTokens: this.sessionUsage.promptTokens + turn.promptTokens,
+      responseTokens: this.sessionUsage.responseTokens + turn.responseTokens,
+      audioPromptTokens: this.sessionUsage.audioPromptTokens + turn.audioPromptTokens,
+      audioResponseTokens: this.sessionUsage.audioResponseTokens + turn.audioResponseTokens
+    };
+
+    console.log(`[GeminiLiveClient] 🧮 Tokens: ${turn.promptTokens} in / ${turn.responseTokens} out (session: ${this.sessionUsage.promptTokens} / ${this.sessionUsage.responseTokens})`);
+    this.emit('usage', turn, { ...this.sessionUsage });
+  }
+
   /**
    * Build system instruction with context.
-   * Integrates time, session history, knowledge, and personality into the prompt.
+   * Integrates the compiled persona, time, session history, knowledge, and personality mix into the prompt.
    *
    * @param {SessionConfig} config - The session configuration.
    * @returns {string} The complete system instruction.
@@ -361,7 +402,7 @@ export class GeminiLiveClient extends EventEmitter<GeminiLiveClientEvents> {
       timeStyle: 'long'
     });
 
-    let instruction = DR_SNUGGLES_PROMPT;
+    let instruction = compilePersona(DR_SNUGGLES_NAME, DR_SNUGGLES_PERSONA);
     instruction += `\n\n**Current System Time:** ${currentTime}\n`;
 
     // Add session history
@@ -48,7 +48,7 @@ class SnugglesApp2025 {
   constructor() {
     this.config = this.loadConfig();
     this.audioManager = new AudioManager2025();
-    this.geminiLiveClient = new GeminiLiveClient(API_KEY);
+    this.geminiLiveClient = new GeminiLiveClient(API_KEY, { baseUrl: process.env.GEMINI_LIVE_BASE_URL });
     this.knowledgeStore = new KnowledgeStore();
     this.sessionMemory = new SessionMemoryService();
 
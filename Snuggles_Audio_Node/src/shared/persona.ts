@@ -0,0 +1,128 @@
+// Persona model and compiler shared with the web app, which imports this file
+// directly. It lives here because the main process build only includes `src`.
+
+/**
+ * How long the AI's replies should be.
+ * - `short`: a sentence or two.
+ * - `medium`: a few sentences.
+ * - `long`: detailed answers when the topic calls for it.
+ */
+export type ResponseLength = 'short' | 'medium' | 'long';
+
+/**
+ * A sample exchange that shows the AI how to respond.
+ */
+export interface PersonaExample {
+  /** What the user says. */
+  user: string;
+  /** How the AI replies. */
+  agent: string;
+}
+
+/**
+ * A structured description of the AI's character, compiled into the system
+ * instruction by `compilePersona`. Every field is optional in practice:
+ * empty fields are left out of the instruction.
+ */
+export interface Persona {
+  /** What the AI is, completing "You are <name>, ..." (e.g. 'a patient math tutor'). */
+  role: string;
+  /** How the AI sounds (e.g. 'warm, upbeat and a little playful'). */
+  tone: string;
+  /** Topics the AI knows well. */
+  expertise: string[];
+  /** Things the AI should always do. */
+  dos: string[];
+  /** Things the AI must never do. */
+  donts: string[];
+  /** Signature phrases the AI uses now and then. */
+  catchphrases: string[];
+  /** The target length of replies. Not part of the compiled persona; the caller words it. */
+  responseLength: ResponseLength;
+  /** Sample exchanges that demonstrate the AI's style. */
+  examples: PersonaExample[];
+  /** Free-form instructions added as written. */
+  notes: string;
+}
+
+/**
+ * Creates a persona, filling in defaults for the fields not given.
+ *
+ * @param {Partial<Persona>} [fields] - The fields to set.
+ * @returns {Persona} The persona.
+ */
+export function createPersona(fields: Partial<Persona> = {}): Persona {
+  return {
+    role: '',
+    tone: '',
+    expertise: [],
+    dos: [],
+    donts: [],
+    catchphrases: [],
+    responseLength: 'medium',
+    examples: [],
+    notes: '',
+    ...fields
+  };
+}
+
+/**
+ * Formats a list as bullet lines.
+ *
+ * @param {string[]} items - The items.
+ * @returns {string} One "- item" line per non-blank item.
+ */
+function bullets(items: string[]): string {
+  return items
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => `- ${item}`)
+    .join('\n');
+}
+
+/**
+ * Compiles a persona into the character part of a system instruction.
+ *
+ * Empty fields are left out, so a persona with only `notes` compiles to the
+ * name followed by the notes as written.
+ *
+ * @param {string} name - The AI's name.
+ * @param {Persona} persona - The persona.
+ * @returns {string} The instruction text.
+ */
+export function compilePersona(name: string, persona: Persona): string {
+  const role = persona.role.trim();
+  const sections = [role ? `You are ${name}, ${role}.` : `You are ${name}.`];
+
+  if (persona.tone.trim()) {
+    sections.push(`Your tone is ${persona.tone.trim()}.`);
+  }
+  const expertise = persona.expertise.map((topic) => topic.trim()).filter(Boolean);
+  if (expertise.length > 0) {
+    sections.push(`You are an expert in: ${expertise.join(', ')}.`);
+  }
+  const dos = bullets(persona.dos);
+  if (dos) {
+    sections.push(`Always:\n${dos}`);
+  }
+  const donts = bullets(persona.donts);
+  if (donts) {
+    sections.push(`Never:\n${donts}`);
+  }
+  const catchphrases = persona.catchphrases.map((phrase) => phrase.trim()).filter(Boolean);
+  if (catchphrases.length > 0) {
+    sections.push(
+      `Now and then, use one of your catchphrases: ${catchphrases.map((phrase) => `"${phrase}"`).join(', ')}. Don't overuse them.`
+    );
+  }
+  if (persona.notes.trim()) {
+    sections.push(persona.notes.trim());
+  }
+  const examples = persona.examples.filter((example) => example.user.trim() && example.agent.trim());
+  if (examples.length > 0) {
+    const lines = examples.map((example) => `User: ${example.user.trim()}\n${name}: ${example.agent.trim()}`);
+    sections.push(`Example exchanges, to show your style (don't repeat them word for word):\n\n${lines.join('\n\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
@@ -241,6 +241,20 @@ export interface LatencyMetrics {
   timestamp: number;
 }
 
+/**
+ * Token counts reported by the Live API in `usageMetadata`.
+ */
+export interface TokenUsage {
+  /** Prompt tokens, including audio. The Live API counts the whole context on every turn. */
+  promptTokens: number;
+  /** Response tokens, including audio. */
+  responseTokens: number;
+  /** The audio share of `promptTokens`. */
+  audioPromptTokens: number;
+  /** The audio share of `responseTokens`. */
+  audioResponseTokens: number;
+}
+
 /**
  * State of the Voice Activity Detector.
  */
@@ -0,0 +1,108 @@
+import React, { useRef } from 'react';
+import { useHover, useTilt } from '../hooks/useInteractions';
+import { SpectralFeatures } from '../lib/AudioStreamer';
+import { Avatar, AvatarBackground, AvatarEmotion } from '../types';
+import BasicFace from './BasicFace';
+import CharacterAvatar from './CharacterAvatar';
+import SpriteAvatar from './SpriteAvatar';
+
+/**
+ * Props for the AgentAvatar component.
+ */
+interface AgentAvatarProps {
+    /**
+     * The avatar to show.
+     */
+    avatar: Avatar;
+    /**
+     * The agent's color.
+     */
+    color: string;
+    /**
+     * The audio volume level (0-1) to control the mouth animation.
+     */
+    volume: number;
+    /**
+     * Spectral features of the audio, to shape the mouth. Without them the
+     * mouth simply opens with the volume.
+     */
+    spectrum?: SpectralFeatures;
+    /**
+     * The emotion to show. Defaults to `neutral`.
+     */
+    emotion?: AvatarEmotion;
+}
+
+/**
+ * Builds the CSS for an avatar's backdrop.
+ *
+ * @param {AvatarBackground} background - The backdrop.
+ * @param {string} color - The agent's color, used to tint it.
+ * @returns {React.CSSProperties} The styles.
+ */
+const backgroundStyle = (background: AvatarBackground, color: string): React.CSSProperties => {
+    switch (background) {
+        case 'glow':
+            return { background: `radial-gradient(circle, ${color}66 0%, transparent 65%)` };
+        case 'gradient':
+            return { background: `linear-gradient(160deg, ${color}55 0%, transparent 80%)` };
+        case 'stars':
+            return {
+                backgroundColor: '#0f172a',
+                backgroundImage: 'radial-gradient(white 1px, transparent 1.5px), radial-gradient(#ffffff99 1px, transparent 1.5px)',
+                backgroundSize: '48px 48px, 32px 32px',
+                backgroundPosition: '0 0, 16px 20px',
+            };
+        default:
+            return {};
+    }
+};
+
+/**
+ * A component that renders an agent's avatar, whatever its kind.
+ *
+ * It draws the backdrop and provides the hover and tilt effects; while
+ * hovered, the avatar's eyes follow the pointer. The avatar itself is drawn
+ * by the renderer for its kind: the classic canvas face, an SVG character or
+ * image sprites.
+ *
+ * @component
+ * @param {AgentAvatarProps} props - The component props.
+ * @returns {JSX.Element} The rendered avatar.
+ */
+const AgentAvatar: React.FC<AgentAvatarProps> = ({ avatar, color, volume, spectrum, emotion = 'neutral' }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const isHovering = useHover(containerRef);
+    const tilt = useTilt(containerRef);
+
+    // The tilt is up to ±10° toward the pointer; map it to the gaze range
+    const inputs = {
+        volume,
+        spectrum,
+        emotion,
+        lookTarget: isHovering ? { x: tilt.y / 10, y: -tilt.x / 10 } : null,
+    };
+
+    return (
+        <div
+            ref={containerRef}
+            className="w-full h-full rounded-2xl"
+            style={{
+                ...backgroundStyle(avatar.background, color),
+                transformStyle: 'preserve-3d',
+                transform: `perspective(1000px) rotateX(${tilt.x}deg) rotateY(${tilt.y}deg) scale(${isHovering ? 1.05 : 1})`,
+                transition: 'transform 0.1s linear',
+            }}
+        >
+            {avatar.kind === 'character' ? (
+                <CharacterAvatar pack={avatar.pack} color={color} eyeStyle={avatar.eyeStyle} accessory={avatar.accessory} {...inputs} />
+            ) : avatar.kind === 'sprite' ? (
+                <SpriteAvatar sprite={avatar.sprite} {...inputs} />
+            ) : (
+                <BasicFace color={color} eyeStyle={avatar.eyeStyle} accessory={avatar.accessory} {...inputs} />
+            )}
+        </div>
+    );
+};
+
+export default AgentAvatar;
@@ -1,7 +1,19 @@
-import React, { useState } from 'react';
-import { useAgentStore } from '../stores/useAgent';
+import React, { useRef, useState } from 'react';
+import { useAgentStore, isPresetId, AGENT_PRESETS } from '../stores/useAgent';
 import { useUIStore } from '../stores/useUI';
+import { BUILTIN_TOOLS } from '../lib/builtinTools';
+import { createAgentBundle, createAgentShareLink, parseAgentBundle } from '../lib/agentBundle';
+import { DEFAULT_VOICE, PREBUILT_VOICES, VOICE_LANGUAGES } from '../lib/voices';
+import { buildSystemInstruction, normalizePersona } from '../lib/persona';
+import { DEFAULT_NUDGE_SETTINGS, NUDGE_LIMITS, normalizeNudgeSettings } from '../lib/EngagementScheduler';
+import { DEFAULT_AVATAR, normalizeAvatar } from '../lib/avatar';
+import { DEFAULT_GENERATION_SETTINGS, GENERATION_LIMITS, LIVE_MODEL_HAS_NATIVE_AUDIO, normalizeGenerationSettings, VAD_SENSITIVITY_LABELS } from '../lib/generation';
+import { GenerationSettings, NudgeSettings, VadSensitivity } from '../types';
+import { playVoicePreview } from '../services/geminiService';
+import { useUserStore } from '../stores/useUser';
 import Modal from './Modal';
+import PersonaBuilder from './PersonaBuilder';
+import DesignPanel from './DesignPanel';
 
 /**
  * Available color options for the agent's appearance.
@@ -16,30 +28,239 @@ const COLORS = [
 ];
 
 /**
- * A component for editing the agent's properties (name, personality, color).
+ * The editor's tabs: everyday settings, and model and turn-detection settings.
+ */
+type EditTab = 'general' | 'advanced';
+
+/**
+ * Labels for the editor's tabs, in display order.
+ */
+const TAB_LABELS: Record<EditTab, string> = {
+    general: 'General',
+    advanced: 'Advanced',
+};
+
+/**
+ * Shared styling for the small inputs of the Advanced tab.
+ */
+const SMALL_INPUT_CLASS = 'mt-1 w-full bg-gray-700 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Dims the native-audio options when the Live model doesn't support them.
+ */
+const NATIVE_AUDIO_LABEL_CLASS = LIVE_MODEL_HAS_NATIVE_AUDIO ? 'cursor-pointer' : 'opacity-50';
+
+/**
+ * Reads an optional number input: a blank field means "use the default".
+ *
+ * @param {React.ChangeEvent<HTMLInputElement>} e - The change event.
+ * @returns {number | null} The number, or null if the field is blank.
+ */
+const readOptionalNumber = (e: React.ChangeEvent<HTMLInputElement>): number | null =>
+    e.target.value === '' ? null : e.target.valueAsNumber;
+
+/**
+ * Triggers a browser download of a JSON file.
+ *
+ * @param {string} filename - The file name.
+ * @param {unknown} data - The data to serialize.
+ */
+const downloadJson = (filename: string, data: unknown) => {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Turns an agent name into a safe file name stem.
+ *
+ * @param {string} name - The agent name.
+ * @returns {string} The file name stem.
+ */
+const toFileStem = (name: string): string =>
+    name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'agent';
+
+/**
+ * A component for editing the agent's properties (name, persona, color and avatar, voice, tools, follow-ups).
+ * An "Advanced" tab holds the language and the model's generation and turn-detection settings.
  *
  * This component uses a modal to present a form where the user can modify
  * the current agent's configuration. Changes are saved to the `useAgentStore`
- * upon clicking the "Save" button.
+ * upon clicking the "Save" button. A preview shows the system instruction the persona
+ * compiles to. Personal agents can also be duplicated or deleted,
+ * and edited presets can be reset to their defaults. Agents can be exported to and imported
+ * from JSON bundles, or shared as a link.
  *
  * @component
  * @returns {JSX.Element} The agent editing modal.
  */
 const AgentEdit: React.FC = () => {
-    const { current, update } = useAgentStore();
+    const { current, availablePersonal, update, duplicateAgent, deleteAgent, resetPreset, importAgents, setCurrent } = useAgentStore();
     const { setShowAgentEdit } = useUIStore();
+    const { name: userName, info: userInfo } = useUserStore();
     const [localAgent, setLocalAgent] = useState(current);
+    const [shareStatus, setShareStatus] = useState<{ message: string; isError: boolean } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const [previewError, setPreviewError] = useState<string | null>(null);
+    const [tab, setTab] = useState<EditTab>('general');
+
+    const nudges = { ...DEFAULT_NUDGE_SETTINGS, ...localAgent.nudges };
+    const generation = { ...DEFAULT_GENERATION_SETTINGS, ...localAgent.generation };
+    const selectedVoice = PREBUILT_VOICES.find(v => v.name === localAgent.voice.name) ?? PREBUILT_VOICES[0];
+
+    const isPreset = isPresetId(current.id);
+    const isModifiedPreset = isPreset && !AGENT_PRESETS.includes(current);
 
     /**
      * Handles saving the changes to the agent store and closing the modal.
      */
     const handleSave = () => {
-        update(localAgent);
+        update({
+            ...localAgent,
+            persona: normalizePersona(localAgent.persona),
+            nudges: normalizeNudgeSettings(localAgent.nudges),
+            avatar: normalizeAvatar(localAgent.avatar ?? DEFAULT_AVATAR),
+            generation: normalizeGenerationSettings(localAgent.generation),
+        });
         setShowAgentEdit(false);
     };
     
     /**
-     * Handles input changes for name and personality fields.
+     * Copies the current agent into a new personal agent and edits the copy.
+     */
+    const handleDuplicate = () => {
+        const copy = duplicateAgent(current.id);
+        if (copy) {
+            setLocalAgent(copy);
+        }
+    };
+
+    /**
+     * Deletes the current personal agent after confirmation and closes the modal.
+     */
+    const handleDelete = () => {
+        if (window.confirm(`Delete "${current.name}"? This cannot be undone.`)) {
+            deleteAgent(current.id);
+            setShowAgentEdit(false);
+        }
+    };
+
+    /**
+     * Restores the current preset to its shipped definition.
+     */
+    const handleReset = () => {
+        resetPreset(current.id);
+        const preset = AGENT_PRESETS.find(p => p.id === current.id);
+        if (preset) {
+            setLocalAgent(preset);
+        }
+    };
+
+    /**
+     * Updates the voice settings of the agent being edited.
+     *
+     * @param {Partial<typeof localAgent.voice>} voice - The voice fields to change.
+     */
+    const setVoice = (voice: Partial<typeof localAgent.voice>) => {
+        setLocalAgent(prev => ({ ...prev, voice: { ...prev.voice, ...voice } }));
+        setPreviewError(null);
+    };
+
+    /**
+     * Updates the follow-up settings of the agent being edited. Values are
+     * clamped when the agent is saved.
+     *
+     * @param {Partial<NudgeSettings>} fields - The settings to change.
+     */
+    const setNudges = (fields: Partial<NudgeSettings>) => {
+        setLocalAgent(prev => ({ ...prev, nudges: { ...DEFAULT_NUDGE_SETTINGS, ...prev.nudges, ...fields } }));
+    };
+
+    /**
+     * Updates the generation settings of the agent being edited. Values are
+     * clamped when the agent is saved.
+     *
+     * @param {Partial<GenerationSettings>} fields - The settings to change.
+     */
+    const setGeneration = (fields: Partial<GenerationSettings>) => {
+        setLocalAgent(prev => ({ ...prev, generation: { ...DEFAULT_GENERATION_SETTINGS, ...prev.generation, ...fields } }));
+    };
+
+    /**
+     * Plays the selected voice's sample phrase.
+     */
+    const handlePreview = async () => {
+        setPreviewError(null);
+        setIsPreviewing(true);
+        try {
+            await playVoicePreview(selectedVoice.sample, localAgent.voice);
+        } catch (error) {
+            console.error('Voice preview failed:', error);
+            setPreviewError(error instanceof Error ? error.message : String(error));
+        } finally {
+            setIsPreviewing(false);
+        }
+    };
+
+    /**
+     * Downloads the agent being edited as a bundle.
+     */
+    const handleExportCurrent = () => {
+        downloadJson(`${toFileStem(localAgent.name)}.agent.json`, createAgentBundle([localAgent]));
+    };
+
+    /**
+     * Downloads all personal agents as a single bundle.
+     */
+    const handleExportPersonal = () => {
+        downloadJson('my-agents.agent.json', createAgentBundle(availablePersonal));
+    };
+
+    /**
+     * Copies a shareable link for the agent being edited to the clipboard.
+     */
+    const handleCopyLink = async () => {
+        try {
+            const link = await createAgentShareLink(localAgent);
+            await navigator.clipboard.writeText(link);
+            setShareStatus({ message: 'Share link copied to clipboard.', isError: false });
+        } catch (error) {
+            console.error('Failed to create share link:', error);
+            setShareStatus({ message: 'Could not create a share link.', isError: true });
+        }
+    };
+
+    /**
+     * Imports agents from the selected bundle file and selects the first one.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} e - The change event.
+     */
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const imported = importAgents(parseAgentBundle(await file.text()));
+            setCurrent(imported[0].id);
+            setLocalAgent(imported[0]);
+            setShareStatus({
+                message: `Imported ${imported.length} agent${imported.length === 1 ? '' : 's'}.`,
+                isError: false,
+            });
+        } catch (error) {
+            console.error('Failed to import agents:', error);
+            setShareStatus({ message: error instanceof Error ? error.message : String(error), isError: true });
+        }
+    };
+
+    /**
+     * Handles input changes for the name field.
      *
      * @param {React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>} e - The change event.
      */
@@ -48,47 +269,349 @@ const AgentEdit: React.FC = () => {
         setLocalAgent(prev => ({...prev, [name]: value}));
     };
 
+    /**
+     * Enables or disables a tool for the agent.
+     *
+     * @param {string} toolName - The name of the tool to toggle.
+     */
+    const toggleTool = (toolName: string) => {
+        setLocalAgent(prev => {
+            const tools = prev.tools ?? [];
+            return {
+                ...prev,
+                tools: tools.includes(toolName) ? tools.filter(t => t !== toolName) : [...tools, toolName],
+            };
+        });
+    };
+
     return (
-        <Modal title="Edit Agent" onClose={() => setShowAgentEdit(false)}>
+        <Modal title={isPreset ? 'Edit Preset Agent' : 'Edit Agent'} onClose={() => setShowAgentEdit(false)}>
             <div className="space-y-4">
-                <div>
-                    <label htmlFor="name" className="block text-sm font-medium text-gray-300 mb-1">Agent Name</label>
-                    <input
-                        id="name"
-                        name="name"
-                        type="text"
-                        value={localAgent.name}
-                        onChange={handleInputChange}
-                        className="w-full bg-gray-700 border border-gray-600 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
-                </div>
-                <div>
-                    <label htmlFor="personality" className="block text-sm font-medium text-gray-300 mb-1">Personality</label>
-                    <textarea
-                        id="personality"
-                        name="personality"
-                        rows={6}
-                        value={localAgent.personality}
-                        onChange={handleInputChange}
-                        className="w-full bg-gray-700 border border-gray-600 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
-                        placeholder="Describe the agent's personality..."
-                    />
+                <div className="flex gap-4 border-b border-gray-700" role="tablist">
+                    {(Object.keys(TAB_LABELS) as EditTab[]).map(key => (
+                        <button
+                            key={key}
+                            onClick={() => setTab(key)}
+                            className={`pb-2 text-sm font-medium border-b-2 -mb-px transition ${tab === key ? 'border-blue-500 text-white' : 'border-transparent text-gray-400 hover:text-white'}`}
+                            role="tab"
+                            aria-selected={tab === key}
+                        >
+                            {TAB_LABELS[key]}
+                        </button>
+                    ))}
                 </div>
-                 <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">Color</label>
-                    <div className="flex gap-3">
-                        {COLORS.map(color => (
+                {tab === 'general' && (
+                    <>
+                    <div>
+                        <label htmlFor="name" className="block text-sm font-medium text-gray-300 mb-1">Agent Name</label>
+                        <input
+                            id="name"
+                            name="name"
+                            type="text"
+                            value={localAgent.name}
+                            onChange={handleInputChange}
+                            className="w-full bg-gray-700 border border-gray-600 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <fieldset>
+                        <legend className="block text-sm font-medium text-gray-300 mb-2">Persona</legend>
+                        <PersonaBuilder
+                            persona={localAgent.persona}
+                            onChange={persona => setLocalAgent(prev => ({ ...prev, persona }))}
+                        />
+                        <details className="mt-3">
+                            <summary className="text-sm text-gray-300 cursor-pointer hover:text-white">Prompt preview</summary>
+                            <pre className="mt-2 max-h-60 overflow-y-auto whitespace-pre-wrap text-xs text-gray-300 bg-gray-900 rounded-md p-3">
+                                {buildSystemInstruction(localAgent, { name: userName || 'the user', info: userInfo })}
+                            </pre>
+                            <p className="mt-1 text-xs text-gray-500">What the agent remembers about you is added when a session starts.</p>
+                        </details>
+                    </fieldset>
+                     <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">Appearance</label>
+                        <div className="flex gap-3">
+                            {COLORS.map(color => (
+                                <button
+                                    key={color.name}
+                                    onClick={() => setLocalAgent(prev => ({...prev, bodyColor: color.value}))}
+                                    style={{ backgroundColor: color.value }}
+                                    className={`w-8 h-8 rounded-full transition-transform hover:scale-110 ${localAgent.bodyColor === color.value ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-white' : ''}`}
+                                    aria-label={`Select ${color.name} color`}
+                                />
+                            ))}
+                        </div>
+                        <div className="mt-3">
+                            <DesignPanel
+                                avatar={localAgent.avatar ?? DEFAULT_AVATAR}
+                                color={localAgent.bodyColor}
+                                onChange={avatar => setLocalAgent(prev => ({ ...prev, avatar }))}
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="voice" className="block text-sm font-medium text-gray-300 mb-1">Voice</label>
+                        <select
+                            id="voice"
+                            value={selectedVoice.name}
+                            onChange={e => setVoice({ name: e.target.value })}
+                            className="w-full bg-gray-700 border border-gray-600 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {PREBUILT_VOICES.map(voice => (
+                                <option key={voice.name} value={voice.name}>{voice.name} — {voice.description}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-gray-400 mt-1">The language is set in the Advanced tab.</p>
+                        <div className="flex items-center gap-2 mt-2">
                             <button
-                                key={color.name}
-                                onClick={() => setLocalAgent(prev => ({...prev, bodyColor: color.value}))}
-                                style={{ backgroundColor: color.value }}
-                                className={`w-8 h-8 rounded-full transition-transform hover:scale-110 ${localAgent.bodyColor === color.value ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-white' : ''}`}
-                                aria-label={`Select ${color.name} color`}
+                                onClick={handlePreview}
+                                disabled={isPreviewing}
+                                className="text-sm px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition"
+                                aria-label={`Preview ${selectedVoice.name}`}
+                            >
+                                {isPreviewing ? 'Previewing…' : '▶ Preview'}
+                            </button>
+                            <span className="text-xs text-gray-400 italic">“{selectedVoice.sample}”</span>
+                        </div>
+                        {previewError && <p className="mt-1 text-xs text-red-300">{previewError}</p>}
+                    </div>
+                    <fieldset>
+                        <legend className="block text-sm font-medium text-gray-300 mb-2">Tools</legend>
+                        <div className="space-y-2">
+                            {BUILTIN_TOOLS.map(tool => (
+                                <label key={tool.name} className="flex items-start gap-2 text-sm text-gray-200 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={localAgent.tools?.includes(tool.name) ?? false}
+                                        onChange={() => toggleTool(tool.name)}
+                                        className="mt-1 accent-blue-500"
+                                    />
+                                    <span>
+                                        <span className="font-medium">{tool.label}</span>
+                                        <span className="block text-xs text-gray-400">{tool.declaration.description}</span>
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+                    <fieldset>
+                        <legend className="block text-sm font-medium text-gray-300 mb-2">Follow-ups</legend>
+                        <label className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={!nudges.enabled}
+                                onChange={e => setNudges({ enabled: !e.target.checked })}
+                                className="accent-blue-500"
                             />
-                        ))}
+                            Always wait for me
+                        </label>
+                        <p className="text-xs text-gray-400 mt-1 mb-2">
+                            Otherwise, when you go quiet, the agent follows up or suggests a topic.
+                        </p>
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className="text-xs text-gray-400">
+                                After seconds of silence
+                                <input
+                                    type="number"
+                                    min={NUDGE_LIMITS.idleSeconds.min}
+                                    max={NUDGE_LIMITS.idleSeconds.max}
+                                    value={nudges.idleSeconds}
+                                    onChange={e => setNudges({ idleSeconds: e.target.valueAsNumber })}
+                                    disabled={!nudges.enabled}
+                                    className="mt-1 w-full bg-gray-700 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                                />
+                            </label>
+                            <label className="text-xs text-gray-400">
+                                At most, in a row
+                                <input
+                                    type="number"
+                                    min={NUDGE_LIMITS.maxNudges.min}
+                                    max={NUDGE_LIMITS.maxNudges.max}
+                                    value={nudges.maxNudges}
+                                    onChange={e => setNudges({ maxNudges: e.target.valueAsNumber })}
+                                    disabled={!nudges.enabled}
+                                    className="mt-1 w-full bg-gray-700 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                                />
+                            </label>
+                        </div>
+                    </fieldset>
+                    </>
+                )}
+                {tab === 'advanced' && (
+                    <>
+                        <div>
+                            <label htmlFor="language" className="block text-sm font-medium text-gray-300 mb-1">Language</label>
+                            <select
+                                id="language"
+                                value={localAgent.voice.languageCode}
+                                onChange={e => setVoice({ languageCode: e.target.value })}
+                                className="w-full bg-gray-700 border border-gray-600 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                {VOICE_LANGUAGES.map(language => (
+                                    <option key={language.code} value={language.code}>{language.label}</option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-gray-400 mt-1">The language the agent speaks, and listens for in offline mode.</p>
+                        </div>
+                        <fieldset>
+                            <legend className="block text-sm font-medium text-gray-300 mb-2">Generation</legend>
+                            <div className="grid grid-cols-3 gap-3">
+                                <label className="text-xs text-gray-400">
+                                    Temperature
+                                    <input
+                                        type="number"
+                                        min={GENERATION_LIMITS.temperature.min}
+                                        max={GENERATION_LIMITS.temperature.max}
+                                        step={GENERATION_LIMITS.temperature.step}
+                                        value={generation.temperature ?? ''}
+                                        onChange={e => setGeneration({ temperature: readOptionalNumber(e) })}
+                                        placeholder="Default"
+                                        className={SMALL_INPUT_CLASS}
+                                    />
+                                </label>
+                                <label className="text-xs text-gray-400">
+                                    Top-p
+                                    <input
+                                        type="number"
+                                        min={GENERATION_LIMITS.topP.min}
+                                        max={GENERATION_LIMITS.topP.max}
+                                        step={GENERATION_LIMITS.topP.step}
+                                        value={generation.topP ?? ''}
+                                        onChange={e => setGeneration({ topP: readOptionalNumber(e) })}
+                                        placeholder="Default"
+                                        className={SMALL_INPUT_CLASS}
+                                    />
+                                </label>
+                                <label className="text-xs text-gray-400">
+                                    Max output tokens
+                                    <input
+                                        type="number"
+                                        min={GENERATION_LIMITS.maxOutputTokens.min}
+                                        max={GENERATION_LIMITS.maxOutputTokens.max}
+                                        step={GENERATION_LIMITS.maxOutputTokens.step}
+                                        value={generation.maxOutputTokens ?? ''}
+                                        onChange={e => setGeneration({ maxOutputTokens: readOptionalNumber(e) })}
+                                        placeholder="Default"
+                                        className={SMALL_INPUT_CLASS}
+                                    />
+                                </label>
+                            </div>
+                            <p className="text-xs text-gray-400 mt-1 mb-2">Leave a field blank to use the model's default.</p>
+                            <label className={`flex items-center gap-2 text-sm text-gray-200 ${NATIVE_AUDIO_LABEL_CLASS}`}>
+                                <input
+                                    type="checkbox"
+                                    checked={LIVE_MODEL_HAS_NATIVE_AUDIO && generation.affectiveDialog}
+                                    onChange={e => setGeneration({ affectiveDialog: e.target.checked })}
+                                    disabled={!LIVE_MODEL_HAS_NATIVE_AUDIO}
+                                    className="accent-blue-500"
+                                />
+                                Affective dialog: match the tone of your voice
+                            </label>
+                            <label className={`flex items-center gap-2 text-sm text-gray-200 mt-1 ${NATIVE_AUDIO_LABEL_CLASS}`}>
+                                <input
+                                    type="checkbox"
+                                    checked={LIVE_MODEL_HAS_NATIVE_AUDIO && generation.proactiveAudio}
+                                    onChange={e => setGeneration({ proactiveAudio: e.target.checked })}
+                                    disabled={!LIVE_MODEL_HAS_NATIVE_AUDIO}
+                                    className="accent-blue-500"
+                                />
+                                Proactive audio: stay quiet when speech isn't meant for the agent
+                            </label>
+                            {!LIVE_MODEL_HAS_NATIVE_AUDIO && (
+                                <p className="text-xs text-gray-400 mt-1">These two need a native-audio model, which conversations don't use yet.</p>
+                            )}
+                        </fieldset>
+                        <fieldset>
+                            <legend className="block text-sm font-medium text-gray-300 mb-2">Turn detection</legend>
+                            <div className="grid grid-cols-3 gap-3">
+                                <label className="text-xs text-gray-400">
+                                    Start of speech
+                                    <select
+                                        value={generation.startOfSpeechSensitivity}
+                                        onChange={e => setGeneration({ startOfSpeechSensitivity: e.target.value as VadSensitivity })}
+                                        className={SMALL_INPUT_CLASS}
+                                    >
+                                        {(Object.keys(VAD_SENSITIVITY_LABELS) as VadSensitivity[]).map(sensitivity => (
+                                            <option key={sensitivity} value={sensitivity}>{VAD_SENSITIVITY_LABELS[sensitivity]}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="text-xs text-gray-400">
+                                    End of speech
+                                    <select
+                                        value={generation.endOfSpeechSensitivity}
+                                        onChange={e => setGeneration({ endOfSpeechSensitivity: e.target.value as VadSensitivity })}
+                                        className={SMALL_INPUT_CLASS}
+                                    >
+                                        {(Object.keys(VAD_SENSITIVITY_LABELS) as VadSensitivity[]).map(sensitivity => (
+                                            <option key={sensitivity} value={sensitivity}>{VAD_SENSITIVITY_LABELS[sensitivity]}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="text-xs text-gray-400">
+                                    Silence (ms)
+                                    <input
+                                        type="number"
+                                        min={GENERATION_LIMITS.silenceDurationMs.min}
+                                        max={GENERATION_LIMITS.silenceDurationMs.max}
+                                        step={GENERATION_LIMITS.silenceDurationMs.step}
+                                        value={generation.silenceDurationMs ?? ''}
+                                        onChange={e => setGeneration({ silenceDurationMs: readOptionalNumber(e) })}
+                                        placeholder="Default"
+                                        className={SMALL_INPUT_CLASS}
+                                    />
+                                </label>
+                            </div>
+                            <p className="text-xs text-gray-400 mt-1">
+                                High sensitivity catches speech sooner; a longer silence lets you pause without losing your turn.
+                                Not used with push to talk, where you mark your turns yourself.
+                            </p>
+                        </fieldset>
+                        <div className="flex justify-between items-center">
+                            <p className="text-xs text-gray-500">Changes apply from the next conversation.</p>
+                            <button
+                                onClick={() => setLocalAgent(prev => ({
+                                    ...prev,
+                                    voice: { ...prev.voice, languageCode: DEFAULT_VOICE.languageCode },
+                                    generation: DEFAULT_GENERATION_SETTINGS,
+                                }))}
+                                className="text-sm text-gray-300 hover:text-white transition"
+                            >
+                                Use defaults
+                            </button>
+                        </div>
+                    </>
+                )}
+                <div>
+                    <span className="block text-sm font-medium text-gray-300 mb-2">Share</span>
+                    <div className="flex flex-wrap gap-3 text-sm">
+                        <button onClick={handleExportCurrent} className="text-gray-300 hover:text-white transition">Export</button>
+                        {availablePersonal.length > 0 && (
+                            <button onClick={handleExportPersonal} className="text-gray-300 hover:text-white transition">Export my agents</button>
+                        )}
+                        <button onClick={() => fileInputRef.current?.click()} className="text-gray-300 hover:text-white transition">Import…</button>
+                        <button onClick={handleCopyLink} className="text-gray-300 hover:text-white transition">Copy link</button>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept="application/json,.json"
+                            onChange={handleImportFile}
+                            className="hidden"
+                        />
                     </div>
+                    {shareStatus && (
+                        <p className={`mt-2 text-xs ${shareStatus.isError ? 'text-red-300' : 'text-green-300'}`}>{shareStatus.message}</p>
+                    )}
                 </div>
-                <div className="flex justify-end">
+                <div className="flex justify-between items-center gap-2">
+                    <div className="flex gap-3 text-sm">
+                        <button onClick={handleDuplicate} className="text-gray-300 hover:text-white transition">Duplicate</button>
+                        {!isPreset && (
+                            <button onClick={handleDelete} className="text-red-400 hover:text-red-300 transition">Delete</button>
+                        )}
+                        {isModifiedPreset && (
+                            <button onClick={handleReset} className="text-gray-300 hover:text-white transition">Reset to default</button>
+                        )}
+                    </div>
                     <button
                         onClick={handleSave}
                         className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-md transition"
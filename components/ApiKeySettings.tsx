@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { useCredentialsStore } from '../stores/useCredentials';
+import { fetchEphemeralToken } from '../lib/credentials';
+
+/**
+ * Settings for how the app signs in to the Gemini API: the user's API key,
+ * and optionally a token broker that hands out short-lived Live API tokens so
+ * the key stays on a server.
+ *
+ * @component
+ * @returns {JSX.Element} The API key settings.
+ */
+const ApiKeySettings: React.FC = () => {
+  const { apiKey, tokenBrokerUrl, setApiKey, setTokenBrokerUrl } = useCredentialsStore();
+  const [keyDraft, setKeyDraft] = useState(apiKey);
+  const [showKey, setShowKey] = useState(false);
+  const [brokerDraft, setBrokerDraft] = useState(tokenBrokerUrl);
+  const [brokerStatus, setBrokerStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  /**
+   * Saves the broker URL draft and forgets the last test result.
+   */
+  const commitBroker = () => {
+    setTokenBrokerUrl(brokerDraft);
+    setBrokerStatus(null);
+  };
+
+  /**
+   * Asks the broker for a token to check that it works.
+   */
+  const handleTestBroker = async () => {
+    commitBroker();
+    setIsTesting(true);
+    try {
+      const { expireTime } = await fetchEphemeralToken(brokerDraft.trim());
+      const expires = expireTime ? `, valid until ${new Date(expireTime).toLocaleTimeString()}` : '';
+      setBrokerStatus({ ok: true, message: `Got a token${expires}.` });
+    } catch (error) {
+      setBrokerStatus({ ok: false, message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold text-gray-200">Gemini API</h3>
+      <div>
+        <label htmlFor="api-key" className="block text-sm font-medium text-gray-300 mb-1">API key</label>
+        <div className="flex gap-2">
+          <input
+            id="api-key"
+            type={showKey ? 'text' : 'password'}
+            value={keyDraft}
+            onChange={(e) => setKeyDraft(e.target.value)}
+            onBlur={() => setApiKey(keyDraft)}
+            placeholder="Paste your key"
+            autoComplete="off"
+            spellCheck={false}
+            className="flex-1 min-w-0 bg-gray-700 border border-gray-600 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={() => setShowKey((show) => !show)}
+            className="text-xs text-gray-400 hover:text-white transition"
+            aria-pressed={showKey}
+          >
+            {showKey ? 'Hide' : 'Show'}
+          </button>
+          {apiKey && (
+            <button
+              onClick={() => {
+                setApiKey('');
+                setKeyDraft('');
+              }}
+              className="text-xs text-gray-400 hover:text-red-300 transition"
+            >
+              Forget
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Stored only in this browser. Needed for voice previews and memory, and for conversations unless a token broker is set.
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor="token-broker" className="block text-sm font-medium text-gray-300 mb-1">Token broker (optional)</label>
+        <div className="flex gap-2">
+          <input
+            id="token-broker"
+            type="url"
+            value={brokerDraft}
+            onChange={(e) => setBrokerDraft(e.target.value)}
+            onBlur={commitBroker}
+            placeholder="http://localhost:8787"
+            className="flex-1 min-w-0 bg-gray-700 border border-gray-600 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleTestBroker}
+            disabled={!brokerDraft.trim() || isTesting}
+            className="text-xs text-gray-400 hover:text-white disabled:opacity-50 disabled:hover:text-gray-400 transition"
+          >
+            {isTesting ? 'Testing…' : 'Test'}
+          </button>
+        </div>
+        {brokerStatus && (
+          <p className={`text-xs mt-1 ${brokerStatus.ok ? 'text-green-300' : 'text-red-300'}`}>{brokerStatus.message}</p>
+        )}
+        <p className="text-xs text-gray-500 mt-1">
+          Conversations use a short-lived token from the broker (<code>npm run token-broker</code>), so the key never reaches the browser.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeySettings;
@@ -1,21 +1,104 @@
 import React, { useRef, useEffect } from 'react';
-import { useAgentStore } from '../stores/useAgent';
-import { useHover, useTilt } from '../hooks/useInteractions';
+import { AvatarAnimationInputs, useAvatarAnimator } from '../hooks/useAvatarAnimator';
+import { AvatarFrame } from '../lib/AvatarAnimator';
+import { buildFaceParts, FaceLayout } from '../lib/avatarParts';
+import { AvatarAccessory, EyeStyle } from '../types';
 
 /**
- * Hook to handle the rendering logic for the face on a canvas.
+ * The style parameters the face supports.
+ */
+interface FaceStyle {
+    /**
+     * The color of the face.
+     */
+    color: string;
+    /**
+     * The eye style.
+     */
+    eyeStyle: EyeStyle;
+    /**
+     * The accessory.
+     */
+    accessory: AvatarAccessory;
+}
+
+/**
+ * Draws one frame of the face.
  *
- * It draws a simple face with eyes and a mouth that reacts to audio volume.
+ * @param {CanvasRenderingContext2D} ctx - The canvas context.
+ * @param {AvatarFrame} frame - The animation frame.
+ * @param {FaceStyle} style - The face's style.
+ * @param {number} width - The canvas width.
+ * @param {number} height - The canvas height.
+ */
+const drawFace = (ctx: CanvasRenderingContext2D, frame: AvatarFrame, style: FaceStyle, width: number, height: number) => {
+    // Breathing gently swells the body and lifts the features
+    const centerY = height / 2 - frame.breath * height / 200;
+    const radius = (Math.min(width, height) / 2.5) * (1 + frame.breath * 0.015);
+    const layout: FaceLayout = {
+        centerX: width / 2,
+        headCenterY: height / 2,
+        headRadius: radius,
+        headTop: height / 2 - radius,
+        eyeY: centerY - height / 12,
+        eyeSpacing: width / 8,
+        eyeRadius: width / 30,
+        mouthY: centerY + height / 10,
+        mouthWidth: width / 6,
+        mouthMaxOpen: height / 7,
+        lineWidth: Math.max(2, width / 120),
+    };
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = style.color;
+
+    // Simple circle body
+    ctx.beginPath();
+    ctx.arc(layout.centerX, layout.headCenterY, radius, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    for (const part of buildFaceParts(frame, layout, style)) {
+        const path = new Path2D(part.d);
+        if (part.fill) {
+            ctx.fillStyle = part.fill;
+            ctx.fill(path);
+        }
+        if (part.stroke) {
+            ctx.strokeStyle = part.stroke;
+            ctx.lineWidth = part.lineWidth ?? layout.lineWidth;
+            ctx.stroke(path);
+        }
+    }
+};
+
+/**
+ * Props for the BasicFace component.
+ */
+interface BasicFaceProps extends AvatarAnimationInputs, FaceStyle {}
+
+/**
+ * A component that renders the classic animated face on a canvas.
  *
- * @param {React.RefObject<HTMLCanvasElement>} canvasRef - The ref to the canvas element.
- * @param {string} color - The color of the face.
- * @param {number} volume - The current audio volume level (0-1).
+ * The mouth is lip-synced to the audio, the expression follows the emotion,
+ * and the face blinks, glances around and breathes while idle. The canvas is
+ * redrawn every animation frame without re-rendering the component.
+ *
+ * @component
+ * @param {BasicFaceProps} props - The component props.
+ * @returns {JSX.Element} The rendered face component.
  */
-const useFace = (
-    canvasRef: React.RefObject<HTMLCanvasElement>,
-    color: string,
-    volume: number,
-) => {
+const BasicFace: React.FC<BasicFaceProps> = ({ color, eyeStyle, accessory, ...inputs }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const animator = useAvatarAnimator(inputs);
+    // Read by the drawing loop, which is not re-created when the style changes
+    const styleRef = useRef<FaceStyle>({ color, eyeStyle, accessory });
+
+    useEffect(() => {
+        styleRef.current = { color, eyeStyle, accessory };
+    }, [color, eyeStyle, accessory]);
+
     useEffect(() => {
         const canvas = canvasRef.current;
         if (!canvas) return;
@@ -23,112 +106,27 @@ const useFace = (
         if (!ctx) return;
 
         let frameId: number;
-        let lastVolume = -1;
-        let lastColor = '';
-        let lastWidth = 0;
-        let lastHeight = 0;
 
-        const draw = () => {
+        const draw = (now: number) => {
             const { width, height } = canvas.getBoundingClientRect();
-
-            // Only redraw if volume or color changed, or canvas resized
-            const volumeChanged = Math.abs(volume - lastVolume) > 0.001;
-            const colorChanged = color !== lastColor;
-            const sizeChanged = width !== lastWidth || height !== lastHeight;
-
-            if (volumeChanged || colorChanged || sizeChanged) {
+            // Resizing clears the canvas, so only do it when the size changed
+            if (canvas.width !== width || canvas.height !== height) {
                 canvas.width = width;
                 canvas.height = height;
-
-                ctx.clearRect(0, 0, width, height);
-                ctx.fillStyle = color;
-
-                // Simple circle body
-                ctx.beginPath();
-                ctx.arc(width / 2, height / 2, Math.min(width, height) / 2.5, 0, Math.PI * 2);
-                ctx.fill();
-
-                // Eyes
-                const eyeXOffset = width / 8;
-                const eyeYOffset = -height / 12;
-                const eyeRadius = width / 30;
-                ctx.fillStyle = 'white';
-                ctx.beginPath();
-                ctx.arc(width / 2 - eyeXOffset, height / 2 + eyeYOffset, eyeRadius, 0, Math.PI * 2);
-                ctx.fill();
-                ctx.beginPath();
-                ctx.arc(width / 2 + eyeXOffset, height / 2 + eyeYOffset, eyeRadius, 0, Math.PI * 2);
-                ctx.fill();
-
-                // Mouth
-                const mouthY = height / 2 + height / 10;
-                const mouthWidth = width / 6;
-                const mouthHeight = Math.max(2, Math.min(height / 8, volume * height * 1.5));
-                ctx.fillStyle = 'white';
-                ctx.beginPath();
-                ctx.ellipse(width / 2, mouthY, mouthWidth / 2, mouthHeight / 2, 0, 0, Math.PI * 2);
-                ctx.fill();
-
-                lastVolume = volume;
-                lastColor = color;
-                lastWidth = width;
-                lastHeight = height;
             }
 
+            drawFace(ctx, animator.update(now), styleRef.current, width, height);
             frameId = requestAnimationFrame(draw);
         };
 
-        draw();
+        frameId = requestAnimationFrame(draw);
 
         return () => {
             cancelAnimationFrame(frameId);
         };
-    }, [canvasRef, color, volume]);
-};
-
-/**
- * Props for the BasicFace component.
- */
-interface BasicFaceProps {
-    /**
-     * The audio volume level (0-1) to control the mouth animation.
-     */
-    volume: number;
-}
+    }, [animator]);
 
-/**
- * A component that renders a basic animated face reacting to audio volume.
- *
- * It uses a canvas to draw the face and includes interaction hooks for
- * hover and tilt effects.
- *
- * @component
- * @param {BasicFaceProps} props - The component props.
- * @returns {JSX.Element} The rendered face component.
- */
-const BasicFace: React.FC<BasicFaceProps> = ({ volume }) => {
-    const canvasRef = useRef<HTMLCanvasElement>(null);
-    const containerRef = useRef<HTMLDivElement>(null);
-    const { current: currentAgent } = useAgentStore();
-    
-    const isHovering = useHover(containerRef);
-    const tilt = useTilt(containerRef);
-
-    useFace(canvasRef, currentAgent.bodyColor, volume);
-
-    return (
-        <div 
-            ref={containerRef} 
-            className="w-full h-full" 
-            style={{
-                transformStyle: 'preserve-3d',
-                transform: `perspective(1000px) rotateX(${tilt.x}deg) rotateY(${tilt.y}deg) scale(${isHovering ? 1.05 : 1})`,
-                transition: 'transform 0.1s linear',
-            }}
-        >
-            <canvas ref={canvasRef} className="w-full h-full" />
-        </div>
-    );
+    return <canvas ref={canvasRef} className="w-full h-full" />;
 };
 
 export default BasicFace;
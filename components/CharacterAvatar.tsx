@@ -0,0 +1,69 @@
+import React from 'react';
+import { AvatarAnimationInputs, useAvatarAnimator, useAvatarFrame } from '../hooks/useAvatarAnimator';
+import { buildFaceParts } from '../lib/avatarParts';
+import { AvatarAccessory, EyeStyle } from '../types';
+import { getCharacterPack } from './characterPacks';
+
+/**
+ * Props for the CharacterAvatar component.
+ */
+interface CharacterAvatarProps extends AvatarAnimationInputs {
+    /**
+     * The character pack's ID.
+     */
+    pack: string;
+    /**
+     * The character's color.
+     */
+    color: string;
+    /**
+     * The eye style.
+     */
+    eyeStyle: EyeStyle;
+    /**
+     * The accessory.
+     */
+    accessory: AvatarAccessory;
+}
+
+/**
+ * A component that renders an animated SVG character from a character pack.
+ *
+ * The pack draws the head; the eyes, brows, mouth and accessory are the same
+ * animated features as the classic face, placed by the pack's layout.
+ *
+ * @component
+ * @param {CharacterAvatarProps} props - The component props.
+ * @returns {JSX.Element} The rendered character.
+ */
+const CharacterAvatar: React.FC<CharacterAvatarProps> = ({ pack: packId, color, eyeStyle, accessory, ...inputs }) => {
+    const frame = useAvatarFrame(useAvatarAnimator(inputs));
+    const { layout, Body } = getCharacterPack(packId);
+    // Breathing gently swells the head and lifts the features
+    const scale = 1 + frame.breath * 0.015;
+    const lift = frame.breath * layout.lineWidth * 0.5;
+    const parts = buildFaceParts(
+        frame,
+        { ...layout, eyeY: layout.eyeY - lift, mouthY: layout.mouthY - lift },
+        { eyeStyle, accessory },
+    );
+
+    return (
+        <svg viewBox="0 0 200 200" className="w-full h-full" strokeLinecap="round" strokeLinejoin="round">
+            <g transform={`translate(${layout.centerX} ${layout.headCenterY}) scale(${scale}) translate(${-layout.centerX} ${-layout.headCenterY})`}>
+                <Body color={color} />
+            </g>
+            {parts.map((part, index) => (
+                <path
+                    key={index}
+                    d={part.d}
+                    fill={part.fill ?? 'none'}
+                    stroke={part.stroke}
+                    strokeWidth={part.stroke ? part.lineWidth ?? layout.lineWidth : undefined}
+                />
+            ))}
+        </svg>
+    );
+};
+
+export default CharacterAvatar;
@@ -1,3 +1,39 @@
+import React from 'react';
+import ChatView from './ChatView';
+import InputBar from './InputBar';
+import { useUIStore } from '../stores/useUI';
+import { useConversationStore } from '../stores/useConversations';
+
 /**
- * This component is currently empty and reserved for future implementation of a chat interface.
+ * The conversation panel shown next to the agent's face in the split layout.
+ *
+ * Combines the scrolling `ChatView` history with the `InputBar`. While a past
+ * conversation from the history is open, it is shown read-only with a way back
+ * to the live conversation.
+ *
+ * @component
+ * @returns {JSX.Element} The chat panel.
  */
+const ChatInterface: React.FC = () => {
+    const { viewedConversationId, setViewedConversationId } = useUIStore();
+    const viewed = useConversationStore(state => state.conversations.find(c => c.id === viewedConversationId));
+
+    return (
+        <section className="h-full flex flex-col bg-gray-800/60 border-l border-gray-700" aria-label="Conversation">
+            <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-gray-700">
+                <h2 className="text-sm font-semibold text-gray-300 truncate">
+                    {viewed ? viewed.title || 'Untitled conversation' : 'Conversation'}
+                </h2>
+                {viewed && (
+                    <button onClick={() => setViewedConversationId(null)} className="shrink-0 text-xs text-blue-300 hover:text-blue-200 transition">
+                        Back to live
+                    </button>
+                )}
+            </div>
+            <ChatView />
+            {!viewed && <InputBar />}
+        </section>
+    );
+};
+
+export default ChatInterface;
@@ -1,3 +1,66 @@
+import React, { useEffect, useRef } from 'react';
+import { useLiveAPI } from '../context/LiveAPIProvider';
+import { useAgentStore } from '../stores/useAgent';
+import { useUserStore } from '../stores/useUser';
+import { useUIStore } from '../stores/useUI';
+import { useConversationStore } from '../stores/useConversations';
+import MessageBubble from './MessageBubble';
+
 /**
- * This component is currently empty and reserved for future implementation of a chat view.
+ * The color used for agents of past conversations that no longer exist.
  */
+const FALLBACK_AGENT_COLOR = '#6b7280';
+
+/**
+ * A scrolling view of the conversation transcript.
+ *
+ * Renders one `MessageBubble` per transcript entry and keeps the view scrolled
+ * to the latest message while the turn in progress streams in. When a past
+ * conversation is opened from the history, its saved transcript is shown instead.
+ *
+ * @component
+ * @returns {JSX.Element} The chat history view.
+ */
+const ChatView: React.FC = () => {
+    const { transcript } = useLiveAPI();
+    const { current: currentAgent, availablePresets, availablePersonal } = useAgentStore();
+    const { name: currentUserName } = useUserStore();
+    const viewedConversationId = useUIStore(state => state.viewedConversationId);
+    const viewed = useConversationStore(state => state.conversations.find(c => c.id === viewedConversationId));
+    const bottomRef = useRef<HTMLDivElement>(null);
+
+    const entries = viewed ? viewed.transcript : transcript;
+    const agentName = viewed ? viewed.agentName : currentAgent.name;
+    const userName = viewed ? viewed.userName : currentUserName;
+    const agentColor = viewed
+        ? [...availablePresets, ...availablePersonal].find(a => a.id === viewed.agentId)?.bodyColor ?? FALLBACK_AGENT_COLOR
+        : currentAgent.bodyColor;
+
+    useEffect(() => {
+        bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+    }, [entries]);
+
+    if (entries.length === 0) {
+        return (
+            <div className="flex-1 flex items-center justify-center text-sm text-gray-500 px-4 text-center">
+                Connect and start talking to see the conversation here.
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3" role="log" aria-live="polite">
+            {entries.map(entry => (
+                <MessageBubble
+                    key={entry.id}
+                    entry={entry}
+                    label={entry.speaker === 'user' ? userName : agentName}
+                    accentColor={agentColor}
+                />
+            ))}
+            <div ref={bottomRef} />
+        </div>
+    );
+};
+
+export default ChatView;
@@ -1,22 +1,76 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useLiveAPI } from '../context/LiveAPIProvider';
-import { AudioRecorder } from '../lib/AudioRecorder';
+import { AudioRecorder, RECORDER_MIME_TYPE } from '../lib/AudioRecorder';
+import { VideoCapture, VideoSource } from '../lib/VideoCapture';
+import { useUIStore } from '../stores/useUI';
+import { useDevicesStore } from '../stores/useDevices';
+import { useUsageStore } from '../stores/useUsage';
+import { formatCost, formatTokens } from '../lib/usage';
+import { ResponseMode } from '../types';
+
+/**
+ * Frame rates offered for camera and screen sharing, in frames per second.
+ */
+const VIDEO_FRAME_RATES = [0.5, 1, 2];
+
+/**
+ * Mic level (RMS, 0-1) above which the user is taken to be speaking, so the
+ * agent holds off on idle follow-ups.
+ */
+const SPEECH_VOLUME_THRESHOLD = 0.02;
+
+/**
+ * Labels for the reply modes, in the order they are offered.
+ */
+const RESPONSE_MODE_LABELS: Record<ResponseMode, string> = {
+    audioTranscript: 'Voice + transcript',
+    audio: 'Voice only',
+    text: 'Text only',
+};
+
+/**
+ * Checks whether a keyboard event target is a text field, where Space must keep typing.
+ *
+ * @param {EventTarget | null} target - The event target.
+ * @returns {boolean} True if the target accepts text input.
+ */
+const isTextInput = (target: EventTarget | null): boolean =>
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 
 /**
  * A component that provides controls for the application, such as connecting/disconnecting,
- * muting audio, and sending text input.
+ * muting audio, push-to-talk, sharing the camera or screen, and switching to the chat
+ * layout for text input.
+ *
+ * It manages the audio recording, video capture and streaming logic when connected to the Live API.
+ * In push-to-talk mode, audio is only sent while the talk button or Space is held,
+ * bracketed by explicit activity start/end signals. The mic mode and how the agent replies
+ * (voice, voice with transcript, or text) are chosen before connecting.
  *
- * It manages the audio recording and streaming logic when connected to the Live API.
+ * When the browser speech engine serves the session instead of the Live API, no
+ * audio or video is streamed: the engine listens through the browser's speech
+ * recognition whenever the mic is open, and the camera and screen are unavailable.
  *
  * @component
  * @returns {JSX.Element} The control tray component.
  */
 const ControlTray: React.FC = () => {
-    const { isConnected, isConnecting, connectionError, reconnectAttempt, connect, disconnect, client } = useLiveAPI();
+    const { isConnected, isConnecting, connectionError, reconnectAttempt, connect, disconnect, client, sessionUsage, sessionCost, budgetStatus, noteUserActivity, engine, setListening } = useLiveAPI();
+    const sessionBudget = useUsageStore(state => state.sessionBudget);
     const [isMuted, setIsMuted] = useState(false);
-    const [textInput, setTextInput] = useState('');
-    const [showTextInput, setShowTextInput] = useState(false);
+    const { layout, setLayout, micMode, setMicMode, responseMode, setResponseMode, videoFrameRate, setVideoFrameRate } = useUIStore();
+    const isPushToTalk = micMode === 'pushToTalk';
+    const [micUnavailable, setMicUnavailable] = useState(false);
+    const [isTransmitting, setIsTransmitting] = useState(false);
+    // Read by the recorder's data handler, which is not re-created on every press
+    const transmittingRef = useRef(false);
+    const inputDeviceId = useDevicesStore(state => state.inputDeviceId);
     const recorder = useRef<AudioRecorder | null>(null);
+    const [videoSource, setVideoSource] = useState<VideoSource | null>(null);
+    const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
+    const videoCapture = useRef<VideoCapture | null>(null);
+    const previewRef = useRef<HTMLVideoElement>(null);
 
     useEffect(() => {
         let mounted = true;
@@ -29,33 +83,45 @@ const ControlTray: React.FC = () => {
                 recorder.current = null;
             }
 
-            if (isConnected && !isMuted) {
+            if (isConnected && client && (isPushToTalk || !isMuted)) {
                 // Check mounted flag before creating new recorder
                 if (!mounted) return;
 
-                currentRecorder = new AudioRecorder();
+                currentRecorder = new AudioRecorder({ deviceId: inputDeviceId });
                 recorder.current = currentRecorder;
 
                 currentRecorder.on('data', (data) => {
-                    if (mounted && client) {
-                        console.log(`🎤 Audio data captured: ${data.length} chars`);
-                        client.sendRealtimeInput(data, 'audio/pcm');
+                    if (mounted && client && (!isPushToTalk || transmittingRef.current)) {
+                        client.sendRealtimeInput(data, RECORDER_MIME_TYPE);
+                    }
+                });
+
+                // Local voice activity: the agent shouldn't follow up while the user talks
+                currentRecorder.on('volume', (volume) => {
+                    if (mounted && volume > SPEECH_VOLUME_THRESHOLD && (!isPushToTalk || transmittingRef.current)) {
+                        noteUserActivity();
                     }
                 });
 
                 currentRecorder.on('error', (error) => {
                     console.error('Recorder error:', error);
+                    // Fall back to typing in the chat panel
                     if (mounted) {
-                        setShowTextInput(true);
+                        setMicUnavailable(true);
+                        setLayout('split');
                     }
                 });
 
                 try {
                     await currentRecorder.start();
+                    if (mounted) {
+                        setMicUnavailable(false);
+                    }
                 } catch (error) {
                     console.error('Failed to start recorder:', error);
                     if (mounted) {
-                        setShowTextInput(true);
+                        setMicUnavailable(true);
+                        setLayout('split');
                     }
                 }
             }
@@ -75,58 +141,167 @@ const ControlTray: React.FC = () => {
                 recorder.current = null;
             }
         };
-    }, [isConnected, isMuted, client]);
+    }, [isConnected, isMuted, isPushToTalk, inputDeviceId, client, setLayout, noteUserActivity]);
 
     /**
-     * Toggles the connection to the Live API.
+     * Starts a push-to-talk turn.
      */
-    const handleConnectToggle = () => {
-        if (isConnected) {
-            disconnect();
-            setShowTextInput(false);
-        } else {
-            connect();
-        }
-    };
-
-    const MAX_TEXT_LENGTH = 1000;
+    const startTransmitting = useCallback(() => {
+        if (!isPushToTalk || !isConnected || transmittingRef.current) return;
+        transmittingRef.current = true;
+        setIsTransmitting(true);
+        noteUserActivity();
+        client?.sendActivityStart();
+    }, [isPushToTalk, isConnected, client, noteUserActivity]);
 
     /**
-     * Sends the text input to the Live API.
+     * Ends the current push-to-talk turn, if any.
      */
-    const handleSendText = () => {
-        const trimmed = textInput.trim();
+    const stopTransmitting = useCallback(() => {
+        if (!transmittingRef.current) return;
+        transmittingRef.current = false;
+        setIsTransmitting(false);
+        client?.sendActivityEnd();
+    }, [client]);
 
-        if (!trimmed) {
-            return;
-        }
+    // Hold Space to talk, unless the user is typing
+    useEffect(() => {
+        if (!isPushToTalk || !isConnected) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.code !== 'Space' || isTextInput(event.target)) return;
+            event.preventDefault();
+            if (!event.repeat) {
+                startTransmitting();
+            }
+        };
+        const handleKeyUp = (event: KeyboardEvent) => {
+            if (event.code !== 'Space' || isTextInput(event.target)) return;
+            event.preventDefault();
+            stopTransmitting();
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        // Key-up is missed when the window loses focus mid-press
+        window.addEventListener('blur', stopTransmitting);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', stopTransmitting);
+            stopTransmitting();
+        };
+    }, [isPushToTalk, isConnected, startTransmitting, stopTransmitting]);
 
-        if (trimmed.length > MAX_TEXT_LENGTH) {
-            console.error(`Message too long. Maximum ${MAX_TEXT_LENGTH} characters.`);
-            return;
+    // The browser engine listens for itself while the mic is open
+    useEffect(() => {
+        setListening(isConnected && (isPushToTalk ? isTransmitting : !isMuted));
+    }, [isConnected, isPushToTalk, isTransmitting, isMuted, setListening]);
+
+    useEffect(() => {
+        if (!isConnected) {
+            transmittingRef.current = false;
+            setIsTransmitting(false);
+            setVideoSource(null);
         }
+    }, [isConnected]);
+
+    // Stream frames from the selected camera or screen while connected
+    useEffect(() => {
+        if (!isConnected || !videoSource || !client) return;
+
+        let active = true;
+        const capture = new VideoCapture({ frameRate: useUIStore.getState().videoFrameRate });
+        videoCapture.current = capture;
 
-        if (client && isConnected) {
-            console.log('Sending text:', trimmed);
-            client.sendInitialText(trimmed);
-            setTextInput('');
+        capture.on('frame', (data) => client.sendVideoFrame(data));
+        capture.on('ended', () => {
+            if (active) setVideoSource(null);
+        });
+        capture.on('error', (error) => console.error('Video capture error:', error));
+
+        capture.start(videoSource)
+            .then(() => {
+                if (active) setPreviewStream(capture.mediaStream);
+            })
+            .catch((error) => {
+                // Permission denied or the screen picker was dismissed
+                console.error(`Failed to start ${videoSource} capture:`, error);
+                if (active) setVideoSource(null);
+            });
+
+        return () => {
+            active = false;
+            capture.removeAllListeners();
+            capture.stop();
+            videoCapture.current = null;
+            setPreviewStream(null);
+        };
+    }, [isConnected, videoSource, client]);
+
+    useEffect(() => {
+        videoCapture.current?.setFrameRate(videoFrameRate);
+    }, [videoFrameRate]);
+
+    useEffect(() => {
+        if (previewRef.current) {
+            previewRef.current.srcObject = previewStream;
         }
-    };
+    }, [previewStream]);
 
     /**
-     * Handles key press events in the text input, sending the message on Enter.
+     * Turns a video source on, switching from the other one, or off if it is already on.
      *
-     * @param {React.KeyboardEvent} e - The keyboard event.
+     * @param {VideoSource} source - The source to toggle.
+     */
+    const toggleVideoSource = (source: VideoSource) => {
+        setVideoSource(current => (current === source ? null : source));
+    };
+
+    /**
+     * Toggles the connection to the Live API.
      */
-    const handleKeyPress = (e: React.KeyboardEvent) => {
-        if (e.key === 'Enter' && !e.shiftKey) {
-            e.preventDefault();
-            handleSendText();
+    const handleConnectToggle = () => {
+        if (isConnected) {
+            disconnect();
+        } else {
+            // Text replies only appear in the chat panel
+            if (responseMode === 'text') {
+                setLayout('split');
+            }
+            // The engine shows why in connectionError
+            connect().catch((error) => console.error('Failed to connect:', error));
         }
     };
 
     return (
         <div className="absolute bottom-0 left-0 right-0 p-4 flex flex-col items-center gap-3 bg-gray-900/50 backdrop-blur-sm z-10">
+            {previewStream && (
+                <div className="absolute bottom-full right-4 mb-3 w-48 rounded-lg overflow-hidden border border-gray-600 bg-black shadow-lg">
+                    <video
+                        ref={previewRef}
+                        autoPlay
+                        muted
+                        playsInline
+                        className={`w-full aspect-video object-contain ${videoSource === 'camera' ? '-scale-x-100' : ''}`}
+                        aria-label={videoSource === 'camera' ? 'Camera preview' : 'Screen share preview'}
+                    />
+                    <div className="flex items-center justify-between px-2 py-1 text-xs text-gray-300 bg-gray-900/80">
+                        <span className="text-red-400">● Sharing {videoSource}</span>
+                        <select
+                            value={videoFrameRate}
+                            onChange={e => setVideoFrameRate(Number(e.target.value))}
+                            className="bg-transparent focus:outline-none cursor-pointer"
+                            aria-label="Video frame rate"
+                        >
+                            {VIDEO_FRAME_RATES.map(rate => (
+                                <option key={rate} value={rate} className="bg-gray-800">{rate} fps</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+            )}
+
             {connectionError && (
                 <div className="bg-red-500/20 border border-red-500 text-red-200 px-4 py-2 rounded text-sm max-w-md text-center">
                     {connectionError}
@@ -139,23 +314,33 @@ const ControlTray: React.FC = () => {
                 </div>
             )}
 
-            {showTextInput && isConnected && (
-                <div className="flex gap-2 w-full max-w-md">
-                    <input
-                        type="text"
-                        value={textInput}
-                        onChange={(e) => setTextInput(e.target.value)}
-                        onKeyPress={handleKeyPress}
-                        placeholder="Type to chat..."
-                        className="flex-1 px-3 py-2 rounded bg-gray-700 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
-                    <button
-                        onClick={handleSendText}
-                        disabled={!textInput.trim()}
-                        className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
-                    >
-                        Send
-                    </button>
+            {isConnected && engine === 'browser' && (
+                <div className="text-sm text-blue-200 text-center max-w-md" role="status">
+                    Offline mode: the live service is unavailable, so your browser is doing the talking.
+                    Replies are simple and this conversation won't be saved.
+                </div>
+            )}
+
+            {isConnected && micUnavailable && (
+                <div className="text-sm text-yellow-200 text-center max-w-md" role="status">
+                    Microphone unavailable. Type in the chat panel instead
+                    {responseMode !== 'text' && ', or choose text-only replies for your next conversation'}.
+                </div>
+            )}
+
+            {isConnected && (sessionUsage.promptTokens > 0 || sessionUsage.responseTokens > 0) && (
+                <div
+                    className={`text-xs ${budgetStatus === 'warning' ? 'text-yellow-300' : 'text-gray-400'}`}
+                    title="Estimated from the token counts reported by the API and the prices in Settings"
+                >
+                    ≈ {formatCost(sessionCost)}{sessionBudget ? ` of ${formatCost(sessionBudget)}` : ''} · {formatTokens(sessionUsage)}
+                    {budgetStatus === 'warning' && ' · nearing the session budget, the session ends when it is reached'}
+                </div>
+            )}
+
+            {isConnected && isPushToTalk && (
+                <div className={`text-sm ${isTransmitting ? 'text-green-300 animate-pulse' : 'text-gray-400'}`} aria-live="polite">
+                    {isTransmitting ? '● Transmitting' : 'Hold Space or the mic button to talk'}
                 </div>
             )}
 
@@ -167,29 +352,94 @@ const ControlTray: React.FC = () => {
                 >
                     {isConnecting && reconnectAttempt > 0 ? `Reconnecting...` : (isConnecting ? 'Connecting...' : (isConnected ? 'Disconnect' : 'Connect'))}
                 </button>
+                {isPushToTalk ? (
+                    <button
+                        onPointerDown={(e) => {
+                            // Keep receiving pointerup even if the pointer leaves the button
+                            e.currentTarget.setPointerCapture(e.pointerId);
+                            startTransmitting();
+                        }}
+                        onPointerUp={stopTransmitting}
+                        onPointerCancel={stopTransmitting}
+                        onContextMenu={(e) => e.preventDefault()}
+                        disabled={!isConnected}
+                        className={`w-14 h-14 rounded-full flex items-center justify-center transition select-none touch-none disabled:bg-gray-800 disabled:text-gray-600 ${isTransmitting ? 'bg-green-500 ring-4 ring-green-300/60 scale-110' : 'bg-gray-700 hover:bg-gray-600'}`}
+                        title="Hold to talk (or hold Space)"
+                        aria-label="Push to talk"
+                        aria-pressed={isTransmitting}
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="currentColor" viewBox="0 0 24 24"><path d="M12 14c1.66 0 3-1.34 3-3V5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3z"/><path d="M17 16.91c-1.25 1.1-2.848 1.64-4.5 1.64-1.652 0-3.25-.54-4.5-1.63V20h9v-3.09zM12 20c.553 0 1-.447 1-1s-.447-1-1-1-1 .447-1 1 .447 1 1 1z"/></svg>
+                    </button>
+                ) : (
+                    <button
+                        onClick={() => setIsMuted(prev => !prev)}
+                        disabled={!isConnected}
+                        className="w-14 h-14 rounded-full flex items-center justify-center bg-gray-700 disabled:bg-gray-800 disabled:text-gray-600 hover:bg-gray-600 transition"
+                        title={isMuted ? 'Unmute microphone' : 'Mute microphone'}
+                        aria-label={isMuted ? 'Unmute' : 'Mute'}
+                    >
+                        {isMuted ? (
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19.114 5.636l.879.879M9.172 9.172L5.636 5.636m9.172 9.172l3.536 3.536M9.172 9.172l9.172 9.172" /></svg>
+                        ) : (
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="currentColor" viewBox="0 0 24 24"><path d="M12 14c1.66 0 3-1.34 3-3V5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3z"/><path d="M17 16.91c-1.25 1.1-2.848 1.64-4.5 1.64-1.652 0-3.25-.54-4.5-1.63V20h9v-3.09zM12 20c.553 0 1-.447 1-1s-.447-1-1-1-1 .447-1 1 .447 1 1 1z"/></svg>
+                        )}
+                    </button>
+                )}
+                <button
+                    onClick={() => toggleVideoSource('camera')}
+                    disabled={!isConnected || !client}
+                    className={`w-14 h-14 rounded-full flex items-center justify-center transition disabled:bg-gray-800 disabled:text-gray-600 ${videoSource === 'camera' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+                    title={videoSource === 'camera' ? 'Stop camera' : 'Share camera'}
+                    aria-label="Toggle camera"
+                    aria-pressed={videoSource === 'camera'}
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="currentColor" viewBox="0 0 24 24"><path d="M17 10.5V7c0-.55-.45-1-1-1H4c-.55 0-1 .45-1 1v10c0 .55.45 1 1 1h12c.55 0 1-.45 1-1v-3.5l4 4v-11l-4 4z"/></svg>
+                </button>
                 <button
-                    onClick={() => setIsMuted(prev => !prev)}
-                    disabled={!isConnected}
-                    className="w-14 h-14 rounded-full flex items-center justify-center bg-gray-700 disabled:bg-gray-800 disabled:text-gray-600 hover:bg-gray-600 transition"
-                    title={isMuted ? 'Unmute microphone' : 'Mute microphone'}
-                    aria-label={isMuted ? 'Unmute' : 'Mute'}
+                    onClick={() => toggleVideoSource('screen')}
+                    disabled={!isConnected || !client}
+                    className={`w-14 h-14 rounded-full flex items-center justify-center transition disabled:bg-gray-800 disabled:text-gray-600 ${videoSource === 'screen' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+                    title={videoSource === 'screen' ? 'Stop sharing screen' : 'Share screen'}
+                    aria-label="Toggle screen sharing"
+                    aria-pressed={videoSource === 'screen'}
                 >
-                    {isMuted ? (
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19.114 5.636l.879.879M9.172 9.172L5.636 5.636m9.172 9.172l3.536 3.536M9.172 9.172l9.172 9.172" /></svg>
-                    ) : (
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="currentColor" viewBox="0 0 24 24"><path d="M12 14c1.66 0 3-1.34 3-3V5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3z"/><path d="M17 16.91c-1.25 1.1-2.848 1.64-4.5 1.64-1.652 0-3.25-.54-4.5-1.63V20h9v-3.09zM12 20c.553 0 1-.447 1-1s-.447-1-1-1-1 .447-1 1 .447 1 1 1z"/></svg>
-                    )}
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="currentColor" viewBox="0 0 24 24"><path d="M20 18c1.1 0 1.99-.9 1.99-2L22 6c0-1.11-.9-2-2-2H4c-1.11 0-2 .89-2 2v10c0 1.1.89 2 2 2H0v2h24v-2h-4zM4 6h16v10H4V6z"/></svg>
                 </button>
                 <button
-                    onClick={() => setShowTextInput(!showTextInput)}
-                    disabled={!isConnected}
-                    className="w-14 h-14 rounded-full flex items-center justify-center bg-gray-700 disabled:bg-gray-800 disabled:text-gray-600 hover:bg-gray-600 transition"
-                    title="Toggle text input"
-                    aria-label="Text input"
+                    onClick={() => setLayout(layout === 'split' ? 'face' : 'split')}
+                    className={`w-14 h-14 rounded-full flex items-center justify-center transition ${layout === 'split' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+                    title={layout === 'split' ? 'Hide chat' : 'Show chat'}
+                    aria-label="Toggle chat panel"
+                    aria-pressed={layout === 'split'}
                 >
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="currentColor" viewBox="0 0 24 24"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25z"/><path d="M20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/></svg>
                 </button>
             </div>
+
+            <div className="flex items-center gap-4">
+                <button
+                    onClick={() => setMicMode(isPushToTalk ? 'open' : 'pushToTalk')}
+                    disabled={isConnected || isConnecting}
+                    className="text-xs text-gray-400 hover:text-white disabled:hover:text-gray-400 disabled:opacity-60 disabled:cursor-not-allowed transition"
+                    title={isConnected || isConnecting ? 'Disconnect to change the microphone mode' : 'Switch microphone mode'}
+                >
+                    Mic mode: {isPushToTalk ? 'Push to talk' : 'Open mic'}
+                </button>
+                <label className="text-xs text-gray-400 flex items-center gap-1">
+                    Replies:
+                    <select
+                        value={responseMode}
+                        onChange={e => setResponseMode(e.target.value as ResponseMode)}
+                        disabled={isConnected || isConnecting}
+                        className="bg-transparent text-gray-300 hover:text-white focus:outline-none disabled:opacity-60 disabled:cursor-not-allowed"
+                        title={isConnected || isConnecting ? 'Disconnect to change how the agent replies' : 'Choose how the agent replies'}
+                    >
+                        {(Object.keys(RESPONSE_MODE_LABELS) as ResponseMode[]).map(mode => (
+                            <option key={mode} value={mode} className="bg-gray-800">{RESPONSE_MODE_LABELS[mode]}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
         </div>
     );
 };
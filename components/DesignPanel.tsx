@@ -1,3 +1,267 @@
+import React, { useEffect, useState } from 'react';
+import { Avatar, AvatarAccessory, AvatarBackground, AvatarEmotion, AvatarKind, EyeStyle, SpriteImages } from '../types';
+import { SILENT_FEATURES, SpectralFeatures } from '../lib/AudioStreamer';
+import { SAMPLE_SPEECH_FEATURES, SAMPLE_SPEECH_INTERVAL_MS } from '../lib/AvatarAnimator';
+import { ACCESSORY_LABELS, AVATAR_KIND_LABELS, BACKGROUND_LABELS, EYE_STYLE_LABELS, MAX_SPRITE_IMAGE_BYTES, SPRITE_IMAGE_MAX_SIZE } from '../lib/avatar';
+import { CHARACTER_PACKS } from './characterPacks';
+import AgentAvatar from './AgentAvatar';
+
 /**
- * This component is currently empty and reserved for future implementation of a design panel.
+ * Props for the DesignPanel component.
  */
+interface DesignPanelProps {
+    /**
+     * The avatar being edited.
+     */
+    avatar: Avatar;
+    /**
+     * The agent's color, for the preview.
+     */
+    color: string;
+    /**
+     * Called with the updated avatar on every change.
+     */
+    onChange: (avatar: Avatar) => void;
+}
+
+/**
+ * The emotions offered in the preview.
+ */
+const PREVIEW_EMOTIONS: AvatarEmotion[] = ['neutral', 'happy', 'thinking', 'listening', 'surprised'];
+
+/**
+ * Labels for the sprite images.
+ */
+const SPRITE_IMAGE_LABELS: { key: keyof SpriteImages; label: string }[] = [
+    { key: 'idle', label: 'Idle (required)' },
+    { key: 'talking', label: 'Talking' },
+    { key: 'blinking', label: 'Blinking' },
+];
+
+/**
+ * Shared styling for the panel's selects and text fields.
+ */
+const INPUT_CLASS = 'w-full bg-gray-700 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Scales an image file down to fit `SPRITE_IMAGE_MAX_SIZE` and re-encodes it
+ * as a data URL, so it is small enough to store with the agent.
+ *
+ * @param {File} file - The image file.
+ * @returns {Promise<string>} The data URL.
+ */
+const shrinkImage = async (file: File): Promise<string> => {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, SPRITE_IMAGE_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+        bitmap.close();
+        throw new Error('Could not process the image');
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    // WebP keeps transparency; browsers that can't encode it fall back to PNG
+    return canvas.toDataURL('image/webp', 0.8);
+};
+
+/**
+ * The avatar editor: picks how an agent looks and previews it live.
+ *
+ * The preview can fake speech and show each emotion, so lip-sync and
+ * expressions can be checked without connecting. Only the parameters that
+ * apply to the chosen kind of avatar are shown.
+ *
+ * @component
+ * @param {DesignPanelProps} props - The component props.
+ * @returns {JSX.Element} The avatar editor.
+ */
+const DesignPanel: React.FC<DesignPanelProps> = ({ avatar, color, onChange }) => {
+    const [isTalking, setIsTalking] = useState(false);
+    const [previewSound, setPreviewSound] = useState<SpectralFeatures>(SILENT_FEATURES);
+    const [previewEmotion, setPreviewEmotion] = useState<AvatarEmotion>('neutral');
+    const [imageError, setImageError] = useState<string | null>(null);
+    const hasFeatures = avatar.kind !== 'sprite';
+
+    // Fake speech for the preview
+    useEffect(() => {
+        if (!isTalking) {
+            setPreviewSound(SILENT_FEATURES);
+            return;
+        }
+        const interval = setInterval(() => {
+            setPreviewSound(SAMPLE_SPEECH_FEATURES[Math.floor(Math.random() * SAMPLE_SPEECH_FEATURES.length)]);
+        }, SAMPLE_SPEECH_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [isTalking]);
+
+    /**
+     * Updates some avatar fields.
+     *
+     * @param {Partial<Avatar>} fields - The fields to change.
+     */
+    const set = (fields: Partial<Avatar>) => onChange({ ...avatar, ...fields });
+
+    /**
+     * Sets one of the sprite images.
+     *
+     * @param {keyof SpriteImages} key - Which image.
+     * @param {string} image - The URL or data URL, or an empty string to remove it.
+     */
+    const setSpriteImage = (key: keyof SpriteImages, image: string) => {
+        set({ sprite: { ...avatar.sprite, [key]: image } });
+    };
+
+    /**
+     * Stores an uploaded sprite image as a data URL, scaled down first.
+     *
+     * @param {keyof SpriteImages} key - Which image.
+     * @param {React.ChangeEvent<HTMLInputElement>} event - The file input's change event.
+     */
+    const handleUpload = async (key: keyof SpriteImages, event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        if (!file.type.startsWith('image/')) {
+            setImageError(`${file.name} is not an image.`);
+            return;
+        }
+        try {
+            const image = await shrinkImage(file);
+            if (image.length > MAX_SPRITE_IMAGE_BYTES) {
+                setImageError(`${file.name} is still larger than ${MAX_SPRITE_IMAGE_BYTES / 1024} KB when scaled down. Use a simpler image or link to it by URL.`);
+                return;
+            }
+            setSpriteImage(key, image);
+            setImageError(null);
+        } catch (error) {
+            setImageError(error instanceof Error ? error.message : String(error));
+        }
+    };
+
+    return (
+        <div className="flex gap-4">
+            <div className="w-36 flex-shrink-0 space-y-2">
+                <div className="w-36 h-36">
+                    <AgentAvatar
+                        avatar={avatar}
+                        color={color}
+                        volume={previewSound.rms}
+                        spectrum={previewSound}
+                        emotion={previewEmotion}
+                    />
+                </div>
+                <button
+                    onClick={() => setIsTalking(talking => !talking)}
+                    className="w-full text-sm px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 transition"
+                    aria-pressed={isTalking}
+                >
+                    {isTalking ? '■ Stop talking' : '▶ Talk'}
+                </button>
+                <select
+                    value={previewEmotion}
+                    onChange={e => setPreviewEmotion(e.target.value as AvatarEmotion)}
+                    className={INPUT_CLASS}
+                    aria-label="Preview emotion"
+                >
+                    {PREVIEW_EMOTIONS.map(emotion => (
+                        <option key={emotion} value={emotion}>{emotion[0].toUpperCase() + emotion.slice(1)}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="flex-1 space-y-2 min-w-0">
+                <label className="block text-xs text-gray-400">
+                    Type
+                    <select value={avatar.kind} onChange={e => set({ kind: e.target.value as AvatarKind })} className={`mt-1 ${INPUT_CLASS}`}>
+                        {(Object.keys(AVATAR_KIND_LABELS) as AvatarKind[]).map(kind => (
+                            <option key={kind} value={kind}>{AVATAR_KIND_LABELS[kind]}</option>
+                        ))}
+                    </select>
+                </label>
+                {avatar.kind === 'character' && (
+                    <label className="block text-xs text-gray-400">
+                        Character
+                        <select value={avatar.pack} onChange={e => set({ pack: e.target.value })} className={`mt-1 ${INPUT_CLASS}`}>
+                            {CHARACTER_PACKS.map(pack => (
+                                <option key={pack.id} value={pack.id}>{pack.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                {hasFeatures && (
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="block text-xs text-gray-400">
+                            Eyes
+                            <select value={avatar.eyeStyle} onChange={e => set({ eyeStyle: e.target.value as EyeStyle })} className={`mt-1 ${INPUT_CLASS}`}>
+                                {(Object.keys(EYE_STYLE_LABELS) as EyeStyle[]).map(style => (
+                                    <option key={style} value={style}>{EYE_STYLE_LABELS[style]}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="block text-xs text-gray-400">
+                            Accessory
+                            <select value={avatar.accessory} onChange={e => set({ accessory: e.target.value as AvatarAccessory })} className={`mt-1 ${INPUT_CLASS}`}>
+                                {(Object.keys(ACCESSORY_LABELS) as AvatarAccessory[]).map(accessory => (
+                                    <option key={accessory} value={accessory}>{ACCESSORY_LABELS[accessory]}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                )}
+                <label className="block text-xs text-gray-400">
+                    Background
+                    <select value={avatar.background} onChange={e => set({ background: e.target.value as AvatarBackground })} className={`mt-1 ${INPUT_CLASS}`}>
+                        {(Object.keys(BACKGROUND_LABELS) as AvatarBackground[]).map(background => (
+                            <option key={background} value={background}>{BACKGROUND_LABELS[background]}</option>
+                        ))}
+                    </select>
+                </label>
+                {avatar.kind === 'sprite' && (
+                    <div className="space-y-2">
+                        {SPRITE_IMAGE_LABELS.map(({ key, label }) => {
+                            const image = avatar.sprite[key];
+                            return (
+                                <div key={key} className="text-xs text-gray-400">
+                                    <span className="block mb-1">{label}</span>
+                                    <div className="flex gap-2 items-center">
+                                        {image.startsWith('data:') ? (
+                                            <span className="flex-1 text-gray-300">Uploaded image</span>
+                                        ) : (
+                                            <input
+                                                type="url"
+                                                value={image}
+                                                onChange={e => setSpriteImage(key, e.target.value)}
+                                                placeholder="https://…"
+                                                className={`flex-1 min-w-0 ${INPUT_CLASS}`}
+                                                aria-label={`${label} image URL`}
+                                            />
+                                        )}
+                                        <label className="cursor-pointer text-gray-300 hover:text-white transition">
+                                            Upload…
+                                            <input type="file" accept="image/*" className="hidden" onChange={e => handleUpload(key, e)} />
+                                        </label>
+                                        {image && (
+                                            <button
+                                                onClick={() => setSpriteImage(key, '')}
+                                                className="text-gray-400 hover:text-red-300 transition"
+                                                aria-label={`Remove ${label} image`}
+                                            >
+                                                ✕
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                        {imageError && <p className="text-xs text-red-300">{imageError}</p>}
+                        <p className="text-xs text-gray-500">Uploaded images are left out of share links.</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DesignPanel;
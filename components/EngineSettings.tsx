@@ -0,0 +1,68 @@
+import React from 'react';
+import { EnginePreference, useUIStore } from '../stores/useUI';
+import { getReplyBackend, REPLY_BACKENDS } from '../lib/replyBackends';
+import { useLiveAPI } from '../context/LiveAPIProvider';
+
+/**
+ * Labels for the engine preferences, in the order they are offered.
+ */
+const ENGINE_LABELS: Record<EnginePreference, string> = {
+  auto: 'Live API, browser speech if unavailable',
+  live: 'Live API only',
+  browser: 'Browser speech only',
+};
+
+/**
+ * Settings for the conversation engine: whether sessions use the Live API or
+ * the browser speech fallback, and which backend writes the fallback's replies.
+ *
+ * @component
+ * @returns {JSX.Element} The engine settings.
+ */
+const EngineSettings: React.FC = () => {
+  const { enginePreference, setEnginePreference, replyBackendId, setReplyBackendId } = useUIStore();
+  const { isConnected, isConnecting } = useLiveAPI();
+  const isBusy = isConnected || isConnecting;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold text-gray-200">Conversation Engine</h3>
+      <div>
+        <label htmlFor="engine-preference" className="block text-sm font-medium text-gray-300 mb-1">Engine</label>
+        <select
+          id="engine-preference"
+          value={enginePreference}
+          onChange={(e) => setEnginePreference(e.target.value as EnginePreference)}
+          disabled={isBusy}
+          className="w-full bg-gray-700 border border-gray-600 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+        >
+          {(Object.keys(ENGINE_LABELS) as EnginePreference[]).map((preference) => (
+            <option key={preference} value={preference}>{ENGINE_LABELS[preference]}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          {isBusy
+            ? 'Disconnect to change the engine.'
+            : "Browser speech works without an API key, but replies are simple and conversations aren't saved."}
+        </p>
+      </div>
+      <div>
+        <label htmlFor="reply-backend" className="block text-sm font-medium text-gray-300 mb-1">Browser speech replies</label>
+        <select
+          id="reply-backend"
+          value={getReplyBackend(replyBackendId).id}
+          onChange={(e) => setReplyBackendId(e.target.value)}
+          disabled={enginePreference === 'live'}
+          className="w-full bg-gray-700 border border-gray-600 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+        >
+          {REPLY_BACKENDS.map((backend) => (
+            <option key={backend.id} value={backend.id}>{backend.label}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">{getReplyBackend(replyBackendId).description}</p>
+      </div>
+    </div>
+  );
+};
+
+export default EngineSettings;
@@ -5,15 +5,24 @@ import { useUIStore } from '../stores/useUI';
 /**
  * The application header component.
  *
- * It displays the current agent's name and color, allows switching between agents,
- * and provides buttons to open the agent settings and user configuration modals.
+ * It displays the current agent's name and color, allows switching between preset and
+ * personal agents, and provides buttons to create an agent, to open the agent settings,
+ * user configuration and application settings modals, and to toggle the conversation history.
  *
  * @component
  * @returns {JSX.Element} The header component.
  */
 const Header: React.FC = () => {
-  const { current, availablePresets, setCurrent } = useAgentStore();
-  const { setShowUserConfig, setShowAgentEdit } = useUIStore();
+  const { current, availablePresets, availablePersonal, setCurrent, createAgent } = useAgentStore();
+  const { setShowUserConfig, setShowAgentEdit, setShowSettings, showHistory, setShowHistory } = useUIStore();
+
+  /**
+   * Creates a new personal agent and opens the editor for it.
+   */
+  const handleNewAgent = () => {
+    createAgent();
+    setShowAgentEdit(true);
+  };
 
   return (
     <header className="absolute top-0 left-0 right-0 p-4 flex justify-between items-center bg-gray-900/50 backdrop-blur-sm z-10">
@@ -23,17 +32,32 @@ const Header: React.FC = () => {
             value={current.id}
             onChange={e => setCurrent(e.target.value)}
             className="bg-transparent font-bold text-xl appearance-none focus:outline-none cursor-pointer"
+            aria-label="Select agent"
         >
-          {availablePresets.map(agent => (
-            <option key={agent.id} value={agent.id} className="bg-gray-800">
-                {agent.name}
-            </option>
-          ))}
+          <optgroup label="Presets" className="bg-gray-800">
+            {availablePresets.map(agent => (
+              <option key={agent.id} value={agent.id} className="bg-gray-800">
+                  {agent.name}
+              </option>
+            ))}
+          </optgroup>
+          {availablePersonal.length > 0 && (
+            <optgroup label="My Agents" className="bg-gray-800">
+              {availablePersonal.map(agent => (
+                <option key={agent.id} value={agent.id} className="bg-gray-800">
+                    {agent.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
         </select>
+        <button onClick={handleNewAgent} className="text-sm text-gray-300 hover:text-white transition" title="Create a new agent">+ New</button>
       </div>
       <div className="flex items-center gap-4">
+        <button onClick={() => setShowHistory(!showHistory)} className="text-sm text-gray-300 hover:text-white transition" aria-pressed={showHistory}>History</button>
         <button onClick={() => setShowAgentEdit(true)} className="text-sm text-gray-300 hover:text-white transition">Agent Settings</button>
         <button onClick={() => setShowUserConfig(true)} className="text-sm text-gray-300 hover:text-white transition">Your Info</button>
+        <button onClick={() => setShowSettings(true)} className="text-sm text-gray-300 hover:text-white transition">Settings</button>
       </div>
     </header>
   );
@@ -1,3 +1,75 @@
+import React, { useState } from 'react';
+import { useLiveAPI } from '../context/LiveAPIProvider';
+
+const MAX_TEXT_LENGTH = 1000;
+
 /**
- * This component is currently empty and reserved for future implementation of an input bar.
+ * A multi-line text input for sending typed messages to the agent.
+ *
+ * Enter sends the message; Shift+Enter inserts a new line.
+ * The input is disabled while not connected.
+ *
+ * @component
+ * @returns {JSX.Element} The input bar component.
  */
+const InputBar: React.FC = () => {
+    const { isConnected, sendText } = useLiveAPI();
+    const [textInput, setTextInput] = useState('');
+
+    const trimmed = textInput.trim();
+    const tooLong = trimmed.length > MAX_TEXT_LENGTH;
+
+    /**
+     * Sends the text input to the Live API.
+     */
+    const handleSendText = () => {
+        if (!trimmed || tooLong || !isConnected) {
+            return;
+        }
+        sendText(trimmed);
+        setTextInput('');
+    };
+
+    /**
+     * Handles key presses in the textarea, sending the message on Enter.
+     *
+     * @param {React.KeyboardEvent<HTMLTextAreaElement>} e - The keyboard event.
+     */
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            handleSendText();
+        }
+    };
+
+    return (
+        <div className="border-t border-gray-700 p-3">
+            <div className="flex gap-2 items-end">
+                <textarea
+                    value={textInput}
+                    onChange={(e) => setTextInput(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    rows={2}
+                    disabled={!isConnected}
+                    placeholder={isConnected ? 'Type a message... (Shift+Enter for a new line)' : 'Connect to start chatting'}
+                    className="flex-1 px-3 py-2 rounded bg-gray-700 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none disabled:opacity-50"
+                    aria-label="Message"
+                />
+                <button
+                    onClick={handleSendText}
+                    disabled={!isConnected || !trimmed || tooLong}
+                    className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                >
+                    Send
+                </button>
+            </div>
+            {tooLong && (
+                <p className="mt-1 text-xs text-red-300">
+                    Message too long. Maximum {MAX_TEXT_LENGTH} characters.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default InputBar;
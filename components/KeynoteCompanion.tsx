@@ -1,25 +1,37 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { useLiveAPI } from '../context/LiveAPIProvider';
 import { useUserStore } from '../stores/useUser';
-import BasicFace from './BasicFace';
+import { useAgentStore } from '../stores/useAgent';
+import { deriveEmotion } from '../lib/emotion';
+import { DEFAULT_AVATAR } from '../lib/avatar';
+import AgentAvatar from './AgentAvatar';
 
 /**
- * The main companion component that displays the agent's face.
+ * The main companion component that displays the agent's avatar.
  *
  * It manages the initial greeting when the connection is established and renders
- * the `BasicFace` component with the current output volume.
+ * the agent's avatar, lip-synced to the output audio and showing an emotion
+ * derived from the connection state and the transcript. Follow-ups after the
+ * user goes quiet are sent by `useLiveApi`, per the agent's nudge settings. The
+ * browser speech engine has no client and greets the user itself.
  *
  * @component
  * @returns {JSX.Element} The keynote companion component.
  */
 const KeynoteCompanion: React.FC = () => {
-    const { isConnected, client, outputVolume } = useLiveAPI();
+    const { isConnected, isConnecting, client, outputVolume, outputSpectrum, sessionResumed, transcript } = useLiveAPI();
     const { name } = useUserStore();
+    const { current: currentAgent } = useAgentStore();
     const greetingSent = useRef(false);
+    const emotion = useMemo(
+        () => deriveEmotion({ isConnected, isConnecting, transcript }),
+        [isConnected, isConnecting, transcript],
+    );
 
     useEffect(() => {
-        // Only send the initial greeting once when a new connection is established.
-        if (isConnected && client && !greetingSent.current) {
+        // Only send the initial greeting once when a new conversation starts;
+        // a resumed session continues where it left off.
+        if (isConnected && client && !greetingSent.current && !sessionResumed) {
             client.sendInitialText(`Greet the user named ${name} and ask how you can help them today.`);
             greetingSent.current = true;
         }
@@ -28,12 +40,18 @@ const KeynoteCompanion: React.FC = () => {
         if (!isConnected) {
             greetingSent.current = false;
         }
-    }, [isConnected, client, name]);
+    }, [isConnected, client, name, sessionResumed]);
 
     return (
         <div className="w-full h-full flex items-center justify-center">
             <div className="w-[400px] h-[400px]">
-                <BasicFace volume={outputVolume} />
+                <AgentAvatar
+                    avatar={currentAgent.avatar ?? DEFAULT_AVATAR}
+                    color={currentAgent.bodyColor}
+                    volume={outputVolume}
+                    spectrum={outputSpectrum}
+                    emotion={emotion}
+                />
             </div>
         </div>
     );
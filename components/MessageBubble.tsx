@@ -1,3 +1,62 @@
+import React from 'react';
+import { TranscriptEntry } from '../types';
+
 /**
- * This component is currently empty and reserved for future implementation of message bubbles.
+ * Props for the MessageBubble component.
  */
+interface MessageBubbleProps {
+    /**
+     * The transcript entry to display.
+     */
+    entry: TranscriptEntry;
+    /**
+     * The speaker label shown above the message.
+     */
+    label: string;
+    /**
+     * The agent's color, used to tint the agent's messages.
+     */
+    accentColor: string;
+}
+
+/**
+ * Formats a timestamp as a short local time (e.g. "14:05").
+ *
+ * @param {number} timestamp - Milliseconds since the epoch.
+ * @returns {string} The formatted time.
+ */
+const formatTime = (timestamp: number): string =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * A single chat message with a speaker label and timestamp.
+ *
+ * User messages are right-aligned, agent messages are left-aligned and tinted
+ * with the agent's color. Partial (in-progress) messages are rendered dimmed
+ * with a blinking cursor.
+ *
+ * @component
+ * @param {MessageBubbleProps} props - The component props.
+ * @returns {JSX.Element} The rendered message bubble.
+ */
+const MessageBubble: React.FC<MessageBubbleProps> = ({ entry, label, accentColor }) => {
+    const isUser = entry.speaker === 'user';
+
+    return (
+        <div className={`flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+            <div className="flex items-baseline gap-2 mb-1 text-xs text-gray-400">
+                <span className="font-semibold text-gray-300">{label}</span>
+                <time dateTime={new Date(entry.timestamp).toISOString()}>{formatTime(entry.timestamp)}</time>
+            </div>
+            <div
+                className={`max-w-[85%] px-3 py-2 rounded-lg whitespace-pre-wrap break-words text-sm ${isUser ? 'bg-gray-700 rounded-br-none' : 'rounded-bl-none'} ${entry.isFinal ? '' : 'opacity-70'}`}
+                style={isUser ? undefined : { backgroundColor: `${accentColor}33`, borderLeft: `3px solid ${accentColor}` }}
+            >
+                {entry.text}
+                {!entry.isFinal && <span className="inline-block w-2 ml-0.5 animate-pulse">▍</span>}
+            </div>
+        </div>
+    );
+};
+
+export default MessageBubble;
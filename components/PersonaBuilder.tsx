@@ -0,0 +1,172 @@
+import React from 'react';
+import { Persona, PersonaExample, ResponseLength } from '../types';
+import { RESPONSE_LENGTHS } from '../lib/persona';
+
+/**
+ * Props for the PersonaBuilder component.
+ */
+interface PersonaBuilderProps {
+    /**
+     * The persona being edited.
+     */
+    persona: Persona;
+    /**
+     * Called with the updated persona on every change.
+     */
+    onChange: (persona: Persona) => void;
+}
+
+/**
+ * The list fields, edited as one item per line.
+ */
+const LIST_FIELDS: { key: 'expertise' | 'dos' | 'donts' | 'catchphrases'; label: string; placeholder: string }[] = [
+    { key: 'expertise', label: 'Expertise', placeholder: 'One topic per line' },
+    { key: 'dos', label: 'Always', placeholder: 'One rule per line, e.g. "Ask a follow-up question"' },
+    { key: 'donts', label: 'Never', placeholder: 'One rule per line, e.g. "Give medical advice"' },
+    { key: 'catchphrases', label: 'Catchphrases', placeholder: 'One phrase per line' },
+];
+
+/**
+ * Shared styling for the form's text fields.
+ */
+const INPUT_CLASS = 'w-full bg-gray-700 border border-gray-600 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * A form for the structured parts of an agent's persona: role, tone, expertise,
+ * rules, catchphrases, reply length, example exchanges and free-form notes.
+ *
+ * Lists are edited as one item per line; blank lines are kept while typing and
+ * dropped when the agent is saved.
+ *
+ * @component
+ * @param {PersonaBuilderProps} props - The component props.
+ * @returns {JSX.Element} The persona form.
+ */
+const PersonaBuilder: React.FC<PersonaBuilderProps> = ({ persona, onChange }) => {
+    /**
+     * Updates some persona fields.
+     *
+     * @param {Partial<Persona>} fields - The fields to change.
+     */
+    const set = (fields: Partial<Persona>) => onChange({ ...persona, ...fields });
+
+    /**
+     * Updates one example exchange.
+     *
+     * @param {number} index - The example's position.
+     * @param {Partial<PersonaExample>} fields - The fields to change.
+     */
+    const setExample = (index: number, fields: Partial<PersonaExample>) => {
+        set({ examples: persona.examples.map((example, i) => (i === index ? { ...example, ...fields } : example)) });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label htmlFor="persona-role" className="block text-sm font-medium text-gray-300 mb-1">Role</label>
+                <input
+                    id="persona-role"
+                    type="text"
+                    value={persona.role}
+                    onChange={e => set({ role: e.target.value })}
+                    className={INPUT_CLASS}
+                    placeholder="e.g. a patient math tutor"
+                />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label htmlFor="persona-tone" className="block text-sm font-medium text-gray-300 mb-1">Tone</label>
+                    <input
+                        id="persona-tone"
+                        type="text"
+                        value={persona.tone}
+                        onChange={e => set({ tone: e.target.value })}
+                        className={INPUT_CLASS}
+                        placeholder="e.g. warm and playful"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="persona-length" className="block text-sm font-medium text-gray-300 mb-1">Reply length</label>
+                    <select
+                        id="persona-length"
+                        value={persona.responseLength}
+                        onChange={e => set({ responseLength: e.target.value as ResponseLength })}
+                        className={INPUT_CLASS}
+                    >
+                        {(Object.keys(RESPONSE_LENGTHS) as ResponseLength[]).map(length => (
+                            <option key={length} value={length}>{RESPONSE_LENGTHS[length].label}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                {LIST_FIELDS.map(field => (
+                    <div key={field.key}>
+                        <label htmlFor={`persona-${field.key}`} className="block text-sm font-medium text-gray-300 mb-1">{field.label}</label>
+                        <textarea
+                            id={`persona-${field.key}`}
+                            rows={3}
+                            value={persona[field.key].join('\n')}
+                            onChange={e => set({ [field.key]: e.target.value.split('\n') })}
+                            className={`${INPUT_CLASS} resize-none text-sm`}
+                            placeholder={field.placeholder}
+                        />
+                    </div>
+                ))}
+            </div>
+            <div>
+                <span className="block text-sm font-medium text-gray-300 mb-1">Example exchanges</span>
+                <div className="space-y-2">
+                    {persona.examples.map((example, index) => (
+                        <div key={index} className="flex gap-2 items-start">
+                            <div className="flex-1 space-y-1">
+                                <input
+                                    type="text"
+                                    value={example.user}
+                                    onChange={e => setExample(index, { user: e.target.value })}
+                                    className={`${INPUT_CLASS} text-sm`}
+                                    placeholder="User says…"
+                                    aria-label={`Example ${index + 1} user message`}
+                                />
+                                <input
+                                    type="text"
+                                    value={example.agent}
+                                    onChange={e => setExample(index, { agent: e.target.value })}
+                                    className={`${INPUT_CLASS} text-sm`}
+                                    placeholder="Agent replies…"
+                                    aria-label={`Example ${index + 1} agent reply`}
+                                />
+                            </div>
+                            <button
+                                onClick={() => set({ examples: persona.examples.filter((_, i) => i !== index) })}
+                                className="text-gray-400 hover:text-red-300 transition px-1"
+                                aria-label={`Remove example ${index + 1}`}
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => set({ examples: [...persona.examples, { user: '', agent: '' }] })}
+                        className="text-sm text-gray-300 hover:text-white transition"
+                    >
+                        + Add example
+                    </button>
+                </div>
+            </div>
+            <div>
+                <label htmlFor="persona-notes" className="block text-sm font-medium text-gray-300 mb-1">Additional instructions</label>
+                <textarea
+                    id="persona-notes"
+                    rows={4}
+                    value={persona.notes}
+                    onChange={e => set({ notes: e.target.value })}
+                    className={`${INPUT_CLASS} resize-none`}
+                    placeholder="Anything else, in your own words…"
+                />
+            </div>
+        </div>
+    );
+};
+
+export default PersonaBuilder;
@@ -1,3 +1,139 @@
+import React from 'react';
+import { useUIStore } from '../stores/useUI';
+import { useDevicesStore } from '../stores/useDevices';
+import { useMediaDevices } from '../hooks/useMediaDevices';
+import Modal from './Modal';
+import UsageSettings from './UsageSettings';
+import EngineSettings from './EngineSettings';
+import ApiKeySettings from './ApiKeySettings';
+
 /**
- * This component is currently empty and reserved for future implementation of a settings modal.
+ * Props for the DeviceSelect component.
  */
+interface DeviceSelectProps {
+  /**
+   * The field label.
+   */
+  label: string;
+  /**
+   * The devices to choose from.
+   */
+  devices: MediaDeviceInfo[];
+  /**
+   * The selected device ID, or null for the system default.
+   */
+  value: string | null;
+  /**
+   * Called with the new device ID, or null for the system default.
+   */
+  onChange: (deviceId: string | null) => void;
+  /**
+   * The name used for devices without a label (e.g. "Microphone").
+   */
+  fallbackName: string;
+}
+
+/**
+ * A select for one kind of audio device.
+ *
+ * A remembered device that is not currently connected stays selected, so the
+ * choice comes back when the device is plugged in again.
+ *
+ * @component
+ * @param {DeviceSelectProps} props - The component props.
+ * @returns {JSX.Element} The device select.
+ */
+const DeviceSelect: React.FC<DeviceSelectProps> = ({ label, devices, value, onChange, fallbackName }) => {
+  const id = `device-${fallbackName.toLowerCase()}`;
+  const isMissing = value !== null && !devices.some((device) => device.deviceId === value);
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-300 mb-1">{label}</label>
+      <select
+        id={id}
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="w-full bg-gray-700 border border-gray-600 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">System default</option>
+        {devices.map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || `${fallbackName} ${index + 1}`}
+          </option>
+        ))}
+        {isMissing && <option value={value!}>Disconnected device (using default)</option>}
+      </select>
+    </div>
+  );
+};
+
+/**
+ * The application settings modal.
+ *
+ * Lets the user enter their Gemini API key or token broker, choose the microphone,
+ * speakers and conversation engine, and set up the usage meter. The device lists update as devices are plugged in
+ * or removed, and the choice is remembered.
+ *
+ * @component
+ * @returns {JSX.Element} The settings modal.
+ */
+const SettingsModal: React.FC = () => {
+  const { setShowSettings } = useUIStore();
+  const { inputDeviceId, outputDeviceId, setInputDeviceId, setOutputDeviceId } = useDevicesStore();
+  const { inputs, outputs, canSelectOutput, refresh } = useMediaDevices();
+  const needsPermission = inputs.length > 0 && inputs.every((device) => !device.label);
+
+  /**
+   * Asks for microphone access so the browser reveals device names.
+   */
+  const handleAllowAccess = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      stream.getTracks().forEach((track) => track.stop());
+      await refresh();
+    } catch (error) {
+      console.error('Microphone access denied:', error);
+    }
+  };
+
+  return (
+    <Modal title="Settings" onClose={() => setShowSettings(false)}>
+      <ApiKeySettings />
+      <div className="border-t border-gray-700 mt-6 pt-6 space-y-4">
+        <h3 className="text-sm font-semibold text-gray-200">Audio Devices</h3>
+        <DeviceSelect
+          label="Microphone"
+          devices={inputs}
+          value={inputDeviceId}
+          onChange={setInputDeviceId}
+          fallbackName="Microphone"
+        />
+        {canSelectOutput ? (
+          <DeviceSelect
+            label="Speakers"
+            devices={outputs}
+            value={outputDeviceId}
+            onChange={setOutputDeviceId}
+            fallbackName="Speakers"
+          />
+        ) : (
+          <p className="text-sm text-gray-500">This browser always plays audio through the system default output.</p>
+        )}
+        {needsPermission && (
+          <button onClick={handleAllowAccess} className="text-sm text-blue-300 hover:text-blue-200 transition">
+            Allow microphone access to show device names
+          </button>
+        )}
+      </div>
+      <div className="border-t border-gray-700 mt-6 pt-6">
+        <EngineSettings />
+      </div>
+      <div className="border-t border-gray-700 mt-6 pt-6">
+        <UsageSettings />
+      </div>
+    </Modal>
+  );
+};
+
+export default SettingsModal;
@@ -1,3 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import { Conversation } from '../types';
+import { matchesConversation, useConversationStore } from '../stores/useConversations';
+import { useUIStore } from '../stores/useUI';
+import { useUsageStore } from '../stores/useUsage';
+import { estimateCost, formatCost } from '../lib/usage';
+
 /**
- * This component is currently empty and reserved for future implementation of a sidebar.
+ * Formats the start date and duration of a conversation (e.g. "Mar 4, 14:05 · 12 min").
+ *
+ * @param {Conversation} conversation - The conversation.
+ * @returns {string} The formatted summary.
  */
+const formatWhen = (conversation: Conversation): string => {
+    const started = new Date(conversation.startedAt).toLocaleString([], {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+    // Sessions closed without disconnecting have no end time; use the last turn instead
+    const endedAt = conversation.endedAt ?? conversation.transcript[conversation.transcript.length - 1]?.timestamp;
+    if (!endedAt) {
+        return started;
+    }
+    const minutes = Math.max(1, Math.round((endedAt - conversation.startedAt) / 60000));
+    return `${started} · ${minutes} min`;
+};
+
+/**
+ * The conversation history browser.
+ *
+ * Lists past conversations, newest first, and lets the user search them by title,
+ * agent name or transcript text, reopen one in the chat panel, rename and delete them.
+ * Conversations with recorded token usage show their estimated cost.
+ *
+ * @component
+ * @returns {JSX.Element} The history sidebar.
+ */
+const Sidebar: React.FC = () => {
+    const { conversations, renameConversation, deleteConversation } = useConversationStore();
+    const { viewedConversationId, setViewedConversationId, setShowHistory, setLayout } = useUIStore();
+    const prices = useUsageStore(state => state.prices);
+    const [query, setQuery] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftTitle, setDraftTitle] = useState('');
+
+    const results = useMemo(
+        () => conversations.filter(conversation => matchesConversation(conversation, query)),
+        [conversations, query]
+    );
+
+    /**
+     * Shows a conversation in the chat panel and closes the sidebar.
+     *
+     * @param {string} id - The conversation ID.
+     */
+    const handleOpen = (id: string) => {
+        setViewedConversationId(id);
+        setLayout('split');
+        setShowHistory(false);
+    };
+
+    /**
+     * Starts renaming a conversation inline.
+     *
+     * @param {Conversation} conversation - The conversation to rename.
+     */
+    const startRename = (conversation: Conversation) => {
+        setEditingId(conversation.id);
+        setDraftTitle(conversation.title);
+    };
+
+    /**
+     * Saves the inline rename, if any.
+     */
+    const commitRename = () => {
+        if (editingId) {
+            renameConversation(editingId, draftTitle);
+        }
+        setEditingId(null);
+    };
+
+    /**
+     * Deletes a conversation after confirmation.
+     *
+     * @param {Conversation} conversation - The conversation to delete.
+     */
+    const handleDelete = (conversation: Conversation) => {
+        if (window.confirm(`Delete "${conversation.title || 'Untitled conversation'}"? This cannot be undone.`)) {
+            deleteConversation(conversation.id);
+            if (viewedConversationId === conversation.id) {
+                setViewedConversationId(null);
+            }
+        }
+    };
+
+    return (
+        <aside className="fixed inset-y-0 left-0 z-30 w-80 max-w-full flex flex-col bg-gray-800 border-r border-gray-700 shadow-xl" aria-label="Conversation history">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+                <h2 className="font-semibold">History</h2>
+                <button onClick={() => setShowHistory(false)} className="text-gray-400 hover:text-white transition" aria-label="Close history">✕</button>
+            </div>
+            <div className="p-3 border-b border-gray-700">
+                <input
+                    type="search"
+                    value={query}
+                    onChange={e => setQuery(e.target.value)}
+                    placeholder="Search conversations"
+                    className="w-full bg-gray-700 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label="Search conversations"
+                />
+            </div>
+            <ul className="flex-1 overflow-y-auto">
+                {results.length === 0 && (
+                    <li className="px-4 py-6 text-sm text-gray-500 text-center">
+                        {conversations.length === 0 ? 'Past conversations will appear here.' : 'No conversations match your search.'}
+                    </li>
+                )}
+                {results.map(conversation => (
+                    <li
+                        key={conversation.id}
+                        className={`px-4 py-3 border-b border-gray-700/60 ${viewedConversationId === conversation.id ? 'bg-gray-700/60' : ''}`}
+                    >
+                        {editingId === conversation.id ? (
+                            <input
+                                autoFocus
+                                value={draftTitle}
+                                onChange={e => setDraftTitle(e.target.value)}
+                                onBlur={commitRename}
+                                onKeyDown={e => {
+                                    if (e.key === 'Enter') commitRename();
+                                    if (e.key === 'Escape') setEditingId(null);
+                                }}
+                                className="w-full bg-gray-700 rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                aria-label="Conversation title"
+                            />
+                        ) : (
+                            <button onClick={() => handleOpen(conversation.id)} className="block w-full text-left text-sm font-medium truncate hover:text-blue-300 transition">
+                                {conversation.title || 'Untitled conversation'}
+                            </button>
+                        )}
+                        <div className="mt-1 text-xs text-gray-400">
+                            {conversation.agentName} · {formatWhen(conversation)}
+                            {conversation.usage && ` · ≈ ${formatCost(estimateCost(conversation.usage, prices))}`}
+                        </div>
+                        <div className="mt-2 flex gap-3 text-xs">
+                            <button onClick={() => handleOpen(conversation.id)} className="text-gray-300 hover:text-white transition">Open</button>
+                            <button onClick={() => startRename(conversation)} className="text-gray-300 hover:text-white transition">Rename</button>
+                            <button onClick={() => handleDelete(conversation)} className="text-red-400 hover:text-red-300 transition">Delete</button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </aside>
+    );
+};
+
+export default Sidebar;
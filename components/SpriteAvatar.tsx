@@ -0,0 +1,75 @@
+import React from 'react';
+import { AvatarAnimationInputs, useAvatarAnimator, useAvatarFrame } from '../hooks/useAvatarAnimator';
+import { SpriteImages } from '../types';
+
+/**
+ * Mouth openness above which the talking image is shown.
+ */
+const TALKING_THRESHOLD = 0.25;
+
+/**
+ * Eye openness below which the blinking image is shown.
+ */
+const BLINKING_THRESHOLD = 0.3;
+
+/**
+ * Props for the SpriteAvatar component.
+ */
+interface SpriteAvatarProps extends AvatarAnimationInputs {
+    /**
+     * The images to swap between.
+     */
+    sprite: SpriteImages;
+}
+
+/**
+ * A component that animates the user's own images: the talking image is shown
+ * while the mouth would be open and the blinking image during blinks, and the
+ * sprite breathes and bounces with surprise or delight.
+ *
+ * All images are kept loaded, so swapping between them doesn't flicker.
+ *
+ * @component
+ * @param {SpriteAvatarProps} props - The component props.
+ * @returns {JSX.Element} The rendered sprite.
+ */
+const SpriteAvatar: React.FC<SpriteAvatarProps> = ({ sprite, ...inputs }) => {
+    const frame = useAvatarFrame(useAvatarAnimator(inputs));
+
+    if (!sprite.idle) {
+        return (
+            <div className="w-full h-full flex items-center justify-center text-sm text-gray-400 text-center p-4">
+                Add an idle image in the avatar editor.
+            </div>
+        );
+    }
+
+    const current =
+        frame.eyeOpen < BLINKING_THRESHOLD && sprite.blinking
+            ? sprite.blinking
+            : frame.mouth.open > TALKING_THRESHOLD && sprite.talking
+              ? sprite.talking
+              : sprite.idle;
+    const bounce = frame.emotion === 'surprised' || frame.emotion === 'happy' ? 0.03 : 0;
+    const images = [...new Set([sprite.idle, sprite.talking, sprite.blinking].filter(Boolean))];
+
+    return (
+        <div
+            className="relative w-full h-full"
+            style={{ transform: `translateY(${-frame.breath}%) scale(${1 + frame.breath * 0.01 + bounce})`, transition: 'transform 0.2s ease-out' }}
+        >
+            {images.map(image => (
+                <img
+                    key={image}
+                    src={image}
+                    alt=""
+                    draggable={false}
+                    className="absolute inset-0 w-full h-full object-contain"
+                    style={{ visibility: image === current ? 'visible' : 'hidden' }}
+                />
+            ))}
+        </div>
+    );
+};
+
+export default SpriteAvatar;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { useUsageStore } from '../stores/useUsage';
+import { useAgentStore } from '../stores/useAgent';
+import { estimateCost, formatCost, formatTokens, PriceTable } from '../lib/usage';
+
+/**
+ * Labels for the price table fields, in display order.
+ */
+const PRICE_LABELS: { key: keyof PriceTable; label: string }[] = [
+  { key: 'textInput', label: 'Text & video input' },
+  { key: 'audioInput', label: 'Audio input' },
+  { key: 'textOutput', label: 'Text output' },
+  { key: 'audioOutput', label: 'Audio output' },
+];
+
+/**
+ * Settings for the token usage meter: the session budget, the price table,
+ * and the usage recorded for each agent.
+ *
+ * @component
+ * @returns {JSX.Element} The usage settings.
+ */
+const UsageSettings: React.FC = () => {
+  const { agentUsage, prices, sessionBudget, setPrices, resetPrices, setSessionBudget, clearUsage } = useUsageStore();
+  const { availablePresets, availablePersonal } = useAgentStore();
+  const [budgetDraft, setBudgetDraft] = useState(sessionBudget?.toString() ?? '');
+  const agents = [...availablePresets, ...availablePersonal];
+  const usageEntries = Object.entries(agentUsage);
+
+  /**
+   * Saves the budget draft. A blank or zero budget removes the limit.
+   */
+  const commitBudget = () => {
+    const budget = parseFloat(budgetDraft);
+    setSessionBudget(Number.isFinite(budget) ? budget : null);
+    setBudgetDraft(Number.isFinite(budget) && budget > 0 ? budget.toString() : '');
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold text-gray-200">Usage & Cost</h3>
+      <div>
+        <label htmlFor="session-budget" className="block text-sm font-medium text-gray-300 mb-1">
+          Session budget (USD)
+        </label>
+        <input
+          id="session-budget"
+          type="number"
+          min="0"
+          step="0.01"
+          value={budgetDraft}
+          onChange={(e) => setBudgetDraft(e.target.value)}
+          onBlur={commitBudget}
+          placeholder="No limit"
+          className="w-full bg-gray-700 border border-gray-600 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          You are warned as a session nears the budget and disconnected once it is reached.
+        </p>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-sm font-medium text-gray-300">Prices (USD per million tokens)</span>
+          <button onClick={resetPrices} className="text-xs text-gray-400 hover:text-white transition">
+            Reset
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {PRICE_LABELS.map(({ key, label }) => (
+            <label key={key} className="text-xs text-gray-400">
+              {label}
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={prices[key]}
+                onChange={(e) => {
+                  const price = parseFloat(e.target.value);
+                  if (Number.isFinite(price) && price >= 0) {
+                    setPrices({ [key]: price });
+                  }
+                }}
+                className="mt-1 w-full bg-gray-700 border border-gray-600 text-white rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-sm font-medium text-gray-300">Usage by agent</span>
+          {usageEntries.length > 0 && (
+            <button
+              onClick={() => {
+                if (window.confirm('Reset the recorded usage for all agents?')) {
+                  clearUsage();
+                }
+              }}
+              className="text-xs text-red-400 hover:text-red-300 transition"
+            >
+              Reset all
+            </button>
+          )}
+        </div>
+        {usageEntries.length === 0 ? (
+          <p className="text-sm text-gray-500">No usage recorded yet.</p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {usageEntries.map(([agentId, usage]) => (
+              <li key={agentId} className="flex items-center justify-between gap-2">
+                <span className="truncate">{agents.find((agent) => agent.id === agentId)?.name ?? 'Deleted agent'}</span>
+                <span className="text-gray-400 whitespace-nowrap">
+                  {formatTokens(usage)} · {formatCost(estimateCost(usage, prices))}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsageSettings;
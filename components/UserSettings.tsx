@@ -1,13 +1,17 @@
 import React, { useState } from 'react';
 import { useUserStore } from '../stores/useUser';
 import { useUIStore } from '../stores/useUI';
+import { useAgentStore } from '../stores/useAgent';
+import { useMemoryStore } from '../stores/useMemory';
 import Modal from './Modal';
 
 /**
- * A component for editing the user's information (name and bio).
+ * A component for editing the user's information (name and bio) and reviewing
+ * what agents remember about them.
  *
  * This component uses a modal to present a form where the user can update their
- * name and "about" information. Changes are saved to the `useUserStore`.
+ * name and "about" information. Changes are saved to the `useUserStore` on Save.
+ * Edits to agent memories apply immediately.
  *
  * @component
  * @returns {JSX.Element} The user settings modal.
@@ -17,6 +21,11 @@ const UserSettings: React.FC = () => {
   const { setShowUserConfig } = useUIStore();
   const [localName, setLocalName] = useState(name);
   const [localInfo, setLocalInfo] = useState(info);
+  const { memories, updateFact, deleteFact, clearMemory } = useMemoryStore();
+  const { availablePresets, availablePersonal } = useAgentStore();
+  const agentName = (agentId: string) =>
+    [...availablePresets, ...availablePersonal].find((agent) => agent.id === agentId)?.name ?? 'Deleted agent';
+  const rememberingAgents = Object.entries(memories);
 
   /**
    * Handles saving the user information and closing the modal.
@@ -51,6 +60,53 @@ const UserSettings: React.FC = () => {
             placeholder="Tell the AI a bit about yourself..."
           />
         </div>
+        <div>
+          <h3 className="text-sm font-medium text-gray-300 mb-1">What Agents Remember</h3>
+          {rememberingAgents.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              After each conversation, agents note a short summary and facts about you here.
+            </p>
+          ) : (
+            <div className="space-y-3 max-h-64 overflow-y-auto pr-1">
+              {rememberingAgents.map(([agentId, memory]) => (
+                <div key={agentId} className="bg-gray-700/50 rounded-md p-3">
+                  <div className="flex justify-between items-center mb-1">
+                    <span className="font-semibold text-sm">{agentName(agentId)}</span>
+                    <button
+                      onClick={() => clearMemory(agentId)}
+                      className="text-xs text-red-400 hover:text-red-300 transition"
+                    >
+                      Forget all
+                    </button>
+                  </div>
+                  {memory.summary && <p className="text-xs text-gray-400 mb-2">Last time: {memory.summary}</p>}
+                  <ul className="space-y-1">
+                    {memory.facts.map((fact) => (
+                      <li key={`${fact.id}-${fact.text}`} className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          defaultValue={fact.text}
+                          onBlur={(e) => {
+                            if (e.target.value !== fact.text) updateFact(agentId, fact.id, e.target.value);
+                          }}
+                          className="flex-1 bg-gray-700 border border-gray-600 text-white rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          aria-label={`Fact remembered by ${agentName(agentId)}`}
+                        />
+                        <button
+                          onClick={() => deleteFact(agentId, fact.id)}
+                          className="text-gray-400 hover:text-red-300 transition"
+                          aria-label="Delete fact"
+                        >
+                          ✕
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
         <div className="flex justify-end">
           <button 
             onClick={handleSave}
@@ -0,0 +1,119 @@
+import React from 'react';
+import { FaceLayout } from '../lib/avatarParts';
+
+/**
+ * An SVG character for `character` avatars.
+ *
+ * A pack draws only the head in a 200×200 view box; the animated features and
+ * accessories are drawn on top at the positions given by its layout.
+ */
+export interface CharacterPack {
+    /**
+     * The pack's ID, stored on the agent's avatar.
+     */
+    id: string;
+    /**
+     * The name shown in the avatar editor.
+     */
+    label: string;
+    /**
+     * Where the features sit on the head.
+     */
+    layout: FaceLayout;
+    /**
+     * Draws the head.
+     */
+    Body: React.FC<{ color: string }>;
+}
+
+/**
+ * The character packs, in the order they are offered. Add a pack here to make
+ * it available to agents.
+ */
+export const CHARACTER_PACKS: CharacterPack[] = [
+    {
+        id: 'blob',
+        label: 'Blob',
+        layout: {
+            centerX: 100,
+            headCenterY: 110,
+            headRadius: 75,
+            headTop: 32,
+            eyeY: 95,
+            eyeSpacing: 28,
+            eyeRadius: 9,
+            mouthY: 130,
+            mouthWidth: 38,
+            mouthMaxOpen: 32,
+            lineWidth: 3,
+        },
+        Body: ({ color }) => (
+            <path d="M100 30 C150 30 175 70 175 115 C175 160 145 182 100 182 C55 182 25 160 25 115 C25 70 50 30 100 30 Z" fill={color} />
+        ),
+    },
+    {
+        id: 'robot',
+        label: 'Robot',
+        layout: {
+            centerX: 100,
+            headCenterY: 110,
+            headRadius: 65,
+            headTop: 50,
+            eyeY: 95,
+            eyeSpacing: 30,
+            eyeRadius: 10,
+            mouthY: 138,
+            mouthWidth: 44,
+            mouthMaxOpen: 28,
+            lineWidth: 3,
+        },
+        Body: ({ color }) => (
+            <g fill={color}>
+                <line x1="100" y1="50" x2="100" y2="28" stroke={color} strokeWidth="4" />
+                <circle cx="100" cy="24" r="7" />
+                <rect x="24" y="95" width="12" height="32" rx="4" />
+                <rect x="164" y="95" width="12" height="32" rx="4" />
+                <rect x="35" y="50" width="130" height="120" rx="22" />
+            </g>
+        ),
+    },
+    {
+        id: 'cat',
+        label: 'Cat',
+        layout: {
+            centerX: 100,
+            headCenterY: 112,
+            headRadius: 70,
+            headTop: 42,
+            eyeY: 102,
+            eyeSpacing: 28,
+            eyeRadius: 9,
+            mouthY: 138,
+            mouthWidth: 30,
+            mouthMaxOpen: 26,
+            lineWidth: 3,
+        },
+        Body: ({ color }) => (
+            <g>
+                <path d="M38 85 L52 22 L95 52 Z M162 85 L148 22 L105 52 Z" fill={color} />
+                <circle cx="100" cy="112" r="70" fill={color} />
+                <path
+                    d="M60 128 L25 120 M60 136 L25 140 M140 128 L175 120 M140 136 L175 140"
+                    stroke="white"
+                    strokeOpacity="0.6"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                />
+            </g>
+        ),
+    },
+];
+
+/**
+ * Finds a character pack, falling back to the first one for unknown IDs.
+ *
+ * @param {string} id - The pack's ID.
+ * @returns {CharacterPack} The pack.
+ */
+export const getCharacterPack = (id: string): CharacterPack =>
+    CHARACTER_PACKS.find(pack => pack.id === id) ?? CHARACTER_PACKS[0];
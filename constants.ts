@@ -1,4 +1,9 @@
 /**
  * This file contains global constants used throughout the application.
- * Currently empty but reserved for future use.
  */
+
+/**
+ * Whether the app is running in development mode (`vite dev`).
+ * Vite replaces `process.env.NODE_ENV` at build time.
+ */
+export const IS_DEV = process.env.NODE_ENV !== 'production';
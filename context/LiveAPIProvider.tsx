@@ -1,5 +1,7 @@
-import React, { createContext, useContext } from 'react';
+import React, { createContext, useCallback, useContext, useState } from 'react';
 import { useLiveApi, UseLiveApiReturn } from '../hooks/useLiveApi';
+import { useBrowserConversation } from '../hooks/useBrowserConversation';
+import { useUIStore } from '../stores/useUI';
 
 /**
  * Context to hold the return value of the `useLiveApi` hook.
@@ -9,8 +11,11 @@ const LiveAPIContext = createContext<UseLiveApiReturn | null>(null);
 /**
  * Provides the Live API context to its children.
  *
- * This component initializes the `useLiveApi` hook and passes its result
- * to the `LiveAPIContext.Provider`.
+ * This component initializes both conversation engines, the Live API
+ * (`useLiveApi`) and the browser speech fallback (`useBrowserConversation`),
+ * and passes the active one to the `LiveAPIContext.Provider`. With the `auto`
+ * engine preference, connecting tries the Live API first and falls back to the
+ * browser engine if it can't connect.
  *
  * @component
  * @param {Object} props - The component props.
@@ -19,8 +24,42 @@ const LiveAPIContext = createContext<UseLiveApiReturn | null>(null);
  */
 export const LiveAPIProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const liveApi = useLiveApi();
+  const browser = useBrowserConversation();
+  const enginePreference = useUIStore((state) => state.enginePreference);
+  const [liveFailed, setLiveFailed] = useState(false);
+  const isBrowserEngine = enginePreference === 'browser' || (enginePreference === 'auto' && liveFailed);
+  const active = isBrowserEngine ? browser : liveApi;
+
+  const { connect: connectLive, disconnect: disconnectLive } = liveApi;
+  const { connect: connectBrowser, disconnect: disconnectBrowser } = browser;
+
+  /**
+   * Connects with the preferred engine, falling back to the browser engine
+   * when the preference is `auto` and the Live API is unreachable or refuses the connection.
+   */
+  const connect = useCallback(async (): Promise<void> => {
+    if (enginePreference === 'browser') {
+      await connectBrowser();
+      return;
+    }
+
+    disconnectBrowser();
+    setLiveFailed(false);
+    try {
+      await connectLive();
+    } catch (error) {
+      if (enginePreference !== 'auto') {
+        throw error;
+      }
+      console.warn('Live API unreachable, falling back to browser speech:', error);
+      disconnectLive();
+      setLiveFailed(true);
+      await connectBrowser();
+    }
+  }, [enginePreference, connectLive, disconnectLive, connectBrowser, disconnectBrowser]);
+
   return (
-    <LiveAPIContext.Provider value={liveApi}>
+    <LiveAPIContext.Provider value={{ ...active, connect }}>
       {children}
     </LiveAPIContext.Provider>
   );
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { AvatarAnimator, AvatarFrame } from '../lib/AvatarAnimator';
+import { SpectralFeatures } from '../lib/AudioStreamer';
+import { AvatarEmotion } from '../types';
+
+/**
+ * The inputs that drive an avatar's animation.
+ */
+export interface AvatarAnimationInputs {
+  /**
+   * The current audio volume level (0-1).
+   */
+  volume: number;
+  /**
+   * Spectral features of the audio, for mouth shapes.
+   */
+  spectrum?: SpectralFeatures;
+  /**
+   * The emotion to show.
+   */
+  emotion: AvatarEmotion;
+  /**
+   * A point to look at, from -1 to 1 on each axis, or null to glance around.
+   */
+  lookTarget: { x: number; y: number } | null;
+}
+
+/**
+ * Hook that keeps an `AvatarAnimator` fed with the latest inputs.
+ *
+ * @param {AvatarAnimationInputs} inputs - The inputs that drive the animation.
+ * @returns {AvatarAnimator} The animator, stable for the component's lifetime.
+ */
+export const useAvatarAnimator = ({ volume, spectrum, emotion, lookTarget }: AvatarAnimationInputs): AvatarAnimator => {
+  const [animator] = useState(() => new AvatarAnimator());
+  const lookX = lookTarget?.x;
+  const lookY = lookTarget?.y;
+
+  useEffect(() => {
+    animator.setAudio(volume, spectrum ?? null);
+  }, [animator, volume, spectrum]);
+
+  useEffect(() => {
+    animator.setEmotion(emotion);
+  }, [animator, emotion]);
+
+  useEffect(() => {
+    animator.lookAt(lookX !== undefined && lookY !== undefined ? { x: lookX, y: lookY } : null);
+  }, [animator, lookX, lookY]);
+
+  return animator;
+};
+
+/**
+ * Hook that advances an animator every animation frame and returns the frame
+ * to draw, for avatars rendered by React (SVG, images). Canvas avatars should
+ * call `animator.update()` from their own drawing loop instead, to avoid
+ * re-rendering on every frame.
+ *
+ * @param {AvatarAnimator} animator - The animator.
+ * @returns {AvatarFrame} The latest frame.
+ */
+export const useAvatarFrame = (animator: AvatarAnimator): AvatarFrame => {
+  const [frame, setFrame] = useState(() => animator.update(performance.now()));
+
+  useEffect(() => {
+    let frameId: number;
+    const tick = (now: number) => {
+      setFrame(animator.update(now));
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [animator]);
+
+  return frame;
+};
@@ -0,0 +1,224 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { SILENT_FEATURES, SpectralFeatures } from '../lib/AudioStreamer';
+import { SAMPLE_SPEECH_FEATURES, SAMPLE_SPEECH_INTERVAL_MS } from '../lib/AvatarAnimator';
+import { appendTranscriptChunk, finalizeTranscript, replaceTranscriptText } from '../lib/transcript';
+import { getReplyBackend } from '../lib/replyBackends';
+import { EMPTY_USAGE } from '../lib/usage';
+import { Agent, TranscriptEntry } from '../types';
+import { useAgentStore } from '../stores/useAgent';
+import { useUserStore } from '../stores/useUser';
+import { useUIStore } from '../stores/useUI';
+import { useSpeechRecognition } from './useSpeechRecognition';
+import { useSpeechSynthesis } from './useSpeechSynthesis';
+import { UseLiveApiReturn } from './useLiveApi';
+
+/**
+ * Hook for the browser speech engine, a stand-in for the Live API when it is
+ * unreachable (no API key, offline, or the service is down).
+ *
+ * The user's speech is recognized by the browser, replies come from the reply
+ * backend chosen in the settings, and are spoken with `speechSynthesis`. It
+ * returns the same interface as `useLiveApi`, so the face, controls and chat
+ * work unchanged; the face's lip-sync is driven by sample speech sounds while
+ * the browser talks, since synthesized audio can't be analysed.
+ *
+ * Browser sessions use no tokens and are not saved to the conversation history,
+ * as the agent's memory is summarized with Gemini. Recognition pauses while the
+ * agent speaks so it doesn't hear itself.
+ *
+ * @returns {UseLiveApiReturn} The hook's return value.
+ */
+export const useBrowserConversation = (): UseLiveApiReturn => {
+  const [isConnected, setIsConnected] = useState(false);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [outputSpectrum, setOutputSpectrum] = useState<SpectralFeatures>(SILENT_FEATURES);
+  const [wantsListening, setWantsListening] = useState(false);
+
+  // The session's agent and user, fixed when connecting
+  const sessionAgent = useRef<Agent | null>(null);
+  const sessionUserName = useRef('');
+  const speakReplies = useRef(true);
+  // Aborted when the session ends, so late replies are dropped
+  const abortController = useRef<AbortController | null>(null);
+  // Kept in step with the state, so replies see the message they answer
+  const transcriptRef = useRef<TranscriptEntry[]>([]);
+
+  const { current: currentAgent } = useAgentStore();
+  const { name } = useUserStore();
+  const responseMode = useUIStore((state) => state.responseMode);
+  const lang = currentAgent.voice.languageCode;
+
+  const { isSupported: canSpeak, isSpeaking, speak, cancel } = useSpeechSynthesis(lang);
+
+  /**
+   * Updates the transcript and its ref together.
+   *
+   * @param {(entries: TranscriptEntry[]) => TranscriptEntry[]} update - Computes the new transcript.
+   */
+  const updateTranscript = useCallback((update: (entries: TranscriptEntry[]) => TranscriptEntry[]) => {
+    transcriptRef.current = update(transcriptRef.current);
+    setTranscript(transcriptRef.current);
+  }, []);
+
+  /**
+   * Asks the reply backend for the agent's reply, then shows and speaks it.
+   *
+   * @param {string | null} message - The user's message, or null for the greeting.
+   */
+  const respond = useCallback(async (message: string | null) => {
+    const agent = sessionAgent.current;
+    const controller = abortController.current;
+    if (!agent || !controller) return;
+
+    try {
+      const reply = await getReplyBackend(useUIStore.getState().replyBackendId).reply({
+        agent,
+        userName: sessionUserName.current,
+        history: transcriptRef.current,
+        message,
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted || !reply.trim()) return;
+      updateTranscript((prev) => appendTranscriptChunk(finalizeTranscript(prev), 'agent', reply.trim(), true));
+      if (speakReplies.current) {
+        speak(reply);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Reply backend failed:', error);
+      setConnectionError(`The agent couldn't reply: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [speak, updateTranscript]);
+
+  /**
+   * Shows what the user is saying, and replies once they finish.
+   */
+  const handleResult = useCallback((text: string, isFinal: boolean) => {
+    const utterance = text.trim();
+    if (!utterance || !sessionAgent.current) return;
+    updateTranscript((prev) => replaceTranscriptText(prev, 'user', utterance, isFinal));
+    if (isFinal) {
+      respond(utterance);
+    }
+  }, [respond, updateTranscript]);
+
+  const { isSupported: canListen, error: recognitionError, start, stop } = useSpeechRecognition({
+    lang,
+    onResult: handleResult,
+  });
+
+  // Listen while the mic is open, except while the agent is talking
+  useEffect(() => {
+    if (isConnected && wantsListening && !isSpeaking) {
+      start();
+    } else {
+      stop();
+    }
+  }, [isConnected, wantsListening, isSpeaking, start, stop]);
+
+  // Animate the mouth with sample speech sounds while the browser talks
+  useEffect(() => {
+    if (!isSpeaking) {
+      setOutputSpectrum(SILENT_FEATURES);
+      return;
+    }
+    const interval = setInterval(() => {
+      setOutputSpectrum(SAMPLE_SPEECH_FEATURES[Math.floor(Math.random() * SAMPLE_SPEECH_FEATURES.length)]);
+    }, SAMPLE_SPEECH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isSpeaking]);
+
+  // Drop pending replies on unmount
+  useEffect(() => () => abortController.current?.abort(), []);
+
+  /**
+   * Starts a browser session; the agent greets the user.
+   */
+  const connect = useCallback(async (): Promise<void> => {
+    if (!name || name.trim().length === 0) {
+      setConnectionError('User name cannot be empty');
+      throw new Error('User name cannot be empty');
+    }
+
+    abortController.current?.abort();
+    abortController.current = new AbortController();
+    cancel();
+    sessionAgent.current = currentAgent;
+    sessionUserName.current = name;
+    speakReplies.current = responseMode !== 'text' && canSpeak;
+    updateTranscript(() => []);
+    setConnectionError(null);
+    setIsConnected(true);
+
+    await respond(null);
+  }, [name, currentAgent, responseMode, canSpeak, cancel, respond, updateTranscript]);
+
+  /**
+   * Ends the browser session.
+   */
+  const disconnect = useCallback(() => {
+    abortController.current?.abort();
+    abortController.current = null;
+    sessionAgent.current = null;
+    cancel();
+    stop();
+    updateTranscript(finalizeTranscript);
+    setIsConnected(false);
+    setConnectionError(null);
+  }, [cancel, stop, updateTranscript]);
+
+  /**
+   * Clears the conversation transcript.
+   */
+  const clearTranscript = useCallback(() => {
+    updateTranscript(() => []);
+  }, [updateTranscript]);
+
+  /**
+   * Sends a typed user message and appends it to the transcript as a final entry.
+   */
+  const sendText = useCallback((text: string) => {
+    if (!sessionAgent.current) {
+      console.warn('Cannot send text - session not connected');
+      return;
+    }
+    updateTranscript((prev) => appendTranscriptChunk(finalizeTranscript(prev), 'user', text, true));
+    respond(text);
+  }, [respond, updateTranscript]);
+
+  /**
+   * No-op: the browser engine doesn't send follow-ups.
+   */
+  const noteUserActivity = useCallback(() => {}, []);
+
+  const speechError = !isConnected
+    ? null
+    : !canListen
+      ? "This browser can't recognize speech. Type in the chat panel instead."
+      : recognitionError
+        ? `Speech recognition failed (${recognitionError}). Type in the chat panel instead.`
+        : null;
+
+  return {
+    isConnected,
+    isConnecting: false,
+    outputVolume: outputSpectrum.rms,
+    outputSpectrum,
+    connectionError: connectionError ?? speechError,
+    client: null,
+    connect,
+    disconnect,
+    reconnectAttempt: 0,
+    sessionResumed: false,
+    transcript,
+    clearTranscript,
+    sendText,
+    noteUserActivity,
+    sessionUsage: EMPTY_USAGE,
+    sessionCost: 0,
+    budgetStatus: 'none',
+    engine: 'browser',
+    setListening: setWantsListening,
+  };
+};
@@ -3,10 +3,10 @@ import { useEffect, useState } from 'react';
 /**
  * Hook that tracks whether an element is being hovered over.
  *
- * @param {React.RefObject<HTMLElement>} ref - The ref of the element to track.
+ * @param {React.RefObject<HTMLElement | null>} ref - The ref of the element to track.
  * @returns {boolean} True if the element is being hovered, false otherwise.
  */
-export const useHover = (ref: React.RefObject<HTMLElement>): boolean => {
+export const useHover = (ref: React.RefObject<HTMLElement | null>): boolean => {
   const [isHovering, setIsHovering] = useState(false);
 
   useEffect(() => {
@@ -31,10 +31,10 @@ export const useHover = (ref: React.RefObject<HTMLElement>): boolean => {
 /**
  * Hook that calculates tilt effect values based on mouse position over an element.
  *
- * @param {React.RefObject<HTMLElement>} ref - The ref of the element to track.
+ * @param {React.RefObject<HTMLElement | null>} ref - The ref of the element to track.
  * @returns {{ x: number, y: number }} The tilt values for x and y axes.
  */
-export const useTilt = (ref: React.RefObject<HTMLElement>): { x: number; y: number } => {
+export const useTilt = (ref: React.RefObject<HTMLElement | null>): { x: number; y: number } => {
   const [tilt, setTilt] = useState({ x: 0, y: 0 });
 
   useEffect(() => {
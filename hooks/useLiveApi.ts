@@ -1,8 +1,19 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
-import { GenAILiveClient } from '../lib/GenAILiveClient';
-import { AudioStreamer } from '../lib/AudioStreamer';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { ConnectOptions, GenAILiveClient, TranscriptionChunk } from '../lib/GenAILiveClient';
+import { AudioStreamer, SILENT_FEATURES, SpectralFeatures } from '../lib/AudioStreamer';
+import { appendTranscriptChunk, finalizeTranscript } from '../lib/transcript';
+import { createBuiltinToolRegistry } from '../lib/builtinTools';
+import { addUsage, BUDGET_WARNING_RATIO, EMPTY_USAGE, estimateCost, formatCost } from '../lib/usage';
+import { buildNudgePrompt, EngagementScheduler, normalizeNudgeSettings } from '../lib/EngagementScheduler';
+import { NudgeSettings, TokenUsage, TranscriptEntry } from '../types';
 import { useAgentStore } from '../stores/useAgent';
 import { useUserStore } from '../stores/useUser';
+import { useUIStore } from '../stores/useUI';
+import { useConversationStore } from '../stores/useConversations';
+import { useMemoryStore } from '../stores/useMemory';
+import { useDevicesStore } from '../stores/useDevices';
+import { useUsageStore } from '../stores/useUsage';
+import { summarizeConversation } from '../services/geminiService';
 
 /**
  * Interface representing the return value of the `useLiveApi` hook.
@@ -16,6 +27,10 @@ export interface UseLiveApiReturn {
    * The current output volume level (0-1).
    */
   outputVolume: number;
+  /**
+   * Spectral features of the audio being played, for lip-sync.
+   */
+  outputSpectrum: SpectralFeatures;
   /**
    * The underlying GenAI Live Client instance.
    */
@@ -41,6 +56,60 @@ export interface UseLiveApiReturn {
    * The current reconnection attempt number.
    */
   reconnectAttempt: number;
+  /**
+   * Whether the current connection resumed the previous conversation
+   * (after a network drop or a server `goAway`) rather than starting a new one.
+   */
+  sessionResumed: boolean;
+  /**
+   * The transcript of the current conversation, covering both the user's
+   * and the agent's speech. The last entry may still be partial.
+   */
+  transcript: TranscriptEntry[];
+  /**
+   * Clears the transcript.
+   */
+  clearTranscript: () => void;
+  /**
+   * Sends a typed message to the model and records it in the transcript.
+   * @param {string} text - The message to send.
+   */
+  sendText: (text: string) => void;
+  /**
+   * Tells the engagement scheduler the user is active (e.g. talking into the
+   * mic), so the agent doesn't follow up while they speak.
+   */
+  noteUserActivity: () => void;
+  /**
+   * The tokens used since the user connected, across reconnects.
+   */
+  sessionUsage: TokenUsage;
+  /**
+   * The estimated cost of `sessionUsage`, in US dollars.
+   */
+  sessionCost: number;
+  /**
+   * How the session cost compares to the session budget:
+   * - `none`: no budget is set.
+   * - `ok`: below the warning threshold.
+   * - `warning`: nearing the budget.
+   * - `exceeded`: the budget was reached and the session was disconnected.
+   */
+  budgetStatus: 'none' | 'ok' | 'warning' | 'exceeded';
+  /**
+   * Which engine serves the conversation:
+   * - `live`: the Gemini Live API.
+   * - `browser`: the browser's speech recognition and synthesis with a local
+   *   reply backend, used when the Live API is unreachable.
+   */
+  engine: 'live' | 'browser';
+  /**
+   * Tells the engine whether the user's mic is open (unmuted, or push-to-talk
+   * held). The Live API receives mic audio from the control tray instead, so
+   * only the browser engine listens for itself.
+   * @param {boolean} listening - Whether to listen.
+   */
+  setListening: (listening: boolean) => void;
 }
 
 const MAX_RECONNECT_ATTEMPTS = 10;
@@ -58,13 +127,18 @@ export const useLiveApi = (): UseLiveApiReturn => {
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [outputVolume, setOutputVolume] = useState(0);
+  const [outputSpectrum, setOutputSpectrum] = useState<SpectralFeatures>(SILENT_FEATURES);
   const [connectionError, setConnectionError] = useState<string | null>(null);
   const [clientInstance, setClientInstance] = useState<GenAILiveClient | null>(null);
   const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [sessionResumed, setSessionResumed] = useState(false);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [sessionUsage, setSessionUsage] = useState<TokenUsage>(EMPTY_USAGE);
 
   const clientRef = useRef<GenAILiveClient | null>(null);
   const streamerRef = useRef<AudioStreamer | null>(null);
   const streamerInitialized = useRef(false);
+  const schedulerRef = useRef<EngagementScheduler | null>(null);
   
   // Reconnection control refs
   const shouldReconnect = useRef(true);  // False when user explicitly disconnects
@@ -74,12 +148,24 @@ export const useLiveApi = (): UseLiveApiReturn => {
   // Store latest connection params in refs for reconnection
   const lastAgent = useRef<typeof currentAgent>(null);
   const lastUserData = useRef<{ name: string; info?: string | null } | null>(null);
+  const lastOptions = useRef<ConnectOptions>({});
+
+  // Conversation history: a user-initiated session is recorded until the user disconnects
+  const isRecording = useRef(false);
+  const conversationId = useRef<string | null>(null);
+  const sessionStartedAt = useRef(0);
+  const transcriptRef = useRef<TranscriptEntry[]>([]);
+  const sessionUsageRef = useRef<TokenUsage>(EMPTY_USAGE);
 
   // Ref for volume update throttling to avoid closure issues
   const lastVolumeUpdateRef = useRef(0);
+  const lastSpectrumUpdateRef = useRef(0);
 
   const { current: currentAgent } = useAgentStore();
   const { name, info } = useUserStore();
+  const outputDeviceId = useDevicesStore((state) => state.outputDeviceId);
+  const prices = useUsageStore((state) => state.prices);
+  const sessionBudget = useUsageStore((state) => state.sessionBudget);
 
   /**
    * Internal function to establish a connection.
@@ -94,6 +180,17 @@ export const useLiveApi = (): UseLiveApiReturn => {
 
     const agent = isReconnect ? lastAgent.current : currentAgent;
     const userData = isReconnect ? lastUserData.current : { name, info };
+    const memory = agent ? useMemoryStore.getState().memories[agent.id] : undefined;
+    // Read when connecting rather than subscribed to, so a change can't re-create
+    // the reconnect callbacks and tear down the session mid-conversation
+    const { micMode, responseMode } = useUIStore.getState();
+    const options: ConnectOptions = isReconnect
+      ? lastOptions.current
+      : {
+          manualActivity: micMode === 'pushToTalk',
+          responseMode,
+          memory: memory && { summary: memory.summary, facts: memory.facts.map((fact) => fact.text) },
+        };
 
     // Input validation
     if (!agent) {
@@ -110,6 +207,7 @@ export const useLiveApi = (): UseLiveApiReturn => {
       throw new Error('User info must be a string when provided');
     }
     if (userData.name.trim().length === 0) {
+      setConnectionError('User name cannot be empty');
       throw new Error('User name cannot be empty');
     }
 
@@ -117,6 +215,7 @@ export const useLiveApi = (): UseLiveApiReturn => {
     if (!isReconnect) {
       lastAgent.current = agent;
       lastUserData.current = userData;
+      lastOptions.current = options;
     }
 
     try {
@@ -128,7 +227,7 @@ export const useLiveApi = (): UseLiveApiReturn => {
         streamerInitialized.current = true;
       }
 
-      await clientRef.current.connect(agent, userData);
+      await clientRef.current.connect(agent, userData, options);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.error('Connection failed:', errorMsg);
@@ -139,6 +238,64 @@ export const useLiveApi = (): UseLiveApiReturn => {
     }
   }, [currentAgent, name, info]);
 
+  /**
+   * Saves the finalized turns of a transcript to the conversation history.
+   *
+   * The conversation is created with the first turn, so sessions where nothing
+   * was said are not kept.
+   *
+   * @param {TranscriptEntry[]} entries - The transcript.
+   */
+  const recordTranscript = useCallback((entries: TranscriptEntry[]) => {
+    const finalTurns = entries.filter((entry) => entry.isFinal);
+    const agent = lastAgent.current;
+    const userData = lastUserData.current;
+    if (!isRecording.current || finalTurns.length === 0 || !agent || !userData) {
+      return;
+    }
+
+    const { startConversation, saveTranscript } = useConversationStore.getState();
+    if (!conversationId.current) {
+      conversationId.current = startConversation({
+        agentId: agent.id,
+        agentName: agent.name,
+        userName: userData.name,
+        startedAt: sessionStartedAt.current,
+      });
+    }
+    saveTranscript(conversationId.current, finalTurns);
+  }, []);
+
+  /**
+   * Stops recording the current session to the conversation history,
+   * keeping any turn that was still in progress, and updates the agent's
+   * memory from the conversation in the background.
+   */
+  const endRecording = useCallback(() => {
+    recordTranscript(finalizeTranscript(transcriptRef.current));
+    isRecording.current = false;
+    if (!conversationId.current) {
+      return;
+    }
+
+    const { conversations, endConversation } = useConversationStore.getState();
+    const conversation = conversations.find((c) => c.id === conversationId.current);
+    endConversation(conversationId.current, sessionUsageRef.current);
+    conversationId.current = null;
+
+    // Only conversations where the user said something are worth remembering
+    if (conversation?.transcript.some((entry) => entry.speaker === 'user' && entry.text.trim())) {
+      const { memories, recordSession } = useMemoryStore.getState();
+      summarizeConversation(conversation.transcript, {
+        agentName: conversation.agentName,
+        userName: conversation.userName,
+        knownFacts: memories[conversation.agentId]?.facts.map((fact) => fact.text) ?? [],
+      })
+        .then((session) => recordSession(conversation.agentId, session))
+        .catch((error) => console.error('Failed to update agent memory:', error));
+    }
+  }, [recordTranscript]);
+
   /**
    * Schedules a reconnection attempt with exponential backoff.
    */
@@ -188,11 +345,14 @@ export const useLiveApi = (): UseLiveApiReturn => {
   }, []);
 
   useEffect(() => {
-    const newClient = new GenAILiveClient();
+    const newClient = new GenAILiveClient(createBuiltinToolRegistry());
     const newStreamer = new AudioStreamer();
+    const newScheduler = new EngagementScheduler();
+    newStreamer.setOutputDevice(useDevicesStore.getState().outputDeviceId);
 
     clientRef.current = newClient;
     streamerRef.current = newStreamer;
+    schedulerRef.current = newScheduler;
     setClientInstance(newClient);
 
     const onOpen = () => {
@@ -200,6 +360,8 @@ export const useLiveApi = (): UseLiveApiReturn => {
       setIsConnected(true);
       setIsConnecting(false);
       setConnectionError(null);
+      setSessionResumed(newClient.isResumedSession);
+      newScheduler.start(normalizeNudgeSettings(lastAgent.current?.nudges));
       
       // Reset reconnection state on successful connection
       reconnectAttempts.current = 0;
@@ -213,10 +375,13 @@ export const useLiveApi = (): UseLiveApiReturn => {
       console.log(`Connection closed: code=${code}, reason=${reason}`);
       setIsConnected(false);
       setIsConnecting(false);
+      newScheduler.stop();
 
       // Normal closure codes (1000 = normal, 1001 = going away intentionally)
       const normalClosure = code === 1000 || code === 1001;
 
+      // Only sessions that were set up close here; a connection that never
+      // opened makes connect() reject instead, so it isn't retried
       if (!normalClosure && shouldReconnect.current) {
         console.log('Abnormal closure detected, initiating reconnection...');
         scheduleReconnect();
@@ -230,7 +395,46 @@ export const useLiveApi = (): UseLiveApiReturn => {
       // This prevents race conditions between error and close events
     };
 
-    const onAudio = (audio: ArrayBuffer) => streamerRef.current?.receiveAudio(audio);
+    const onAudio = (audio: ArrayBuffer, sampleRate: number) => {
+      newScheduler.agentActivity();
+      streamerRef.current?.receiveAudio(audio, sampleRate);
+    };
+
+    const onInputTranscript = ({ text, finished }: TranscriptionChunk) => {
+      if (text.trim()) {
+        newScheduler.userActivity();
+      }
+      setTranscript(prev => appendTranscriptChunk(prev, 'user', text, finished));
+    };
+
+    const onOutputTranscript = ({ text, finished }: TranscriptionChunk) => {
+      newScheduler.agentActivity();
+      setTranscript(prev => appendTranscriptChunk(prev, 'agent', text, finished));
+    };
+
+    const onText = (text: string) => {
+      newScheduler.agentActivity();
+      setTranscript(prev => appendTranscriptChunk(prev, 'agent', text, false));
+    };
+
+    const onUsage = (usage: TokenUsage) => {
+      setSessionUsage(prev => addUsage(prev, usage));
+      if (lastAgent.current) {
+        useUsageStore.getState().recordUsage(lastAgent.current.id, usage);
+      }
+    };
+
+    const onTurnComplete = () => {
+      newScheduler.agentTurnComplete();
+      setTranscript(prev => finalizeTranscript(prev));
+    };
+
+    // Barge-in: drop whatever the agent had left to say
+    const onInterrupted = () => {
+      newScheduler.userActivity();
+      const discarded = streamerRef.current?.interrupt() ?? 0;
+      console.log(`Model interrupted, discarded ${discarded.toFixed(2)}s of audio`);
+    };
 
     // Throttle volume updates to prevent excessive re-renders
     const onVolume = (volume: number) => {
@@ -241,11 +445,47 @@ export const useLiveApi = (): UseLiveApiReturn => {
       }
     };
 
+    const onSpectrum = (features: SpectralFeatures) => {
+      const now = Date.now();
+      // Always pass silence through so the mouth closes when playback stops
+      if (now - lastSpectrumUpdateRef.current > 50 || features.rms === 0) {
+        setOutputSpectrum(features);
+        lastSpectrumUpdateRef.current = now;
+      }
+    };
+
+    // Move to a fresh connection before the server drops this one
+    const onGoAway = (timeLeftMs: number | null) => {
+      if (!shouldReconnect.current) return;
+      console.log(`Server going away${timeLeftMs != null ? ` in ${Math.round(timeLeftMs)}ms` : ''}, reconnecting...`);
+      newClient.reconnect().catch((error) => {
+        console.error('Reconnect after goAway failed:', error);
+        scheduleReconnect();
+      });
+    };
+
+    // Steer the agent to follow up after the user has gone quiet. The prompt
+    // is not part of the conversation, so it stays out of the transcript.
+    const onNudge = (count: number, settings: NudgeSettings) => {
+      const userName = lastUserData.current?.name ?? 'The user';
+      console.log(`User idle for ${settings.idleSeconds}s, sending follow-up nudge ${count}/${settings.maxNudges}`);
+      newClient.sendInitialText(buildNudgePrompt(userName, count, settings.idleSeconds));
+    };
+
     newClient.on('open', onOpen);
     newClient.on('close', onClose);
     newClient.on('error', onError);
     newClient.on('audio', onAudio);
+    newClient.on('inputTranscript', onInputTranscript);
+    newClient.on('outputTranscript', onOutputTranscript);
+    newClient.on('text', onText);
+    newClient.on('turnComplete', onTurnComplete);
+    newClient.on('interrupted', onInterrupted);
+    newClient.on('goAway', onGoAway);
+    newClient.on('usage', onUsage);
     newStreamer.on('volume', onVolume);
+    newStreamer.on('spectrum', onSpectrum);
+    newScheduler.on('nudge', onNudge);
 
     return () => {
       // Prevent reconnection during unmount
@@ -254,11 +494,28 @@ export const useLiveApi = (): UseLiveApiReturn => {
       
       newClient.removeAllListeners();
       newStreamer.removeAllListeners();
+      newScheduler.removeAllListeners();
+      newScheduler.stop();
       newClient.disconnect();
       newStreamer.stop();
       streamerInitialized.current = false;
+      endRecording();
     };
-  }, [scheduleReconnect, cancelReconnect]);
+  }, [scheduleReconnect, cancelReconnect, endRecording]);
+
+  // Switch speakers without reconnecting
+  useEffect(() => {
+    streamerRef.current?.setOutputDevice(outputDeviceId);
+  }, [outputDeviceId]);
+
+  useEffect(() => {
+    sessionUsageRef.current = sessionUsage;
+  }, [sessionUsage]);
+
+  useEffect(() => {
+    transcriptRef.current = transcript;
+    recordTranscript(transcript);
+  }, [transcript, recordTranscript]);
 
   /**
    * Initiates the connection to the Live API.
@@ -279,8 +536,17 @@ export const useLiveApi = (): UseLiveApiReturn => {
       streamerRef.current?.stop();
     }
 
+    // A user-initiated connection starts a new conversation
+    clientRef.current?.clearResumption();
+    setTranscript([]);
+    endRecording();
+    setSessionUsage(EMPTY_USAGE);
+    sessionUsageRef.current = EMPTY_USAGE;
+    isRecording.current = true;
+    sessionStartedAt.current = Date.now();
+
     await connectInternal(false);
-  }, [isConnecting, isConnected, connectInternal, cancelReconnect]);
+  }, [isConnecting, isConnected, connectInternal, cancelReconnect, endRecording]);
 
   /**
    * Disconnects from the Live API.
@@ -293,19 +559,83 @@ export const useLiveApi = (): UseLiveApiReturn => {
 
     clientRef.current?.disconnect();
     streamerRef.current?.stop();
+    schedulerRef.current?.stop();
     setIsConnected(false);
     setIsConnecting(false);
     setConnectionError(null);
-  }, [cancelReconnect]);
+    endRecording();
+  }, [cancelReconnect, endRecording]);
+
+  const sessionCost = useMemo(() => estimateCost(sessionUsage, prices), [sessionUsage, prices]);
+
+  const budgetStatus: UseLiveApiReturn['budgetStatus'] = !sessionBudget
+    ? 'none'
+    : sessionCost >= sessionBudget
+      ? 'exceeded'
+      : sessionCost >= sessionBudget * BUDGET_WARNING_RATIO
+        ? 'warning'
+        : 'ok';
+
+  // Stop forgotten sessions from running up the bill
+  useEffect(() => {
+    if (budgetStatus === 'exceeded' && (isConnected || isConnecting) && sessionBudget) {
+      console.warn(`Session budget of ${formatCost(sessionBudget)} reached, disconnecting`);
+      disconnect();
+      setConnectionError(`Session budget of ${formatCost(sessionBudget)} reached. Disconnected.`);
+    }
+  }, [budgetStatus, isConnected, isConnecting, sessionBudget, disconnect]);
+
+  /**
+   * Clears the conversation transcript.
+   */
+  const clearTranscript = useCallback(() => {
+    setTranscript([]);
+  }, []);
+
+  /**
+   * Sends a typed user message and appends it to the transcript as a final entry.
+   */
+  const sendText = useCallback((text: string) => {
+    if (!clientRef.current?.isConnected) {
+      console.warn('Cannot send text - session not connected');
+      return;
+    }
+    schedulerRef.current?.userActivity();
+    clientRef.current.sendInitialText(text);
+    setTranscript(prev => appendTranscriptChunk(finalizeTranscript(prev), 'user', text, true));
+  }, []);
+
+  /**
+   * Resets the engagement scheduler's silence timer.
+   */
+  const noteUserActivity = useCallback(() => {
+    schedulerRef.current?.userActivity();
+  }, []);
+
+  /**
+   * No-op: the control tray streams mic audio to the Live API itself.
+   */
+  const setListening = useCallback(() => {}, []);
 
   return {
     isConnected,
     isConnecting,
     outputVolume,
+    outputSpectrum,
     connectionError,
     client: clientInstance,
     connect,
     disconnect,
     reconnectAttempt,
+    sessionResumed,
+    transcript,
+    clearTranscript,
+    sendText,
+    noteUserActivity,
+    sessionUsage,
+    sessionCost,
+    budgetStatus,
+    engine: 'live',
+    setListening,
   };
 };
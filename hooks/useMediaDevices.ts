@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Interface representing the return value of the `useMediaDevices` hook.
+ */
+export interface UseMediaDevicesReturn {
+  /**
+   * The available microphones.
+   */
+  inputs: MediaDeviceInfo[];
+  /**
+   * The available speakers. Empty in browsers that cannot choose an output device.
+   */
+  outputs: MediaDeviceInfo[];
+  /**
+   * Whether the browser can route audio to a chosen output device.
+   */
+  canSelectOutput: boolean;
+  /**
+   * Lists the devices again.
+   * @returns {Promise<void>}
+   */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Whether `AudioContext.setSinkId` is available.
+ */
+const canSelectOutput = typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+/**
+ * Custom hook that lists the audio input and output devices and keeps the
+ * list current as devices are plugged in or removed.
+ *
+ * Device labels are empty until the user has granted microphone access.
+ *
+ * @returns {UseMediaDevicesReturn} The devices.
+ */
+export const useMediaDevices = (): UseMediaDevicesReturn => {
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      return;
+    }
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      // The 'default' entries duplicate a real device; null already means the system default
+      const usable = (kind: MediaDeviceKind) =>
+        devices.filter((device) => device.kind === kind && device.deviceId && device.deviceId !== 'default');
+      setInputs(usable('audioinput'));
+      setOutputs(canSelectOutput ? usable('audiooutput') : []);
+    } catch (error) {
+      console.error('Failed to list media devices:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return { inputs, outputs, canSelectOutput, refresh };
+};
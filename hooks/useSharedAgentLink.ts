@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { AGENT_LINK_FRAGMENT_KEY, decodeAgentFragment } from '../lib/agentBundle';
+import { useAgentStore } from '../stores/useAgent';
+
+/**
+ * The link fragments already loaded. Module-level, so the effect's second run
+ * under React StrictMode doesn't import the agent twice.
+ */
+const handledFragments = new Set<string>();
+
+/**
+ * Hook that loads an agent from a shared link (`#agent=...`) on startup.
+ *
+ * The decoded agent is added to the personal agents and selected. Once it is
+ * imported, the fragment is removed from the address bar so reloading doesn't
+ * import it again.
+ *
+ * @returns {string | null} An error message if the link could not be loaded, otherwise null.
+ */
+export const useSharedAgentLink = (): string | null => {
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    const encoded = params.get(AGENT_LINK_FRAGMENT_KEY);
+    if (!encoded || handledFragments.has(encoded)) return;
+    handledFragments.add(encoded);
+
+    decodeAgentFragment(encoded)
+      .then((agent) => {
+        const [imported] = useAgentStore.getState().importAgents([agent]);
+        useAgentStore.getState().setCurrent(imported.id);
+        history.replaceState(null, '', window.location.pathname + window.location.search);
+        console.log('Loaded shared agent:', imported.name);
+      })
+      .catch((e) => {
+        console.error('Failed to load shared agent:', e);
+        setError(e instanceof Error ? e.message : String(e));
+      });
+  }, []);
+
+  return error;
+};
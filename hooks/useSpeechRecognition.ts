@@ -1,3 +1,181 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
 /**
- * This hook is currently empty and reserved for future implementation of speech recognition functionality.
+ * The parts of the Web Speech API's `SpeechRecognition` used here. The API is
+ * not in the TypeScript DOM types, and Chrome and Safari only ship it prefixed.
  */
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onresult: ((event: SpeechRecognitionResultEventLike) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  onspeechstart: (() => void) | null;
+}
+
+/**
+ * The parts of a `SpeechRecognitionEvent` used here.
+ */
+interface SpeechRecognitionResultEventLike {
+  resultIndex: number;
+  results: ArrayLike<{ isFinal: boolean; 0: { transcript: string } }>;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+/**
+ * Finds the browser's speech recognizer, if it has one.
+ *
+ * @returns {SpeechRecognitionConstructor | null} The constructor, or null if unsupported.
+ */
+const getSpeechRecognition = (): SpeechRecognitionConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  const speechWindow = window as unknown as Record<string, SpeechRecognitionConstructor | undefined>;
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null;
+};
+
+/**
+ * Errors that just mean nothing was heard; recognition restarts after them.
+ */
+const TRANSIENT_ERRORS = ['no-speech', 'aborted'];
+
+/**
+ * Options for the `useSpeechRecognition` hook.
+ */
+export interface SpeechRecognitionOptions {
+  /**
+   * The BCP-47 language to recognize (e.g. 'en-US').
+   */
+  lang: string;
+  /**
+   * Called as speech is recognized. Interim results are revised until the
+   * final result for the utterance arrives.
+   * @param {string} text - The utterance so far.
+   * @param {boolean} isFinal - Whether the utterance is complete.
+   */
+  onResult: (text: string, isFinal: boolean) => void;
+  /**
+   * Called when the user starts speaking.
+   */
+  onSpeechStart?: () => void;
+}
+
+/**
+ * Interface representing the return value of the `useSpeechRecognition` hook.
+ */
+export interface UseSpeechRecognitionReturn {
+  /**
+   * Whether the browser can recognize speech.
+   */
+  isSupported: boolean;
+  /**
+   * Whether the recognizer is listening.
+   */
+  isListening: boolean;
+  /**
+   * The last recognition error, if any (e.g. 'not-allowed' when the mic is blocked).
+   */
+  error: string | null;
+  /**
+   * Starts listening. Listening continues across pauses until `stop()`.
+   */
+  start: () => void;
+  /**
+   * Stops listening.
+   */
+  stop: () => void;
+}
+
+/**
+ * Hook for the browser's built-in speech recognition (Web Speech API).
+ *
+ * Browsers end recognition after a pause or a few seconds of silence; the hook
+ * restarts it so listening continues until `stop()` is called.
+ *
+ * @param {SpeechRecognitionOptions} options - The hook options.
+ * @returns {UseSpeechRecognitionReturn} The hook's return value.
+ */
+export const useSpeechRecognition = ({ lang, onResult, onSpeechStart }: SpeechRecognitionOptions): UseSpeechRecognitionReturn => {
+  const [isListening, setIsListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null);
+  // Whether the caller wants to listen; the recognizer is restarted while true
+  const wantListening = useRef(false);
+  // The latest callbacks, so the recognizer isn't re-created when they change
+  const callbacks = useRef({ onResult, onSpeechStart });
+  const isSupported = getSpeechRecognition() !== null;
+
+  useEffect(() => {
+    callbacks.current = { onResult, onSpeechStart };
+  }, [onResult, onSpeechStart]);
+
+  useEffect(() => {
+    const SpeechRecognition = getSpeechRecognition();
+    if (!SpeechRecognition) return;
+
+    const recognition = new SpeechRecognition();
+    recognition.lang = lang;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognitionRef.current = recognition;
+
+    recognition.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        callbacks.current.onResult(result[0].transcript, result.isFinal);
+      }
+    };
+    recognition.onspeechstart = () => callbacks.current.onSpeechStart?.();
+    recognition.onerror = (event) => {
+      if (TRANSIENT_ERRORS.includes(event.error)) return;
+      console.error('Speech recognition error:', event.error);
+      setError(event.error);
+      wantListening.current = false;
+    };
+    recognition.onend = () => {
+      if (wantListening.current) {
+        try {
+          recognition.start();
+          return;
+        } catch (restartError) {
+          console.error('Failed to restart speech recognition:', restartError);
+        }
+      }
+      setIsListening(false);
+    };
+
+    if (wantListening.current) {
+      recognition.start();
+    }
+
+    return () => {
+      recognition.onend = null;
+      recognition.abort();
+      recognitionRef.current = null;
+    };
+  }, [lang]);
+
+  const start = useCallback(() => {
+    if (!recognitionRef.current || wantListening.current) return;
+    wantListening.current = true;
+    setError(null);
+    try {
+      recognitionRef.current.start();
+      setIsListening(true);
+    } catch (startError) {
+      console.error('Failed to start speech recognition:', startError);
+      wantListening.current = false;
+    }
+  }, []);
+
+  const stop = useCallback(() => {
+    wantListening.current = false;
+    recognitionRef.current?.stop();
+  }, []);
+
+  return { isSupported, isListening, error, start, stop };
+};
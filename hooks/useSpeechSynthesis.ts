@@ -1,3 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
 /**
- * This hook is currently empty and reserved for future implementation of speech synthesis functionality.
+ * Splits text into sentences. Chrome cuts off utterances that run longer than
+ * about 15 seconds, so long replies are spoken a sentence at a time.
+ *
+ * @param {string} text - The text.
+ * @returns {string[]} The sentences.
  */
+const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?]+[.!?]*\s*/g) ?? [text]).map((sentence) => sentence.trim()).filter(Boolean);
+
+/**
+ * Picks the browser voice that best matches a language.
+ *
+ * @param {string} lang - The BCP-47 language (e.g. 'en-US').
+ * @returns {SpeechSynthesisVoice | null} The voice, or null to use the browser's default.
+ */
+const pickVoice = (lang: string): SpeechSynthesisVoice | null => {
+  const voices = window.speechSynthesis.getVoices();
+  const base = lang.split('-')[0];
+  return (
+    voices.find((voice) => voice.lang === lang && voice.localService) ??
+    voices.find((voice) => voice.lang === lang) ??
+    voices.find((voice) => voice.lang.split('-')[0] === base) ??
+    null
+  );
+};
+
+/**
+ * Interface representing the return value of the `useSpeechSynthesis` hook.
+ */
+export interface UseSpeechSynthesisReturn {
+  /**
+   * Whether the browser can speak.
+   */
+  isSupported: boolean;
+  /**
+   * Whether speech is playing.
+   */
+  isSpeaking: boolean;
+  /**
+   * Speaks text after anything already queued.
+   * @param {string} text - The text to speak.
+   */
+  speak: (text: string) => void;
+  /**
+   * Stops speaking and clears the queue.
+   */
+  cancel: () => void;
+}
+
+/**
+ * Hook for the browser's built-in speech synthesis (`speechSynthesis`).
+ *
+ * @param {string} lang - The BCP-47 language to speak (e.g. 'en-US'); the closest installed voice is used.
+ * @returns {UseSpeechSynthesisReturn} The hook's return value.
+ */
+export const useSpeechSynthesis = (lang: string): UseSpeechSynthesisReturn => {
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  // Utterances queued but not yet finished
+  const pending = useRef(0);
+  // Bumped by cancel(), so late events from cancelled utterances are ignored
+  const generation = useRef(0);
+  const isSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+  const speak = useCallback((text: string) => {
+    if (!isSupported) return;
+    const voice = pickVoice(lang);
+    const queuedGeneration = generation.current;
+    for (const sentence of splitSentences(text)) {
+      const utterance = new SpeechSynthesisUtterance(sentence);
+      utterance.lang = lang;
+      utterance.voice = voice;
+      const finish = () => {
+        if (queuedGeneration !== generation.current) return;
+        pending.current = Math.max(0, pending.current - 1);
+        if (pending.current === 0) {
+          setIsSpeaking(false);
+        }
+      };
+      utterance.onend = finish;
+      utterance.onerror = (event) => {
+        // Cancelling reports an 'interrupted' or 'canceled' error for each queued utterance
+        if (event.error !== 'interrupted' && event.error !== 'canceled') {
+          console.error('Speech synthesis error:', event.error);
+        }
+        finish();
+      };
+      pending.current++;
+      setIsSpeaking(true);
+      window.speechSynthesis.speak(utterance);
+    }
+  }, [isSupported, lang]);
+
+  const cancel = useCallback(() => {
+    if (!isSupported) return;
+    pending.current = 0;
+    generation.current++;
+    window.speechSynthesis.cancel();
+    setIsSpeaking(false);
+  }, [isSupported]);
+
+  // Don't keep talking after the component goes away
+  useEffect(() => cancel, [cancel]);
+
+  return { isSupported, isSpeaking, speak, cancel };
+};
@@ -4,34 +4,33 @@ const WORKLET_PROCESSOR_NAME = 'audio-recording-processor';
 const TARGET_SAMPLE_RATE = 16000;
 
 /**
- * Converts an ArrayBuffer to a Base64 string efficiently.
- *
- * @param {ArrayBuffer} buffer - The buffer to convert.
- * @returns {string} The Base64 encoded string.
+ * The MIME type of the audio emitted by the recorder.
  */
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = '';
-  const chunkSize = 8192;
-
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    const chunk = bytes.subarray(i, Math.min(i + chunkSize, bytes.length));
-    binary += String.fromCharCode(...chunk);
-  }
+export const RECORDER_MIME_TYPE = `audio/pcm;rate=${TARGET_SAMPLE_RATE}`;
 
-  return btoa(binary);
-}
+/**
+ * Bounds and default for the length of each emitted audio frame, in milliseconds.
+ * Shorter frames lower latency; longer frames mean fewer messages.
+ */
+const MIN_FRAME_MS = 20;
+const MAX_FRAME_MS = 100;
+const DEFAULT_FRAME_MS = 40;
 
-const workletCode = `
-function floatTo16BitPCM(input) {
-  const output = new Int16Array(input.length);
-  for (let i = 0; i < input.length; i++) {
-    const s = Math.max(-1, Math.min(1, input[i]));
-    output[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-  }
-  return output;
-}
+/**
+ * Options for the AudioRecorder.
+ */
+export type AudioRecorderOptions = {
+  /**
+   * The microphone's `deviceId`. Defaults to the system default microphone.
+   */
+  deviceId?: string | null;
+  /**
+   * The length of each emitted frame in milliseconds, between 20 and 100. Defaults to 40.
+   */
+  frameMs?: number;
+};
 
+const workletCode = `
 function downsampleBuffer(buffer, inputSampleRate, outputSampleRate) {
   if (inputSampleRate === outputSampleRate) {
     return buffer;
@@ -55,20 +54,41 @@ function downsampleBuffer(buffer, inputSampleRate, outputSampleRate) {
   return result;
 }
 
+// Collects 16-bit samples in a ring buffer and posts them in fixed-size frames,
+// instead of one tiny message per 128-sample render quantum
 class AudioRecordingProcessor extends AudioWorkletProcessor {
-  constructor() {
+  constructor(options) {
     super();
-    this.bufferSize = 2048;
-    this._buffer = new Float32Array(this.bufferSize);
-    this._pos = 0;
+    this.frameSamples = options.processorOptions.frameSamples;
+    // Frames are drained as soon as they fill, so one frame plus a render quantum always fits
+    this.ring = new Int16Array(this.frameSamples * 2 + 128);
+    this.writePos = 0;
+    this.readPos = 0;
+    this.available = 0;
+  }
+
+  write(samples) {
+    for (let i = 0; i < samples.length; i++) {
+      const s = Math.max(-1, Math.min(1, samples[i]));
+      this.ring[this.writePos] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+      this.writePos = (this.writePos + 1) % this.ring.length;
+    }
+    this.available += samples.length;
   }
 
   process(inputs) {
     const input = inputs[0][0];
     if (input) {
-      const downsampled = downsampleBuffer(input, sampleRate, ${TARGET_SAMPLE_RATE});
-      const pcm = floatTo16BitPCM(downsampled);
-      this.port.postMessage(pcm.buffer, [pcm.buffer]);
+      this.write(downsampleBuffer(input, sampleRate, ${TARGET_SAMPLE_RATE}));
+      while (this.available >= this.frameSamples) {
+        const frame = new Int16Array(this.frameSamples);
+        for (let i = 0; i < this.frameSamples; i++) {
+          frame[i] = this.ring[this.readPos];
+          this.readPos = (this.readPos + 1) % this.ring.length;
+        }
+        this.available -= this.frameSamples;
+        this.port.postMessage(frame.buffer, [frame.buffer]);
+      }
     }
     return true;
   }
@@ -77,15 +97,36 @@ class AudioRecordingProcessor extends AudioWorkletProcessor {
 registerProcessor('${WORKLET_PROCESSOR_NAME}', AudioRecordingProcessor);
 `;
 
+/**
+ * Computes the RMS level of a 16-bit PCM frame.
+ *
+ * @param {Int16Array} samples - The frame.
+ * @returns {number} The level (0-1).
+ */
+function frameVolume(samples: Int16Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i] / 0x8000;
+    sum += sample * sample;
+  }
+  return samples.length ? Math.sqrt(sum / samples.length) : 0;
+}
+
 /**
  * Events emitted by the AudioRecorder.
  */
 type AudioRecorderEvents = {
   /**
-   * Emitted when audio data is available.
-   * @param {string} base64 - The audio data encoded in Base64.
+   * Emitted for each frame of recorded audio.
+   * @param {ArrayBuffer} pcm - 16-bit mono PCM at 16 kHz (see `RECORDER_MIME_TYPE`).
+   */
+  data: (pcm: ArrayBuffer) => void;
+  /**
+   * Emitted for each frame with its loudness, for level meters and local
+   * voice activity detection.
+   * @param {number} volume - The frame's RMS level (0-1).
    */
-  data: (base64: string) => void;
+  volume: (volume: number) => void;
   /**
    * Emitted when an error occurs.
    * @param {Error} error - The error object.
@@ -97,12 +138,48 @@ type AudioRecorderEvents = {
  * Class responsible for recording audio from the user's microphone.
  *
  * It uses an AudioWorklet to process audio data, downsample it, and convert it to PCM 16-bit format.
- * Emits 'data' events with Base64 encoded audio chunks.
+ * Emits 'data' events with binary audio frames of a configurable length, and a
+ * 'volume' event with each frame's level.
  */
 export class AudioRecorder extends EventEmitter<AudioRecorderEvents> {
   private stream: MediaStream | null = null;
   private context: AudioContext | null = null;
   private workletNode: AudioWorkletNode | null = null;
+  private deviceId: string | null;
+  private frameMs: number;
+
+  /**
+   * Initializes the recorder.
+   *
+   * @param {AudioRecorderOptions} [options] - The microphone and frame length to use.
+   */
+  constructor(options: AudioRecorderOptions = {}) {
+    super();
+    this.deviceId = options.deviceId ?? null;
+    this.frameMs = Math.min(MAX_FRAME_MS, Math.max(MIN_FRAME_MS, options.frameMs ?? DEFAULT_FRAME_MS));
+  }
+
+  /**
+   * Requests the chosen microphone, falling back to the system default if it
+   * is no longer available (e.g. a headset was unplugged).
+   *
+   * @private
+   * @returns {Promise<MediaStream>} The microphone stream.
+   */
+  private async requestMicrophone(): Promise<MediaStream> {
+    if (!this.deviceId) {
+      return navigator.mediaDevices.getUserMedia({ audio: true });
+    }
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: { deviceId: { exact: this.deviceId } } });
+    } catch (error) {
+      if (error instanceof DOMException && (error.name === 'OverconstrainedError' || error.name === 'NotFoundError')) {
+        console.warn('Selected microphone not found, using the default microphone');
+        return navigator.mediaDevices.getUserMedia({ audio: true });
+      }
+      throw error;
+    }
+  }
 
   /**
    * Starts recording audio.
@@ -118,7 +195,7 @@ export class AudioRecorder extends EventEmitter<AudioRecorderEvents> {
       console.log('Requesting microphone access...');
       
       // Add a timeout for mic request (30 seconds max)
-      const micPromise = navigator.mediaDevices.getUserMedia({ audio: true });
+      const micPromise = this.requestMicrophone();
       const timeoutPromise = new Promise<never>((_, reject) => 
         setTimeout(() => reject(new Error('Microphone request timed out - check browser permissions')), 30000)
       );
@@ -143,21 +220,19 @@ export class AudioRecorder extends EventEmitter<AudioRecorderEvents> {
         URL.revokeObjectURL(workletURL);
       }
 
-      this.workletNode = new AudioWorkletNode(this.context, WORKLET_PROCESSOR_NAME);
-      let audioDataCount = 0;
-      this.workletNode.port.onmessage = (event) => {
-        const pcm16Buffer = event.data;
-        const base64 = arrayBufferToBase64(pcm16Buffer);
-        audioDataCount++;
-        if (audioDataCount % 10 === 0) {
-          console.log('Audio data captured:', audioDataCount, 'chunks');
+      this.workletNode = new AudioWorkletNode(this.context, WORKLET_PROCESSOR_NAME, {
+        processorOptions: { frameSamples: Math.round((TARGET_SAMPLE_RATE * this.frameMs) / 1000) },
+      });
+      this.workletNode.port.onmessage = (event: MessageEvent<ArrayBuffer>) => {
+        this.emit('data', event.data);
+        if (this.listenerCount('volume') > 0) {
+          this.emit('volume', frameVolume(new Int16Array(event.data)));
         }
-        this.emit('data', base64);
       };
 
       const source = this.context.createMediaStreamSource(this.stream);
       source.connect(this.workletNode).connect(this.context.destination);
-      console.log('Audio recording started');
+      console.log(`Audio recording started (${this.frameMs} ms frames)`);
 
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -1,16 +1,36 @@
 import { EventEmitter } from 'eventemitter3';
+import { PcmResampler } from './PcmResampler';
+import { DEFAULT_OUTPUT_SAMPLE_RATE } from './audioUtils';
 
 const WORKLET_PROCESSOR_NAME = 'volume-meter-processor';
 
+// Besides the overall level, the meter splits the signal into three bands with
+// one-pole filters (below ~500 Hz, ~500-2000 Hz, above ~2 kHz) and counts zero
+// crossings: cheap features that are enough to pick a mouth shape.
 const workletCode = `
+const LOW_CUTOFF_HZ = 500;
+const HIGH_CUTOFF_HZ = 2000;
+
 class VolumeMeterProcessor extends AudioWorkletProcessor {
   constructor() {
     super();
-    this.sum = 0;
-    this.sumOfSquares = 0;
-    this.sampleCount = 0;
     this.updateInterval = 50; // ms
     this.lastUpdateTime = currentTime;
+    this.lowCoefficient = 1 - Math.exp(-2 * Math.PI * LOW_CUTOFF_HZ / sampleRate);
+    this.highCoefficient = 1 - Math.exp(-2 * Math.PI * HIGH_CUTOFF_HZ / sampleRate);
+    this.lowState = 0;
+    this.highState = 0;
+    this.lastSample = 0;
+    this.reset();
+  }
+
+  reset() {
+    this.sumOfSquares = 0;
+    this.lowSquares = 0;
+    this.midSquares = 0;
+    this.highSquares = 0;
+    this.zeroCrossings = 0;
+    this.sampleCount = 0;
   }
 
   process(inputs) {
@@ -18,18 +38,33 @@ class VolumeMeterProcessor extends AudioWorkletProcessor {
     if (input) {
       for (let i = 0; i < input.length; i++) {
         const sample = input[i];
-        this.sum += sample;
+        this.lowState += this.lowCoefficient * (sample - this.lowState);
+        this.highState += this.highCoefficient * (sample - this.highState);
+        const low = this.lowState;
+        const mid = this.highState - this.lowState;
+        const high = sample - this.highState;
         this.sumOfSquares += sample * sample;
+        this.lowSquares += low * low;
+        this.midSquares += mid * mid;
+        this.highSquares += high * high;
+        if ((sample >= 0) !== (this.lastSample >= 0)) {
+          this.zeroCrossings++;
+        }
+        this.lastSample = sample;
       }
       this.sampleCount += input.length;
     }
 
     if (currentTime - this.lastUpdateTime > this.updateInterval / 1000) {
-      const rms = Math.sqrt(this.sumOfSquares / this.sampleCount);
-      this.port.postMessage({ rms });
-      this.sum = 0;
-      this.sumOfSquares = 0;
-      this.sampleCount = 0;
+      const count = this.sampleCount || 1;
+      this.port.postMessage({
+        rms: Math.sqrt(this.sumOfSquares / count),
+        low: Math.sqrt(this.lowSquares / count),
+        mid: Math.sqrt(this.midSquares / count),
+        high: Math.sqrt(this.highSquares / count),
+        zeroCrossingRate: this.zeroCrossings / count,
+      });
+      this.reset();
       this.lastUpdateTime = currentTime;
     }
 
@@ -40,6 +75,37 @@ class VolumeMeterProcessor extends AudioWorkletProcessor {
 registerProcessor('${WORKLET_PROCESSOR_NAME}', VolumeMeterProcessor);
 `;
 
+/**
+ * Spectral features of the audio being played, measured over ~50 ms.
+ */
+export type SpectralFeatures = {
+  /**
+   * The overall RMS level (0-1).
+   */
+  rms: number;
+  /**
+   * The RMS level below ~500 Hz, where the first formant of open and rounded vowels sits.
+   */
+  low: number;
+  /**
+   * The RMS level between ~500 Hz and ~2 kHz.
+   */
+  mid: number;
+  /**
+   * The RMS level above ~2 kHz, strong in front vowels and fricatives ("s", "f").
+   */
+  high: number;
+  /**
+   * The fraction of samples where the signal changes sign (0-1); high for noisy, hissing sounds.
+   */
+  zeroCrossingRate: number;
+};
+
+/**
+ * Features reported when nothing is playing.
+ */
+export const SILENT_FEATURES: SpectralFeatures = { rms: 0, low: 0, mid: 0, high: 0, zeroCrossingRate: 0 };
+
 /**
  * Events emitted by the AudioStreamer.
  */
@@ -49,21 +115,43 @@ type AudioStreamerEvents = {
    * @param {number} rms - The Root Mean Square (volume) value.
    */
   volume: (rms: number) => void;
+  /**
+   * Emitted with each volume update, with the spectral features used for lip-sync.
+   * @param {SpectralFeatures} features - The features of the audio just played.
+   */
+  spectrum: (features: SpectralFeatures) => void;
+  /**
+   * Emitted when playback is flushed by `interrupt()`.
+   * @param {number} discardedSeconds - How much unplayed audio was thrown away, in seconds.
+   */
+  interrupted: (discardedSeconds: number) => void;
+};
+
+/**
+ * A chunk of 16-bit PCM audio waiting to be played.
+ */
+type QueuedChunk = {
+  data: ArrayBuffer;
+  sampleRate: number;
 };
 
 /**
  * Class responsible for streaming and playing audio data.
  *
- * It uses an AudioContext and AudioWorklet to process and play audio chunks.
- * Also emits volume updates based on the audio being played.
+ * It uses an AudioContext running at the hardware sample rate, resamples each
+ * PCM chunk from its source rate, and plays chunks sequentially.
+ * Also emits volume and spectral feature updates based on the audio being played.
  */
 export class AudioStreamer extends EventEmitter<AudioStreamerEvents> {
   private context: AudioContext | null = null;
   private workletNode: AudioWorkletNode | null = null;
   private gainNode: GainNode | null = null;
   private startTime = 0;
-  private audioQueue: ArrayBuffer[] = [];
+  private audioQueue: QueuedChunk[] = [];
+  private resampler: PcmResampler | null = null;
   private isPlaying = false;
+  private scheduledSources = new Set<AudioBufferSourceNode>();
+  private sinkId: string | null = null;
 
   /**
    * Initializes the AudioStreamer.
@@ -75,7 +163,9 @@ export class AudioStreamer extends EventEmitter<AudioStreamerEvents> {
    */
   async init() {
     if (this.context) return;
-    this.context = new AudioContext({ sampleRate: 16000 });
+    // Run at the device's native rate; chunks are resampled to it
+    this.context = new AudioContext();
+    console.log('Audio output context sample rate:', this.context.sampleRate);
 
     const blob = new Blob([workletCode], { type: 'application/javascript' });
     const workletURL = URL.createObjectURL(blob);
@@ -87,28 +177,91 @@ export class AudioStreamer extends EventEmitter<AudioStreamerEvents> {
     }
 
     this.workletNode = new AudioWorkletNode(this.context, WORKLET_PROCESSOR_NAME);
-    this.workletNode.port.onmessage = (event) => {
+    this.workletNode.port.onmessage = (event: MessageEvent<SpectralFeatures>) => {
       this.emit('volume', event.data.rms);
+      this.emit('spectrum', event.data);
     };
 
     this.gainNode = this.context.createGain();
     this.gainNode.connect(this.workletNode).connect(this.context.destination);
 
     this.startTime = this.context.currentTime;
+
+    if (this.sinkId) {
+      await this.applySinkId();
+    }
+  }
+
+  /**
+   * Routes playback to an output device.
+   *
+   * Can be called before `init()`; the device is applied once the context exists.
+   * Browsers without `AudioContext.setSinkId` keep playing to the default output.
+   *
+   * @param {string | null} deviceId - The speaker's `deviceId`, or null for the system default.
+   * @returns {Promise<void>}
+   */
+  async setOutputDevice(deviceId: string | null) {
+    this.sinkId = deviceId;
+    if (this.context) {
+      await this.applySinkId();
+    }
+  }
+
+  /**
+   * Applies the chosen output device to the context.
+   *
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async applySinkId() {
+    // setSinkId is not yet in the TypeScript DOM types
+    const context = this.context as (AudioContext & { setSinkId?: (id: string) => Promise<void> }) | null;
+    if (!context?.setSinkId) {
+      if (this.sinkId) {
+        console.warn('This browser cannot choose an audio output device');
+      }
+      return;
+    }
+    try {
+      // An empty string selects the system default
+      await context.setSinkId(this.sinkId ?? '');
+    } catch (error) {
+      console.error('Failed to set audio output device, using the default output:', error);
+    }
   }
 
   /**
    * Receives a chunk of audio data to be played.
    *
-   * @param {ArrayBuffer} audioBuffer - The audio data chunk.
+   * @param {ArrayBuffer} audioBuffer - The audio data chunk (16-bit mono PCM).
+   * @param {number} [sampleRate=DEFAULT_OUTPUT_SAMPLE_RATE] - The sample rate of the chunk.
    */
-  receiveAudio(audioBuffer: ArrayBuffer) {
-    this.audioQueue.push(audioBuffer);
+  receiveAudio(audioBuffer: ArrayBuffer, sampleRate: number = DEFAULT_OUTPUT_SAMPLE_RATE) {
+    this.audioQueue.push({ data: audioBuffer, sampleRate });
     if (!this.isPlaying) {
       this.playQueue();
     }
   }
 
+  /**
+   * Returns a resampler from the given rate to the context's rate.
+   *
+   * The resampler is reused while the source rate stays the same so that
+   * consecutive chunks join seamlessly.
+   *
+   * @private
+   * @param {number} sourceRate - The sample rate of the incoming chunk.
+   * @returns {PcmResampler} The resampler.
+   */
+  private getResampler(sourceRate: number): PcmResampler {
+    const targetRate = this.context!.sampleRate;
+    if (!this.resampler || this.resampler.sourceRate !== sourceRate || this.resampler.targetRate !== targetRate) {
+      this.resampler = new PcmResampler(sourceRate, targetRate);
+    }
+    return this.resampler;
+  }
+
   /**
    * Processes the audio queue and plays chunks sequentially.
    *
@@ -117,7 +270,7 @@ export class AudioStreamer extends EventEmitter<AudioStreamerEvents> {
   private async playQueue() {
     if (this.audioQueue.length === 0) {
       this.isPlaying = false;
-      this.emit('volume', 0); // Reset volume when done
+      this.emitSilence(); // Reset volume when done
       return;
     }
     
@@ -126,22 +279,21 @@ export class AudioStreamer extends EventEmitter<AudioStreamerEvents> {
     if (!nextAudio || !this.context || !this.gainNode) return;
     
     try {
-      console.log('Playing audio chunk, size:', nextAudio.byteLength);
-      
-      // Convert PCM 16-bit data to AudioBuffer
-      // The audio data is raw PCM at 16kHz sample rate
-      const audioData = new Int16Array(nextAudio);
-      const samples = audioData.length;
-      const audioBuffer = this.context.createBuffer(
-        1,
-        samples,
-        16000
-      );
-      
-      const channelData = audioBuffer.getChannelData(0);
-      for (let i = 0; i < samples; i++) {
-        channelData[i] = audioData[i] / 32768; // Convert Int16 to float [-1, 1]
+      // Convert PCM 16-bit data to float [-1, 1]
+      const audioData = new Int16Array(nextAudio.data);
+      const floatData = new Float32Array(audioData.length);
+      for (let i = 0; i < audioData.length; i++) {
+        floatData[i] = audioData[i] / 32768;
+      }
+
+      // Resample from the chunk's rate to the hardware rate
+      const resampled = this.getResampler(nextAudio.sampleRate).process(floatData);
+      if (resampled.length === 0) {
+        this.playQueue();
+        return;
       }
+      const audioBuffer = this.context.createBuffer(1, resampled.length, this.context.sampleRate);
+      audioBuffer.copyToChannel(resampled, 0);
       
       const source = this.context.createBufferSource();
       source.buffer = audioBuffer;
@@ -152,13 +304,16 @@ export class AudioStreamer extends EventEmitter<AudioStreamerEvents> {
 
       this.startTime = scheduleTime + audioBuffer.duration;
 
+      this.scheduledSources.add(source);
+
       source.onended = () => {
+        this.scheduledSources.delete(source);
         try {
           this.playQueue();
         } catch (error) {
           console.error('Error in playQueue after audio ended:', error);
           this.isPlaying = false;
-          this.emit('volume', 0);
+          this.emitSilence();
         }
       };
 
@@ -176,6 +331,54 @@ export class AudioStreamer extends EventEmitter<AudioStreamerEvents> {
     }
   }
 
+  /**
+   * Reports silence to volume and spectrum listeners.
+   *
+   * @private
+   */
+  private emitSilence() {
+    this.emit('volume', 0);
+    this.emit('spectrum', SILENT_FEATURES);
+  }
+
+  /**
+   * Flushes playback when the model is interrupted (barge-in).
+   *
+   * Stops every scheduled source, clears the queue and resets the schedule so
+   * the next chunk plays immediately. The context stays open for the next turn.
+   *
+   * @returns {number} How much unplayed audio was discarded, in seconds.
+   */
+  interrupt(): number {
+    let discardedSeconds = this.audioQueue.reduce(
+      (total, chunk) => total + chunk.data.byteLength / 2 / chunk.sampleRate,
+      0
+    );
+    this.audioQueue = [];
+    this.resampler?.reset();
+
+    if (this.context) {
+      discardedSeconds += Math.max(0, this.startTime - this.context.currentTime);
+      this.startTime = this.context.currentTime;
+    }
+
+    this.scheduledSources.forEach((source) => {
+      // Detach first so the stopped source does not advance the queue
+      source.onended = null;
+      try {
+        source.stop();
+      } catch (error) {
+        console.error('Error stopping audio source:', error);
+      }
+    });
+    this.scheduledSources.clear();
+
+    this.isPlaying = false;
+    this.emitSilence();
+    this.emit('interrupted', discardedSeconds);
+    return discardedSeconds;
+  }
+
   /**
    * Stops audio playback and cleans up resources.
    *
@@ -186,6 +389,8 @@ export class AudioStreamer extends EventEmitter<AudioStreamerEvents> {
   async stop() {
     this.audioQueue = [];
     this.isPlaying = false;
+    this.scheduledSources.clear();
+    this.resampler = null;
 
     if (this.context) {
       try {
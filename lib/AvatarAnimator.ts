@@ -0,0 +1,373 @@
+import { AvatarEmotion } from '../types';
+import { SILENT_FEATURES, SpectralFeatures } from './AudioStreamer';
+
+/**
+ * Viseme-like mouth shapes the animator picks between.
+ * - `rest`: silent, lips relaxed.
+ * - `M`: closed, for hums and nasals ("m", "b", "p").
+ * - `S`: teeth nearly together, for hissing sounds ("s", "f", "sh").
+ * - `E`: wide and half open, for front vowels ("ee", "eh").
+ * - `A`: wide open ("ah").
+ * - `O`: rounded ("oh", "oo").
+ */
+export type Viseme = 'rest' | 'M' | 'S' | 'E' | 'A' | 'O';
+
+/**
+ * The geometry of the mouth, each value 0-1.
+ */
+export type MouthShape = {
+  /**
+   * How far the mouth is open.
+   */
+  open: number;
+  /**
+   * How wide the mouth is.
+   */
+  width: number;
+  /**
+   * How rounded the lips are.
+   */
+  round: number;
+};
+
+/**
+ * The facial expression layered over speech and idle motion.
+ */
+export type Expression = {
+  /**
+   * Mouth curve, from -1 (frown) to 1 (smile).
+   */
+  smile: number;
+  /**
+   * Eyebrow height, from -1 (furrowed) to 1 (raised).
+   */
+  brow: number;
+  /**
+   * Eye size relative to neutral.
+   */
+  eyeScale: number;
+  /**
+   * Where the eyes drift to, from -1 to 1 on each axis (negative is left or up).
+   */
+  gazeBias: { x: number; y: number };
+  /**
+   * Added to the mouth's openness, for a dropped jaw.
+   */
+  jaw: number;
+};
+
+/**
+ * Everything a renderer needs to draw one frame of the avatar.
+ */
+export type AvatarFrame = {
+  /**
+   * The mouth shape, blended from the current viseme and expression.
+   */
+  mouth: MouthShape;
+  /**
+   * How open the eyes are (0 during a blink, 1 when open).
+   */
+  eyeOpen: number;
+  /**
+   * Where the eyes look, from -1 to 1 on each axis.
+   */
+  gaze: { x: number; y: number };
+  /**
+   * The breathing cycle, from -1 (exhaled) to 1 (inhaled).
+   */
+  breath: number;
+  /**
+   * The blended expression.
+   */
+  expression: Expression;
+  /**
+   * The emotion the expression is blending toward.
+   */
+  emotion: AvatarEmotion;
+};
+
+/**
+ * Mouth shapes for each viseme at full loudness.
+ */
+export const VISEME_SHAPES: Record<Viseme, MouthShape> = {
+  rest: { open: 0.04, width: 0.5, round: 0 },
+  M: { open: 0, width: 0.45, round: 0.1 },
+  S: { open: 0.15, width: 0.7, round: 0 },
+  E: { open: 0.4, width: 0.8, round: 0 },
+  A: { open: 0.85, width: 0.6, round: 0.1 },
+  O: { open: 0.6, width: 0.35, round: 1 },
+};
+
+/**
+ * The expression for each emotion.
+ */
+export const EMOTION_EXPRESSIONS: Record<AvatarEmotion, Expression> = {
+  neutral: { smile: 0.15, brow: 0, eyeScale: 1, gazeBias: { x: 0, y: 0 }, jaw: 0 },
+  happy: { smile: 1, brow: 0.3, eyeScale: 0.85, gazeBias: { x: 0, y: 0 }, jaw: 0.05 },
+  thinking: { smile: -0.15, brow: -0.5, eyeScale: 0.95, gazeBias: { x: 0.5, y: -0.6 }, jaw: 0 },
+  listening: { smile: 0.3, brow: 0.4, eyeScale: 1.1, gazeBias: { x: 0, y: 0 }, jaw: 0 },
+  surprised: { smile: 0, brow: 1, eyeScale: 1.35, gazeBias: { x: 0, y: -0.1 }, jaw: 0.3 },
+};
+
+/**
+ * Typical features of a few speech sounds (an open, a front and a rounded
+ * vowel, a hiss and a hum) and a pause, for faking speech when there is no
+ * audio to analyze: editor previews and browser speech synthesis.
+ */
+export const SAMPLE_SPEECH_FEATURES: SpectralFeatures[] = [
+  { rms: 0.19, low: 0.11, mid: 0.11, high: 0.06, zeroCrossingRate: 0.05 },
+  { rms: 0.15, low: 0.1, mid: 0.07, high: 0.07, zeroCrossingRate: 0.06 },
+  { rms: 0.2, low: 0.2, mid: 0.06, high: 0.02, zeroCrossingRate: 0.01 },
+  { rms: 0.06, low: 0.01, mid: 0.01, high: 0.05, zeroCrossingRate: 0.5 },
+  { rms: 0.03, low: 0.03, mid: 0.006, high: 0.002, zeroCrossingRate: 0.006 },
+  SILENT_FEATURES,
+];
+
+/**
+ * How often faked speech changes sound, in milliseconds.
+ */
+export const SAMPLE_SPEECH_INTERVAL_MS = 120;
+
+/**
+ * Below this RMS level the avatar is taken to be silent.
+ */
+const SILENCE_RMS = 0.01;
+
+/**
+ * Below this RMS level, voiced low-frequency sound is read as a hum.
+ */
+const HUM_RMS = 0.04;
+
+/**
+ * RMS level at which the mouth opens fully for its viseme.
+ */
+const FULL_OPEN_RMS = 0.15;
+
+/**
+ * Time constants for easing toward targets, in milliseconds. Smaller is snappier.
+ */
+const EASING_MS = { mouth: 45, expression: 250, gaze: 70 };
+
+/**
+ * How long a blink lasts, in milliseconds.
+ */
+const BLINK_MS = 160;
+
+/**
+ * The range of time between blinks, in milliseconds.
+ */
+const BLINK_INTERVAL_MS = { min: 2000, max: 6000 };
+
+/**
+ * The range of time between glances, in milliseconds.
+ */
+const GLANCE_INTERVAL_MS = { min: 1000, max: 4000 };
+
+/**
+ * How far idle glances wander from the gaze bias.
+ */
+const GLANCE_RANGE = { x: 0.5, y: 0.3 };
+
+/**
+ * The length of one breath, in milliseconds.
+ */
+const BREATH_PERIOD_MS = 4000;
+
+/**
+ * Picks the mouth shape that best matches a moment of speech.
+ *
+ * Hissing sounds are noisy and bright, with many zero crossings and energy above
+ * 2 kHz; rounded vowels concentrate energy in the low band; front vowels, with
+ * a low first and a high second formant, carry about as much above 2 kHz as in
+ * the mid band, where open vowels put both of theirs.
+ *
+ * @param {SpectralFeatures} features - The features of the audio being played.
+ * @returns {Viseme} The viseme.
+ */
+export function visemeFromFeatures(features: SpectralFeatures): Viseme {
+  if (features.rms < SILENCE_RMS) {
+    return 'rest';
+  }
+  const total = features.low + features.mid + features.high || 1;
+  const low = features.low / total;
+  const high = features.high / total;
+
+  if (high > 0.4 || features.zeroCrossingRate > 0.3) {
+    return 'S';
+  }
+  if (features.rms < HUM_RMS && low > 0.7) {
+    return 'M';
+  }
+  if (low > 0.6) {
+    return 'O';
+  }
+  if (features.high >= features.mid * 0.8) {
+    return 'E';
+  }
+  return 'A';
+}
+
+/**
+ * Moves a value toward a target with exponential easing.
+ *
+ * @param {number} value - The current value.
+ * @param {number} target - The target value.
+ * @param {number} dt - The time since the last step, in milliseconds.
+ * @param {number} timeConstant - The easing time constant, in milliseconds.
+ * @returns {number} The eased value.
+ */
+function ease(value: number, target: number, dt: number, timeConstant: number): number {
+  return value + (target - value) * (1 - Math.exp(-dt / timeConstant));
+}
+
+/**
+ * Picks a random number in a range.
+ *
+ * @param {{ min: number; max: number }} range - The range.
+ * @returns {number} The number.
+ */
+function randomIn(range: { min: number; max: number }): number {
+  return range.min + Math.random() * (range.max - range.min);
+}
+
+/**
+ * Animates an avatar's face, independently of how it is drawn.
+ *
+ * Feed it the output audio with `setAudio()`, the emotion with `setEmotion()`
+ * and, optionally, a point to look at with `lookAt()`; then call `update()` once
+ * per animation frame to get the frame to draw. On top of lip-sync and
+ * expressions it adds idle motion: blinking, glances and breathing.
+ */
+export class AvatarAnimator {
+  private features: SpectralFeatures | null = null;
+  private volume = 0;
+  private emotion: AvatarEmotion = 'neutral';
+  private lookTarget: { x: number; y: number } | null = null;
+
+  private mouth: MouthShape = { ...VISEME_SHAPES.rest };
+  private expression: Expression = { ...EMOTION_EXPRESSIONS.neutral, gazeBias: { x: 0, y: 0 } };
+  private gaze = { x: 0, y: 0 };
+  private glance = { x: 0, y: 0 };
+  private lastUpdate: number | null = null;
+  private nextBlinkAt = 0;
+  private blinkStartedAt = -Infinity;
+  private nextGlanceAt = 0;
+
+  /**
+   * Sets the audio the avatar is speaking.
+   *
+   * Without spectral features the mouth simply opens with the volume.
+   *
+   * @param {number} volume - The output volume (0-1).
+   * @param {SpectralFeatures | null} [features] - The spectral features, if available.
+   */
+  setAudio(volume: number, features: SpectralFeatures | null = null) {
+    this.volume = volume;
+    this.features = features;
+  }
+
+  /**
+   * Sets the emotion to blend toward.
+   *
+   * @param {AvatarEmotion} emotion - The emotion.
+   */
+  setEmotion(emotion: AvatarEmotion) {
+    this.emotion = emotion;
+  }
+
+  /**
+   * Makes the avatar look at a point, or resume idle glances.
+   *
+   * @param {{ x: number; y: number } | null} target - The point, from -1 to 1 on each axis, or null.
+   */
+  lookAt(target: { x: number; y: number } | null) {
+    this.lookTarget = target;
+  }
+
+  /**
+   * Advances the animation.
+   *
+   * @param {number} now - The current time in milliseconds, e.g. from `performance.now()`.
+   * @returns {AvatarFrame} The frame to draw.
+   */
+  update(now: number): AvatarFrame {
+    // Cap the step so a backgrounded tab doesn't jump when it resumes
+    const dt = this.lastUpdate === null ? 16 : Math.min(100, now - this.lastUpdate);
+    if (this.lastUpdate === null) {
+      this.nextBlinkAt = now + randomIn(BLINK_INTERVAL_MS);
+      this.nextGlanceAt = now + randomIn(GLANCE_INTERVAL_MS);
+    }
+    this.lastUpdate = now;
+
+    // Expression
+    const targetExpression = EMOTION_EXPRESSIONS[this.emotion];
+    this.expression = {
+      smile: ease(this.expression.smile, targetExpression.smile, dt, EASING_MS.expression),
+      brow: ease(this.expression.brow, targetExpression.brow, dt, EASING_MS.expression),
+      eyeScale: ease(this.expression.eyeScale, targetExpression.eyeScale, dt, EASING_MS.expression),
+      gazeBias: {
+        x: ease(this.expression.gazeBias.x, targetExpression.gazeBias.x, dt, EASING_MS.expression),
+        y: ease(this.expression.gazeBias.y, targetExpression.gazeBias.y, dt, EASING_MS.expression),
+      },
+      jaw: ease(this.expression.jaw, targetExpression.jaw, dt, EASING_MS.expression),
+    };
+
+    // Mouth
+    const targetMouth = this.targetMouth();
+    this.mouth = {
+      open: ease(this.mouth.open, Math.min(1, targetMouth.open + this.expression.jaw), dt, EASING_MS.mouth),
+      width: ease(this.mouth.width, targetMouth.width, dt, EASING_MS.mouth),
+      round: ease(this.mouth.round, targetMouth.round, dt, EASING_MS.mouth),
+    };
+
+    // Blinking
+    if (now >= this.nextBlinkAt) {
+      this.blinkStartedAt = now;
+      this.nextBlinkAt = now + BLINK_MS + randomIn(BLINK_INTERVAL_MS);
+    }
+    const blinkProgress = (now - this.blinkStartedAt) / BLINK_MS;
+    const eyeOpen = blinkProgress >= 0 && blinkProgress < 1 ? 1 - Math.sin(Math.PI * blinkProgress) : 1;
+
+    // Gaze: follow the look target, or glance around the emotion's bias
+    if (now >= this.nextGlanceAt) {
+      this.glance = {
+        x: (Math.random() * 2 - 1) * GLANCE_RANGE.x,
+        y: (Math.random() * 2 - 1) * GLANCE_RANGE.y,
+      };
+      this.nextGlanceAt = now + randomIn(GLANCE_INTERVAL_MS);
+    }
+    const gazeTarget = this.lookTarget ?? {
+      x: this.expression.gazeBias.x + this.glance.x,
+      y: this.expression.gazeBias.y + this.glance.y,
+    };
+    this.gaze = {
+      x: ease(this.gaze.x, Math.max(-1, Math.min(1, gazeTarget.x)), dt, EASING_MS.gaze),
+      y: ease(this.gaze.y, Math.max(-1, Math.min(1, gazeTarget.y)), dt, EASING_MS.gaze),
+    };
+
+    return {
+      mouth: this.mouth,
+      eyeOpen,
+      gaze: this.gaze,
+      breath: Math.sin((2 * Math.PI * now) / BREATH_PERIOD_MS),
+      expression: this.expression,
+      emotion: this.emotion,
+    };
+  }
+
+  /**
+   * Works out the mouth shape for the current audio.
+   *
+   * @private
+   * @returns {MouthShape} The target shape.
+   */
+  private targetMouth(): MouthShape {
+    const level = this.features?.rms ?? this.volume;
+    if (level < SILENCE_RMS) {
+      return VISEME_SHAPES.rest;
+    }
+    const shape = VISEME_SHAPES[this.features ? visemeFromFeatures(this.features) : 'A'];
+    const loudness = Math.min(1, Math.max(0.4, level / FULL_OPEN_RMS));
+    return { ...shape, open: shape.open * loudness };
+  }
+}
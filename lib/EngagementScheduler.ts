@@ -0,0 +1,168 @@
+import { EventEmitter } from 'eventemitter3';
+import { NudgeSettings } from '../types';
+
+/**
+ * Follow-up behavior for agents that don't set their own.
+ */
+export const DEFAULT_NUDGE_SETTINGS: NudgeSettings = {
+  enabled: true,
+  idleSeconds: 45,
+  maxNudges: 2,
+};
+
+/**
+ * Bounds for the nudge settings, also used by the editor.
+ */
+export const NUDGE_LIMITS = {
+  idleSeconds: { min: 10, max: 600 },
+  maxNudges: { min: 1, max: 5 },
+};
+
+/**
+ * How often the scheduler checks for silence, in milliseconds.
+ */
+const CHECK_INTERVAL_MS = 1000;
+
+/**
+ * Clamps a number to a range, falling back when it is not a number.
+ *
+ * @param {unknown} value - The candidate value.
+ * @param {{ min: number; max: number }} range - The allowed range.
+ * @param {number} fallback - The value used when the candidate is not a number.
+ * @returns {number} The clamped value.
+ */
+function clamp(value: unknown, range: { min: number; max: number }, fallback: number): number {
+  const number = typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : fallback;
+  return Math.min(range.max, Math.max(range.min, number));
+}
+
+/**
+ * Fills in and clamps an agent's nudge settings.
+ *
+ * @param {Partial<NudgeSettings> | undefined} settings - The agent's settings, if any.
+ * @returns {NudgeSettings} Complete, valid settings.
+ */
+export function normalizeNudgeSettings(settings: Partial<NudgeSettings> | undefined): NudgeSettings {
+  return {
+    enabled: typeof settings?.enabled === 'boolean' ? settings.enabled : DEFAULT_NUDGE_SETTINGS.enabled,
+    idleSeconds: clamp(settings?.idleSeconds, NUDGE_LIMITS.idleSeconds, DEFAULT_NUDGE_SETTINGS.idleSeconds),
+    maxNudges: clamp(settings?.maxNudges, NUDGE_LIMITS.maxNudges, DEFAULT_NUDGE_SETTINGS.maxNudges),
+  };
+}
+
+/**
+ * Builds the steering prompt sent to the model for a nudge.
+ *
+ * The first nudge asks the agent to follow up on the conversation; later ones
+ * ask it to suggest something new.
+ *
+ * @param {string} userName - The user's name.
+ * @param {number} count - Which nudge in a row this is, starting at 1.
+ * @param {number} idleSeconds - How long the user has been quiet.
+ * @returns {string} The prompt.
+ */
+export function buildNudgePrompt(userName: string, count: number, idleSeconds: number): string {
+  const note = count === 1
+    ? `${userName} has been quiet for ${idleSeconds} seconds. Briefly follow up on what you were talking about, or check in with them.`
+    : `${userName} is still quiet. Suggest a new topic they might enjoy, based on what you know about them.`;
+  return `(${note} Keep it to one or two sentences and don't mention this note.)`;
+}
+
+/**
+ * Events emitted by the EngagementScheduler.
+ */
+type EngagementSchedulerEvents = {
+  /**
+   * Emitted when the user has been quiet long enough for the agent to follow up.
+   * @param {number} count - Which nudge in a row this is, starting at 1.
+   * @param {NudgeSettings} settings - The settings in effect.
+   */
+  nudge: (count: number, settings: NudgeSettings) => void;
+};
+
+/**
+ * Decides when an agent should speak up after the user goes quiet.
+ *
+ * The owner reports activity: `userActivity()` for speech, typing or talking,
+ * `agentActivity()` while the agent is replying and `agentTurnComplete()` when
+ * it finishes. The silence timer only runs while the agent is not speaking,
+ * and after `maxNudges` follow-ups in a row the scheduler waits for the user.
+ */
+export class EngagementScheduler extends EventEmitter<EngagementSchedulerEvents> {
+  private settings: NudgeSettings = DEFAULT_NUDGE_SETTINGS;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastActivityAt = 0;
+  private agentSpeaking = false;
+  private nudgesSent = 0;
+
+  /**
+   * Starts watching for silence. Restarting resets the nudge count.
+   *
+   * @param {NudgeSettings} settings - The agent's settings.
+   */
+  start(settings: NudgeSettings) {
+    this.stop();
+    this.settings = settings;
+    this.nudgesSent = 0;
+    this.agentSpeaking = false;
+    this.lastActivityAt = Date.now();
+    if (settings.enabled) {
+      this.timer = setInterval(() => this.check(), CHECK_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Stops watching for silence.
+   */
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Records that the user spoke, typed or is talking. Resets the silence timer
+   * and the nudge count.
+   */
+  userActivity() {
+    this.lastActivityAt = Date.now();
+    this.nudgesSent = 0;
+    // The user talking over the agent ends the agent's turn
+    this.agentSpeaking = false;
+  }
+
+  /**
+   * Records that the agent is replying. The silence timer is paused until
+   * `agentTurnComplete()`.
+   */
+  agentActivity() {
+    this.agentSpeaking = true;
+    this.lastActivityAt = Date.now();
+  }
+
+  /**
+   * Records that the agent finished its turn. The silence timer starts again.
+   */
+  agentTurnComplete() {
+    this.agentSpeaking = false;
+    this.lastActivityAt = Date.now();
+  }
+
+  /**
+   * Emits a nudge if the user has been quiet long enough.
+   *
+   * @private
+   */
+  private check() {
+    if (this.agentSpeaking || this.nudgesSent >= this.settings.maxNudges) {
+      return;
+    }
+    if (Date.now() - this.lastActivityAt < this.settings.idleSeconds * 1000) {
+      return;
+    }
+    this.nudgesSent++;
+    this.lastActivityAt = Date.now();
+    this.emit('nudge', this.nudgesSent, this.settings);
+  }
+}
@@ -1,31 +1,100 @@
-import { GoogleGenAI, LiveServerMessage, GenerateContentResponse, Modality } from '@google/genai';
+import {
+  GoogleGenAI,
+  LiveServerMessage,
+  LiveServerContent,
+  LiveServerSessionResumptionUpdate,
+  LiveServerToolCall,
+  Modality,
+  Tool,
+} from '@google/genai';
 import { EventEmitter } from 'eventemitter3';
-import { Agent } from '../types';
+import { Agent, ResponseMode, TokenUsage } from '../types';
+import { ToolRegistry } from './ToolRegistry';
+import { PerfCounter } from './PerfCounter';
+import { arrayBufferToBase64, base64ToArrayBuffer, parseSampleRate } from './audioUtils';
+import { IS_DEV } from '../constants';
+import { usageFromMetadata } from './usage';
+import { buildSystemInstruction } from './persona';
+import { getLiveCredentials, LiveCredentials } from './credentials';
+import { buildGenerationConfig, LIVE_MODEL, normalizeGenerationSettings, usesPreviewFeatures } from './generation';
 
-const MODEL = 'models/gemini-2.0-flash-live-001';
+// How long a connection may take to be set up before it counts as failed
+const CONNECT_TIMEOUT_MS = 15000;
 
 /**
- * Converts a Base64 string to an ArrayBuffer.
+ * Parses a protobuf duration string such as `"10s"` or `"1.5s"`.
  *
- * @param {string} base64 - The Base64 encoded string.
- * @returns {ArrayBuffer} The ArrayBuffer containing the binary data.
+ * @param {string | undefined} duration - The duration string.
+ * @returns {number | null} The duration in milliseconds, or null if it could not be parsed.
  */
-function base64ToArrayBuffer(base64: string): ArrayBuffer {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes.buffer;
+function parseDurationMs(duration: string | undefined): number | null {
+  const seconds = duration ? parseFloat(duration) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
 }
 
+/**
+ * A fragment of live transcription received from the server.
+ */
+export type TranscriptionChunk = {
+  /**
+   * The transcribed text fragment. Fragments are incremental and should be
+   * appended to the previous ones for the same utterance.
+   */
+  text: string;
+  /**
+   * Whether the server marked the utterance as finished.
+   */
+  finished: boolean;
+};
+
+/**
+ * Options for creating a GenAILiveClient.
+ */
+export type LiveClientOptions = {
+  /**
+   * Overrides the API endpoint, e.g. `http://localhost:8765` for the offline
+   * mock server (`npm run mock-server`). Defaults to the `GEMINI_LIVE_BASE_URL`
+   * environment variable, or Google's endpoint if that is not set.
+   */
+  baseUrl?: string;
+  /**
+   * Supplies the API key or ephemeral token for each connection. Defaults to
+   * `getLiveCredentials`, which uses the token broker or the key from Settings.
+   * Not called when connecting to a `baseUrl` override.
+   */
+  credentials?: () => Promise<LiveCredentials>;
+};
+
+/**
+ * Per-connection options that are not part of the agent or user.
+ */
+export type ConnectOptions = {
+  /**
+   * Turns off server-side voice activity detection. The caller marks the
+   * user's turns with `sendActivityStart()` and `sendActivityEnd()` instead
+   * (push-to-talk).
+   */
+  manualActivity?: boolean;
+  /**
+   * How the agent replies. Defaults to `audioTranscript`.
+   */
+  responseMode?: ResponseMode;
+  /**
+   * What the agent remembers from earlier conversations, added to the
+   * system instruction.
+   */
+  memory?: {
+    summary: string;
+    facts: string[];
+  };
+};
+
 /**
  * Events emitted by the GenAILiveClient.
  */
 type LiveClientEvents = {
   /**
-   * Emitted when the connection is established.
+   * Emitted when the session is set up and ready for input.
    */
   open: () => void;
   /**
@@ -39,9 +108,46 @@ type LiveClientEvents = {
   error: (error: Error) => void;
   /**
    * Emitted when audio data is received from the model.
-   * @param {ArrayBuffer} buffer - The received audio data.
+   * @param {ArrayBuffer} buffer - The received audio data (16-bit mono PCM).
+   * @param {number} sampleRate - The sample rate of the audio, taken from its mime type.
+   */
+  audio: (buffer: ArrayBuffer, sampleRate: number) => void;
+  /**
+   * Emitted when a transcription fragment of the user's speech is received.
+   * @param {TranscriptionChunk} chunk - The transcription fragment.
+   */
+  inputTranscript: (chunk: TranscriptionChunk) => void;
+  /**
+   * Emitted when a transcription fragment of the model's speech is received.
+   * @param {TranscriptionChunk} chunk - The transcription fragment.
+   */
+  outputTranscript: (chunk: TranscriptionChunk) => void;
+  /**
+   * Emitted when a fragment of a text reply is received (`text` response mode).
+   * Fragments are incremental; the reply ends with `turnComplete`.
+   * @param {string} text - The text fragment.
+   */
+  text: (text: string) => void;
+  /**
+   * Emitted when the model has finished its turn.
+   */
+  turnComplete: () => void;
+  /**
+   * Emitted when the user interrupts the model (barge-in). Any audio still
+   * queued for playback is stale and should be discarded.
    */
-  audio: (buffer: ArrayBuffer) => void;
+  interrupted: () => void;
+  /**
+   * Emitted when the server announces it will close the connection soon.
+   * Call `reconnect()` to move to a new connection without losing the conversation.
+   * @param {number | null} timeLeftMs - Time until the server disconnects, if known.
+   */
+  goAway: (timeLeftMs: number | null) => void;
+  /**
+   * Emitted when the server reports token usage, usually once per model turn.
+   * @param {TokenUsage} usage - The tokens used since the previous report.
+   */
+  usage: (usage: TokenUsage) => void;
 };
 
 /**
@@ -51,26 +157,58 @@ type LiveClientEvents = {
  * and handles real-time responses.
  */
 export class GenAILiveClient extends EventEmitter<LiveClientEvents> {
-  private ai: GoogleGenAI;
+  private baseUrl: string | undefined;
+  private credentials: () => Promise<LiveCredentials>;
   // Note: Using 'any' because 'LiveSession' type is not exported by @google/genai
   private session: any | null = null;
+  private toolRegistry: ToolRegistry | null;
+  // Latest handle from `sessionResumptionUpdate`, reused on reconnect to keep the conversation
+  private resumptionHandle: string | null = null;
+  private resumed = false;
+  // Incremented for every connection so callbacks from a replaced session are ignored
+  private connectionId = 0;
+  private lastAgent: Agent | null = null;
+  private lastUser: { name: string; info: string } | null = null;
+  private lastOptions: ConnectOptions = {};
+  // Dev-only stats for outgoing mic audio, replacing per-chunk logging
+  private audioInputPerf = IS_DEV ? new PerfCounter('mic audio sent') : null;
 
   /**
    * Initializes the GenAI client.
    *
-   * @throws {Error} If the GEMINI_API_KEY environment variable is not set.
+   * @param {ToolRegistry} [toolRegistry] - The tools agents may call. Without a
+   * registry, tool calls from the model are ignored.
+   * @param {LiveClientOptions} [options] - Endpoint and credential overrides.
    */
-  constructor() {
+  constructor(toolRegistry?: ToolRegistry, options: LiveClientOptions = {}) {
     super();
-    const apiKey = process.env.GEMINI_API_KEY;
-    console.log('[GenAI] Initializing with API key:', apiKey ? '✓ Present' : '✗ Missing');
-    
-    if (!apiKey) {
-      const error = 'GEMINI_API_KEY environment variable not set';
-      console.error('[GenAI]', error);
-      throw new Error(error);
+    this.toolRegistry = toolRegistry ?? null;
+    this.baseUrl = options.baseUrl ?? (process.env.GEMINI_LIVE_BASE_URL || undefined);
+    this.credentials = options.credentials ?? getLiveCredentials;
+    if (this.baseUrl) {
+      console.log('[GenAI] Using endpoint override:', this.baseUrl);
     }
-    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  /**
+   * Creates the GenAI client for a new connection.
+   *
+   * Credentials are fetched for every connection, since a broker's tokens are
+   * short-lived and may only be used once.
+   *
+   * @private
+   * @param {boolean} needsPreviewApi - Whether the session uses features only the `v1alpha` API accepts.
+   * @returns {Promise<GoogleGenAI>} The client.
+   * @throws {Error} If there are no credentials, or the token broker fails.
+   */
+  private async createClient(needsPreviewApi: boolean): Promise<GoogleGenAI> {
+    if (this.baseUrl) {
+      // A local mock server does not check the key
+      return new GoogleGenAI({ apiKey: 'mock-api-key', httpOptions: { baseUrl: this.baseUrl } });
+    }
+    const credentials = await this.credentials();
+    const apiVersion = credentials.apiVersion ?? (needsPreviewApi ? 'v1alpha' : undefined);
+    return new GoogleGenAI({ apiKey: credentials.apiKey, httpOptions: apiVersion ? { apiVersion } : undefined });
   }
 
   /**
@@ -87,15 +225,138 @@ export class GenAILiveClient extends EventEmitter<LiveClientEvents> {
   /**
    * Handles an audio response part.
    *
-   * Decodes the Base64 audio data and emits an 'audio' event.
+   * Decodes the Base64 audio data and emits an 'audio' event with the
+   * sample rate given in the part's mime type.
    *
    * @private
    * @param {any} part - The audio response part.
    */
   private handleAudioPart(part: any): void {
-    console.log('Got audio response, size:', part.inlineData.data.length);
     const audioBuffer = base64ToArrayBuffer(part.inlineData.data);
-    this.emit('audio', audioBuffer);
+    this.emit('audio', audioBuffer, parseSampleRate(part.inlineData.mimeType));
+  }
+
+  /**
+   * Handles the server content of a Live API message.
+   *
+   * Plays back audio parts of the model turn, forwards input and output
+   * transcriptions, and signals interruptions and turn boundaries.
+   *
+   * @private
+   * @param {LiveServerContent} content - The server content.
+   */
+  private handleServerContent(content: LiveServerContent): void {
+    if (content.interrupted) {
+      this.emit('interrupted');
+    }
+
+    if (content.inputTranscription) {
+      this.emit('inputTranscript', {
+        text: content.inputTranscription.text ?? '',
+        finished: !!content.inputTranscription.finished,
+      });
+    }
+
+    if (content.outputTranscription) {
+      this.emit('outputTranscript', {
+        text: content.outputTranscription.text ?? '',
+        finished: !!content.outputTranscription.finished,
+      });
+    }
+
+    const parts = content.modelTurn?.parts;
+    if (Array.isArray(parts)) {
+      for (const part of parts) {
+        if (this.isAudioPart(part)) {
+          this.handleAudioPart(part);
+        } else if (part.text && !part.thought) {
+          this.emit('text', part.text);
+        }
+      }
+    }
+
+    if (content.turnComplete) {
+      this.emit('turnComplete');
+    }
+  }
+
+  /**
+   * Stores the latest session resumption handle.
+   *
+   * The server only sends a handle when the session can be resumed at that point
+   * (e.g. not while a tool call is pending), so a non-resumable update keeps
+   * the previous handle.
+   *
+   * @private
+   * @param {LiveServerSessionResumptionUpdate} update - The resumption update.
+   */
+  private handleResumptionUpdate(update: LiveServerSessionResumptionUpdate): void {
+    if (update.resumable && update.newHandle) {
+      this.resumptionHandle = update.newHandle;
+    }
+  }
+
+  /**
+   * Builds the part of the system instruction that recalls earlier conversations.
+   *
+   * @param {{ name: string }} user - The user information.
+   * @param {ConnectOptions['memory']} memory - The agent's memory, if any.
+   * @returns {string} The instruction text, or an empty string if there is nothing to recall.
+   */
+  private buildMemoryInstruction(user: { name: string }, memory: ConnectOptions['memory']): string {
+    if (!memory || (!memory.summary && memory.facts.length === 0)) {
+      return '';
+    }
+    const lines = [`You have talked with ${user.name} before.`];
+    if (memory.summary) {
+      lines.push(`Last time: ${memory.summary}`);
+    }
+    if (memory.facts.length) {
+      lines.push(`What you know about them:`, ...memory.facts.map((fact) => `- ${fact}`));
+    }
+    lines.push('Use this naturally when relevant; do not recite it.');
+    return lines.join('\n');
+  }
+
+  /**
+   * Builds the `tools` config for an agent from its enabled tool names.
+   *
+   * @private
+   * @param {Agent} agent - The agent configuration.
+   * @returns {Tool[] | undefined} The tools config, or undefined if the agent has no tools.
+   */
+  private buildTools(agent: Agent): Tool[] | undefined {
+    if (!this.toolRegistry || !agent.tools?.length) {
+      return undefined;
+    }
+    const functionDeclarations = this.toolRegistry.getDeclarations(agent.tools);
+    return functionDeclarations.length ? [{ functionDeclarations }] : undefined;
+  }
+
+  /**
+   * Handles a tool call request from the model.
+   *
+   * Executes each function call through the tool registry and sends the
+   * results back as a single `toolResponse`. Calls cancelled in the meantime
+   * are left out of the response.
+   *
+   * @private
+   * @param {LiveServerToolCall} toolCall - The tool call request.
+   */
+  private async handleToolCall(toolCall: LiveServerToolCall): Promise<void> {
+    const calls = toolCall.functionCalls ?? [];
+    if (!this.toolRegistry || calls.length === 0) {
+      return;
+    }
+
+    console.log('[GenAI] Tool call:', calls.map((call) => call.name).join(', '));
+    const registry = this.toolRegistry;
+    const responses = await Promise.all(calls.map((call) => registry.execute(call)));
+    const functionResponses = responses.filter((response) => response !== null);
+
+    if (functionResponses.length > 0 && this.session) {
+      this.session.sendToolResponse({ functionResponses });
+    }
   }
 
   /**
@@ -121,78 +382,169 @@ export class GenAILiveClient extends EventEmitter<LiveClientEvents> {
   /**
    * Connects to the Live API session.
    *
-   * @param {Agent} agent - The agent configuration (name, personality, voice).
+   * Session resumption is always requested. If a resumption handle from an
+   * earlier session is stored, the new session continues that conversation;
+   * call `clearResumption()` first to start a fresh one.
+   *
+   * Resolves once the server has set up the session. Failures before that are
+   * thrown: missing credentials, token broker failures, the server closing the
+   * connection (e.g. a rejected key), or no setup within `CONNECT_TIMEOUT_MS`.
+   * Later errors are emitted as `error` events.
+   *
+   * @param {Agent} agent - The agent configuration (name, persona, voice, tools, generation settings).
    * @param {{ name: string; info: string }} user - The user information.
+   * @param {ConnectOptions} [options] - Per-connection options.
    * @returns {Promise<void>}
+   * @throws {Error} If there are no credentials, the token broker fails, or the session can't be set up.
    */
-  async connect(agent: Agent, user: { name: string; info: string }) {
+  async connect(agent: Agent, user: { name: string; info: string }, options: ConnectOptions = {}) {
     if (this.session) {
       console.warn('Session already active.');
       return;
     }
 
-    const systemInstruction = `
-      You are ${agent.name}.
-      Your personality is: ${agent.personality}.
-      Your voice should be ${agent.voice.pitch} and ${agent.voice.style}.
-      
-      You are speaking to ${user.name}.
-      About them: ${user.info}.
-      
-      Engage in a natural, real-time conversation.
-      Keep your responses concise and conversational.
-    `;
+    this.lastAgent = agent;
+    this.lastUser = user;
+    this.lastOptions = options;
+    const connectionId = ++this.connectionId;
+    const isCurrent = () => connectionId === this.connectionId;
+    const handle = this.resumptionHandle;
+    let opened = false;
+
+    const systemInstruction = [buildSystemInstruction(agent, user), this.buildMemoryInstruction(user, options.memory)]
+      .filter(Boolean)
+      .join('\n\n');
+    const responseMode = options.responseMode ?? 'audioTranscript';
+    const isText = responseMode === 'text';
+    const generation = normalizeGenerationSettings(agent.generation);
+    const ai = await this.createClient(usesPreviewFeatures(generation));
+    if (!isCurrent()) return;
+
+    // Settled when the server completes setup, or the connection fails before that
+    let setupDone!: () => void;
+    let setupFailed!: (error: Error) => void;
+    const setup = new Promise<void>((resolve, reject) => {
+      setupDone = resolve;
+      setupFailed = reject;
+    });
+    // Opening the socket can hang when the API is unreachable
+    const timeout = setTimeout(
+      () => setupFailed(new Error(`The Live API did not answer within ${CONNECT_TIMEOUT_MS / 1000} seconds`)),
+      CONNECT_TIMEOUT_MS
+    );
 
     try {
-      this.session = await this.ai.live.connect({
-        model: MODEL,
-        config: {
-          systemInstruction,
-          responseModalities: [Modality.AUDIO]
-        },
-        callbacks: {
-          onopen: () => {
-            this.emit('open');
+      ai.live
+        .connect({
+          model: LIVE_MODEL,
+          config: {
+            ...buildGenerationConfig(generation, !!options.manualActivity),
+            systemInstruction,
+            responseModalities: [isText ? Modality.TEXT : Modality.AUDIO],
+            speechConfig: isText
+              ? undefined
+              : {
+                  voiceConfig: { prebuiltVoiceConfig: { voiceName: agent.voice.name } },
+                  languageCode: agent.voice.languageCode,
+                },
+            // Text replies need the user's speech transcribed to show both sides of the chat
+            inputAudioTranscription: responseMode === 'audio' ? undefined : {},
+            outputAudioTranscription: responseMode === 'audioTranscript' ? {} : undefined,
+            tools: this.buildTools(agent),
+            sessionResumption: handle ? { handle } : {},
           },
-          onmessage: (message: LiveServerMessage) => {
-            try {
-              if (!('response' in message) || !message.response) {
-                return;
+          callbacks: {
+            onmessage: (message: LiveServerMessage) => {
+              if (!isCurrent()) return;
+              try {
+                if (message.setupComplete && !opened) {
+                  opened = true;
+                  this.resumed = !!handle;
+                  if (handle) {
+                    console.log('[GenAI] Resuming previous session');
+                  }
+                  this.emit('open');
+                  setupDone();
+                }
+                if (message.sessionResumptionUpdate) {
+                  this.handleResumptionUpdate(message.sessionResumptionUpdate);
+                }
+                if (message.goAway) {
+                  const timeLeftMs = parseDurationMs(message.goAway.timeLeft);
+                  console.warn('[GenAI] Server will disconnect soon, time left:', message.goAway.timeLeft);
+                  this.emit('goAway', timeLeftMs);
+                }
+                if (message.usageMetadata) {
+                  this.emit('usage', usageFromMetadata(message.usageMetadata));
+                }
+                if (message.serverContent) {
+                  this.handleServerContent(message.serverContent);
+                }
+                if (message.toolCall) {
+                  this.handleToolCall(message.toolCall).catch((error) => {
+                    console.error('Error handling tool call:', error);
+                    this.emit('error', this.normalizeError(error));
+                  });
+                }
+                if (message.toolCallCancellation?.ids) {
+                  this.toolRegistry?.cancel(message.toolCallCancellation.ids);
+                }
+              } catch (error) {
+                console.error('Error processing message:', error);
+                this.emit('error', error instanceof Error ? error : new Error('Message processing failed'));
               }
-
-              const response = message.response as GenerateContentResponse;
-              const parts = response.candidates?.[0]?.content?.parts;
-
-              if (!parts || !Array.isArray(parts)) {
+            },
+            onclose: (e: CloseEvent) => {
+              if (!isCurrent()) return;
+              this.toolRegistry?.cancelAll();
+              this.session = null;
+              if (!opened) {
+                if (handle) {
+                  // The handle was rejected (e.g. expired); start fresh on the next attempt
+                  console.warn('[GenAI] Session resumption failed, next connection starts a new session');
+                  this.resumptionHandle = null;
+                }
+                setupFailed(new Error(`The Live API closed the connection${e.reason ? `: ${e.reason}` : ''}`));
                 return;
               }
+              this.emit('close');
+            },
+            onerror: (e: ErrorEvent) => {
+              if (!isCurrent()) return;
+              console.error('GenAI Live session error:', e);
+              console.error('Error details:', e.error, e.message, e.type);
 
-              for (const part of parts) {
-                if (this.isAudioPart(part)) {
-                  this.handleAudioPart(part);
-                }
+              const normalizedError = this.normalizeError(e);
+              this.session = null;
+              if (!opened) {
+                setupFailed(normalizedError);
+                return;
               }
-            } catch (error) {
-              console.error('Error processing message:', error);
-              this.emit('error', error instanceof Error ? error : new Error('Message processing failed'));
-            }
-          },
-          onclose: () => {
-            this.emit('close');
-            this.session = null;
+              this.emit('error', normalizedError);
+            },
           },
-          onerror: (e: ErrorEvent) => {
-            console.error('GenAI Live session error:', e);
-            console.error('Error details:', e.error, e.message, e.type);
-
-            const normalizedError = this.normalizeError(e);
-            this.emit('error', normalizedError);
-            this.session = null;
+        })
+        .then(
+          (session) => {
+            if (isCurrent()) {
+              this.session = session;
+            } else {
+              session.close();
+            }
           },
-        }
-      });
+          (error) => setupFailed(this.normalizeError(error))
+        );
+      await setup;
     } catch (error) {
-      this.emit('error', error as Error);
+      // A newer connection replaced this one
+      if (!isCurrent()) return;
+      // Ignore the failed connection's late callbacks
+      this.connectionId++;
+      this.session?.close();
+      this.session = null;
+      throw error;
+    } finally {
+      clearTimeout(timeout);
     }
   }
 
@@ -203,6 +555,34 @@ export class GenAILiveClient extends EventEmitter<LiveClientEvents> {
     this.session?.close();
   }
 
+  /**
+   * Moves to a new connection, resuming the current conversation.
+   *
+   * Used when the server sends `goAway`. The old session is closed without
+   * emitting `close`, so listeners only see the new session's `open`.
+   *
+   * @returns {Promise<void>}
+   */
+  async reconnect() {
+    if (!this.lastAgent || !this.lastUser) {
+      throw new Error('Cannot reconnect before connecting');
+    }
+    const previous = this.session;
+    this.session = null;
+    this.connectionId++;
+    this.toolRegistry?.cancelAll();
+    previous?.close();
+    await this.connect(this.lastAgent, this.lastUser, this.lastOptions);
+  }
+
+  /**
+   * Forgets the stored resumption handle so the next connection starts a new conversation.
+   */
+  clearResumption() {
+    this.resumptionHandle = null;
+    this.resumed = false;
+  }
+
   /**
    * Sends an initial text message to the model.
    *
@@ -220,25 +600,58 @@ export class GenAILiveClient extends EventEmitter<LiveClientEvents> {
   /**
    * Sends real-time audio input to the model.
    *
-   * @param {string} audioBase64 - The Base64 encoded audio data.
-   * @param {string} mimeType - The MIME type of the audio data.
+   * This is the only place mic audio is encoded: the binary frame is converted
+   * to Base64 once, as the Live API requires.
+   *
+   * @param {ArrayBuffer} audio - 16-bit mono PCM audio.
+   * @param {string} mimeType - The MIME type of the audio, including its rate (e.g. `audio/pcm;rate=16000`).
    */
-  sendRealtimeInput(audioBase64: string, mimeType: string) {
+  sendRealtimeInput(audio: ArrayBuffer, mimeType: string) {
     if (!this.session) {
-      console.warn('Cannot send audio - session not connected');
       return;
     }
     try {
-      console.log(`📤 Sending ${audioBase64.length} bytes of audio to AI`);
-      // Fix: Use sendRealtimeInput method for audio data
-      const audioBuffer = base64ToArrayBuffer(audioBase64);
-      this.session.sendRealtimeInput(audioBuffer);
-      console.log('✓ Audio sent successfully');
+      const start = performance.now();
+      this.session.sendRealtimeInput({ audio: { data: arrayBufferToBase64(audio), mimeType } });
+      this.audioInputPerf?.record(audio.byteLength, performance.now() - start);
     } catch (error) {
       console.error('✗ Failed to send audio:', error);
     }
   }
 
+  /**
+   * Sends a video frame (from the camera or a screen share) to the model.
+   *
+   * @param {string} imageBase64 - The Base64 encoded image.
+   * @param {string} [mimeType='image/jpeg'] - The MIME type of the image.
+   */
+  sendVideoFrame(imageBase64: string, mimeType = 'image/jpeg') {
+    if (!this.session) return;
+    try {
+      this.session.sendRealtimeInput({ video: { data: imageBase64, mimeType } });
+    } catch (error) {
+      console.error('✗ Failed to send video frame:', error);
+    }
+  }
+
+  /**
+   * Marks the start of the user's turn when connected with `manualActivity`.
+   * Audio sent until `sendActivityEnd()` is treated as one utterance.
+   */
+  sendActivityStart() {
+    if (!this.session) return;
+    this.session.sendRealtimeInput({ activityStart: {} });
+  }
+
+  /**
+   * Marks the end of the user's turn when connected with `manualActivity`,
+   * prompting the model to respond.
+   */
+  sendActivityEnd() {
+    if (!this.session) return;
+    this.session.sendRealtimeInput({ activityEnd: {} });
+  }
+
   /**
    * Checks if the client is currently connected.
    * @returns {boolean} True if connected, false otherwise.
@@ -246,4 +659,12 @@ export class GenAILiveClient extends EventEmitter<LiveClientEvents> {
   get isConnected(): boolean {
     return !!this.session;
   }
+
+  /**
+   * Whether the current session resumed an earlier conversation.
+   * @returns {boolean} True if the session was opened with a resumption handle.
+   */
+  get isResumedSession(): boolean {
+    return this.resumed;
+  }
 }
@@ -0,0 +1,65 @@
+/**
+ * Streaming sample-rate converter for mono audio.
+ *
+ * Uses linear interpolation and carries the fractional read position and the
+ * last sample across calls, so consecutive chunks join without clicks or drift.
+ * Without resampling, audio played at the wrong rate has pitch and speed artifacts.
+ */
+export class PcmResampler {
+  readonly sourceRate: number;
+  readonly targetRate: number;
+  private readonly step: number;
+  private position = 0;
+  private lastSample = 0;
+
+  /**
+   * Initializes the resampler.
+   *
+   * @param {number} sourceRate - The input sample rate (e.g. 24000).
+   * @param {number} targetRate - The output sample rate (e.g. 48000).
+   */
+  constructor(sourceRate: number, targetRate: number) {
+    this.sourceRate = sourceRate;
+    this.targetRate = targetRate;
+    this.step = sourceRate / targetRate;
+  }
+
+  /**
+   * Resamples the next chunk of the stream.
+   *
+   * @param {Float32Array} input - The input samples at `sourceRate`.
+   * @returns {Float32Array} The output samples at `targetRate`.
+   */
+  process(input: Float32Array): Float32Array {
+    if (this.sourceRate === this.targetRate || input.length === 0) {
+      return input;
+    }
+
+    const maxLength = Math.ceil((input.length - this.position) / this.step) + 1;
+    const output = new Float32Array(maxLength);
+    let count = 0;
+    let t = this.position;
+
+    // t may start in [-1, 0), interpolating from the previous chunk's last sample
+    while (t <= input.length - 1) {
+      const index = Math.floor(t);
+      const fraction = t - index;
+      const s0 = index < 0 ? this.lastSample : input[index];
+      const s1 = input[Math.min(index + 1, input.length - 1)];
+      output[count++] = s0 + (s1 - s0) * fraction;
+      t += this.step;
+    }
+
+    this.position = t - input.length;
+    this.lastSample = input[input.length - 1];
+    return output.subarray(0, count);
+  }
+
+  /**
+   * Clears the stream state, e.g. after playback was flushed.
+   */
+  reset(): void {
+    this.position = 0;
+    this.lastSample = 0;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Counts how often something happens, how much data it moves and how long it
+ * takes, and logs a summary at a fixed interval.
+ *
+ * Meant for development builds, to spot hot paths without logging every call.
+ */
+export class PerfCounter {
+  readonly label: string;
+  private readonly intervalMs: number;
+  private windowStart = performance.now();
+  private count = 0;
+  private bytes = 0;
+  private elapsedMs = 0;
+
+  /**
+   * Initializes the counter.
+   *
+   * @param {string} label - The name shown in the log (e.g. 'mic audio').
+   * @param {number} [intervalMs=5000] - How often to log, in milliseconds.
+   */
+  constructor(label: string, intervalMs = 5000) {
+    this.label = label;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Records one occurrence, logging a summary if the interval has passed.
+   *
+   * @param {number} bytes - The amount of data handled.
+   * @param {number} elapsedMs - How long it took.
+   */
+  record(bytes: number, elapsedMs: number) {
+    this.count++;
+    this.bytes += bytes;
+    this.elapsedMs += elapsedMs;
+
+    const now = performance.now();
+    const windowMs = now - this.windowStart;
+    if (windowMs < this.intervalMs) {
+      return;
+    }
+
+    const seconds = windowMs / 1000;
+    console.debug(
+      `[perf] ${this.label}: ${(this.count / seconds).toFixed(1)}/s, ` +
+        `${(this.bytes / 1024 / seconds).toFixed(1)} KB/s, ` +
+        `${(this.elapsedMs / this.count).toFixed(3)} ms avg`
+    );
+    this.windowStart = now;
+    this.count = 0;
+    this.bytes = 0;
+    this.elapsedMs = 0;
+  }
+}
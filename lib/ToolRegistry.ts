@@ -0,0 +1,145 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse } from '@google/genai';
+
+/**
+ * Context passed to a tool handler when it is invoked.
+ */
+export type ToolContext = {
+  /**
+   * Aborted when the server cancels the tool call (`toolCallCancellation`)
+   * or the session closes. Long-running handlers should stop early.
+   */
+  signal: AbortSignal;
+};
+
+/**
+ * A function the model can call during a live session.
+ */
+export type LiveTool = {
+  /**
+   * The unique tool name. Must match `declaration.name`.
+   */
+  name: string;
+  /**
+   * A short, human-readable label shown in the agent editor.
+   */
+  label: string;
+  /**
+   * The function declaration (name, description and JSON-schema parameters)
+   * sent to the model.
+   */
+  declaration: FunctionDeclaration;
+  /**
+   * Executes the tool.
+   * @param {Record<string, unknown>} args - The arguments supplied by the model.
+   * @param {ToolContext} context - The invocation context.
+   * @returns {Promise<unknown>} The result, sent back to the model as `output`.
+   */
+  handler: (args: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+};
+
+/**
+ * Registry of tools available to live sessions.
+ *
+ * Holds the tool definitions, builds the function declarations for a given
+ * agent, and executes incoming function calls with cancellation support.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, LiveTool>();
+  private pending = new Map<string, AbortController>();
+
+  /**
+   * Registers a tool, replacing any existing tool with the same name.
+   *
+   * @param {LiveTool} tool - The tool to register.
+   * @returns {this} The registry, for chaining.
+   */
+  register(tool: LiveTool): this {
+    if (tool.declaration.name !== tool.name) {
+      throw new Error(`Tool name "${tool.name}" does not match its declaration "${tool.declaration.name}"`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  /**
+   * Lists all registered tools.
+   *
+   * @returns {LiveTool[]} The registered tools.
+   */
+  list(): LiveTool[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * Builds the function declarations for the given tool names.
+   *
+   * Unknown names are ignored.
+   *
+   * @param {string[]} names - The names of the tools to include.
+   * @returns {FunctionDeclaration[]} The matching function declarations.
+   */
+  getDeclarations(names: string[]): FunctionDeclaration[] {
+    return names
+      .map((name) => this.tools.get(name)?.declaration)
+      .filter((declaration): declaration is FunctionDeclaration => !!declaration);
+  }
+
+  /**
+   * Executes a function call from the model.
+   *
+   * Handler errors and unknown tools are reported back to the model as an
+   * `error` response rather than thrown.
+   *
+   * @param {FunctionCall} call - The function call to execute.
+   * @returns {Promise<FunctionResponse | null>} The response to send back, or null
+   * if the call was cancelled before it finished.
+   */
+  async execute(call: FunctionCall): Promise<FunctionResponse | null> {
+    const name = call.name ?? '';
+    const id = call.id ?? name;
+    const tool = this.tools.get(name);
+
+    if (!tool) {
+      return { id: call.id, name, response: { error: `Unknown tool: ${name}` } };
+    }
+
+    const controller = new AbortController();
+    this.pending.set(id, controller);
+
+    try {
+      const output = await tool.handler(call.args ?? {}, { signal: controller.signal });
+      if (controller.signal.aborted) {
+        return null;
+      }
+      return { id: call.id, name, response: { output } };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return null;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Tools] ${name} failed:`, message);
+      return { id: call.id, name, response: { error: message } };
+    } finally {
+      this.pending.delete(id);
+    }
+  }
+
+  /**
+   * Cancels in-flight function calls.
+   *
+   * @param {string[]} ids - The ids of the calls to cancel.
+   */
+  cancel(ids: string[]): void {
+    for (const id of ids) {
+      this.pending.get(id)?.abort();
+      this.pending.delete(id);
+    }
+  }
+
+  /**
+   * Cancels every in-flight function call.
+   */
+  cancelAll(): void {
+    this.cancel([...this.pending.keys()]);
+  }
+}
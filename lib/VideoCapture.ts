@@ -0,0 +1,206 @@
+import { EventEmitter } from 'eventemitter3';
+
+/**
+ * Where video frames are captured from.
+ * - `camera`: the user's webcam.
+ * - `screen`: a screen, window or tab picked by the user.
+ */
+export type VideoSource = 'camera' | 'screen';
+
+/**
+ * Options for capturing video frames.
+ */
+export type VideoCaptureOptions = {
+  /**
+   * Frames captured per second. The Live API processes about one frame per
+   * second, so higher rates mostly add bandwidth.
+   */
+  frameRate: number;
+  /**
+   * The longest side of a frame in pixels. Larger frames are scaled down.
+   */
+  maxSize: number;
+  /**
+   * JPEG quality between 0 and 1.
+   */
+  quality: number;
+};
+
+const DEFAULT_OPTIONS: VideoCaptureOptions = {
+  frameRate: 1,
+  maxSize: 768,
+  quality: 0.7,
+};
+
+/**
+ * Events emitted by the VideoCapture.
+ */
+type VideoCaptureEvents = {
+  /**
+   * Emitted for each captured frame.
+   * @param {string} base64 - The frame as a Base64 encoded JPEG.
+   */
+  frame: (base64: string) => void;
+  /**
+   * Emitted when the source stops on its own, e.g. when the user ends
+   * screen sharing from the browser's controls.
+   */
+  ended: () => void;
+  /**
+   * Emitted when an error occurs while capturing.
+   * @param {Error} error - The error object.
+   */
+  error: (error: Error) => void;
+};
+
+/**
+ * Class responsible for capturing frames from the webcam or the screen.
+ *
+ * Frames are taken at a fixed rate, scaled down to `maxSize` and JPEG encoded,
+ * ready to be sent as realtime video input. Emits 'frame' events with Base64
+ * encoded images.
+ */
+export class VideoCapture extends EventEmitter<VideoCaptureEvents> {
+  private options: VideoCaptureOptions;
+  private stream: MediaStream | null = null;
+  private video: HTMLVideoElement | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  // Incremented by start() and stop() so a start() that is still waiting for permission can tell it was cancelled
+  private startId = 0;
+
+  /**
+   * Initializes the capture.
+   *
+   * @param {Partial<VideoCaptureOptions>} [options] - Overrides for the default options.
+   */
+  constructor(options: Partial<VideoCaptureOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * The stream being captured, e.g. for a preview. Null when stopped.
+   */
+  get mediaStream(): MediaStream | null {
+    return this.stream;
+  }
+
+  /**
+   * Starts capturing from a source, replacing any current one.
+   *
+   * Asks for camera or screen permission as needed.
+   *
+   * @param {VideoSource} source - The source to capture.
+   * @returns {Promise<void>}
+   */
+  async start(source: VideoSource) {
+    this.stop();
+    const startId = this.startId;
+
+    const stream =
+      source === 'camera'
+        ? await navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1280 }, height: { ideal: 720 } } })
+        : await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+
+    if (startId !== this.startId) {
+      // stop() was called while waiting for permission
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    this.stream = stream;
+    stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+      if (this.stream !== stream) return;
+      this.stop();
+      this.emit('ended');
+    });
+
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    this.video = video;
+    try {
+      await video.play();
+    } catch (error) {
+      stream.getTracks().forEach((track) => track.stop());
+      if (startId !== this.startId) return;
+      this.stop();
+      throw error;
+    }
+
+    if (startId !== this.startId) {
+      // stop() was called while the video was starting
+      return;
+    }
+
+    this.canvas = document.createElement('canvas');
+    this.scheduleFrames();
+    console.log(`✓ Capturing ${source} at ${this.options.frameRate} fps`);
+  }
+
+  /**
+   * Changes the capture rate, taking effect immediately.
+   *
+   * @param {number} frameRate - Frames per second.
+   */
+  setFrameRate(frameRate: number) {
+    this.options.frameRate = frameRate;
+    if (this.timer) {
+      this.scheduleFrames();
+    }
+  }
+
+  /**
+   * Stops capturing and releases the camera or screen.
+   */
+  stop() {
+    this.startId++;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    if (this.video) {
+      this.video.srcObject = null;
+      this.video = null;
+    }
+    this.canvas = null;
+  }
+
+  /**
+   * (Re)starts the frame timer at the current frame rate.
+   */
+  private scheduleFrames() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    this.timer = setInterval(() => this.captureFrame(), 1000 / this.options.frameRate);
+  }
+
+  /**
+   * Draws the current video frame, scaled down, and emits it as a JPEG.
+   */
+  private captureFrame() {
+    const { video, canvas } = this;
+    if (!video || !canvas || !video.videoWidth || !video.videoHeight) {
+      return;
+    }
+
+    const scale = Math.min(1, this.options.maxSize / Math.max(video.videoWidth, video.videoHeight));
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      this.emit('error', new Error('Canvas 2D context is not available'));
+      return;
+    }
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    const dataUrl = canvas.toDataURL('image/jpeg', this.options.quality);
+    this.emit('frame', dataUrl.slice(dataUrl.indexOf(',') + 1));
+  }
+}
@@ -0,0 +1,239 @@
+import { Agent, GenerationSettings, NudgeSettings } from '../types';
+import { isPrebuiltVoice, normalizeVoice } from './voices';
+import { normalizePersona, personaFromText } from './persona';
+import { normalizeNudgeSettings } from './EngagementScheduler';
+import { normalizeAvatar, withoutUploadedImages } from './avatar';
+import { normalizeGenerationSettings } from './generation';
+
+/**
+ * Identifies a JSON file as an agent bundle.
+ */
+export const AGENT_BUNDLE_FORMAT = 'echosphere-agent-bundle';
+
+/**
+ * The current bundle version. Bundles from newer versions are rejected.
+ * - 1: voices as abstract `pitch`/`style`.
+ * - 2: voices as prebuilt voice `name` and `languageCode`.
+ * - 3: a structured `persona` instead of free-text `personality`.
+ */
+export const AGENT_BUNDLE_VERSION = 3;
+
+/**
+ * The URL fragment key used by shareable agent links (`#agent=...`).
+ */
+export const AGENT_LINK_FRAGMENT_KEY = 'agent';
+
+/**
+ * A versioned, shareable collection of agents.
+ */
+export type AgentBundle = {
+  /**
+   * Always `AGENT_BUNDLE_FORMAT`.
+   */
+  format: typeof AGENT_BUNDLE_FORMAT;
+  /**
+   * The bundle version the file was written with.
+   */
+  version: number;
+  /**
+   * When the bundle was created, as an ISO 8601 string.
+   */
+  exportedAt: string;
+  /**
+   * The exported agents, with every field they carry.
+   */
+  agents: Agent[];
+};
+
+/**
+ * Creates a bundle from one or more agents.
+ *
+ * Agents are copied whole, so fields added to `Agent` later are exported too.
+ *
+ * @param {Agent[]} agents - The agents to export.
+ * @returns {AgentBundle} The bundle.
+ */
+export function createAgentBundle(agents: Agent[]): AgentBundle {
+  return {
+    format: AGENT_BUNDLE_FORMAT,
+    version: AGENT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    agents: agents.map((agent) => structuredClone(agent)),
+  };
+}
+
+/**
+ * Validates a single agent from a bundle.
+ *
+ * Unknown extra fields are kept so bundles from newer builds keep their data.
+ * Legacy `pitch`/`style` voices from version 1 bundles are mapped to prebuilt voices,
+ * and free-text personalities from version 1 and 2 bundles become persona notes.
+ *
+ * @param {unknown} value - The candidate agent.
+ * @param {number} index - The agent's position, used in error messages.
+ * @returns {Agent} The validated agent.
+ * @throws {Error} If the agent is malformed.
+ */
+function validateAgent(value: unknown, index: number): Agent {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid agent at position ${index + 1}: ${reason}`);
+  };
+
+  if (typeof value !== 'object' || value === null) {
+    return fail('not an object');
+  }
+  const agent = value as Record<string, unknown>;
+
+  if (typeof agent.name !== 'string' || !agent.name.trim()) fail('missing name');
+  const hasPersona = typeof agent.persona === 'object' && agent.persona !== null;
+  if (!hasPersona && typeof agent.personality !== 'string') fail('missing persona');
+  if (typeof agent.bodyColor !== 'string' || !/^#[0-9a-f]{3,8}$/i.test(agent.bodyColor)) fail('invalid color');
+
+  const voice = agent.voice as Record<string, unknown> | undefined;
+  if (typeof voice !== 'object' || voice === null) fail('missing voice');
+  if (typeof voice!.name === 'string' && !isPrebuiltVoice(voice!.name)) fail(`unknown voice "${voice!.name}"`);
+
+  if (agent.tools !== undefined && (!Array.isArray(agent.tools) || agent.tools.some((t) => typeof t !== 'string'))) {
+    fail('tools must be a list of names');
+  }
+
+  const { personality, ...rest } = agent;
+  return {
+    ...(rest as unknown as Agent),
+    id: typeof agent.id === 'string' ? agent.id : '',
+    voice: normalizeVoice(voice),
+    persona: hasPersona ? normalizePersona(agent.persona) : personaFromText(personality as string),
+    ...(agent.nudges !== undefined && { nudges: normalizeNudgeSettings(agent.nudges as Partial<NudgeSettings>) }),
+    ...(agent.avatar !== undefined && { avatar: normalizeAvatar(agent.avatar) }),
+    ...(agent.generation !== undefined && {
+      generation: normalizeGenerationSettings(agent.generation as Partial<GenerationSettings>),
+    }),
+  };
+}
+
+/**
+ * Parses and validates an agent bundle.
+ *
+ * @param {unknown} data - The parsed JSON, or a JSON string.
+ * @returns {Agent[]} The agents in the bundle. IDs are as exported and may collide
+ * with existing agents; the agent store resolves that on import.
+ * @throws {Error} If the data is not a valid bundle.
+ */
+export function parseAgentBundle(data: unknown): Agent[] {
+  let bundle = data;
+  if (typeof bundle === 'string') {
+    try {
+      bundle = JSON.parse(bundle);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+  }
+
+  if (typeof bundle !== 'object' || bundle === null) {
+    throw new Error('Not an agent bundle');
+  }
+  const { format, version, agents } = bundle as Partial<AgentBundle>;
+
+  if (format !== AGENT_BUNDLE_FORMAT) {
+    throw new Error('Not an agent bundle');
+  }
+  if (typeof version !== 'number' || version < 1) {
+    throw new Error('Agent bundle has no valid version');
+  }
+  if (version > AGENT_BUNDLE_VERSION) {
+    throw new Error(`Agent bundle version ${version} is newer than this app supports (${AGENT_BUNDLE_VERSION})`);
+  }
+  if (!Array.isArray(agents) || agents.length === 0) {
+    throw new Error('Agent bundle contains no agents');
+  }
+
+  return agents.map(validateAgent);
+}
+
+/**
+ * Encodes bytes as unpadded base64url.
+ *
+ * @param {Uint8Array} bytes - The bytes to encode.
+ * @returns {string} The base64url string.
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes unpadded base64url.
+ *
+ * @param {string} text - The base64url string.
+ * @returns {Uint8Array} The decoded bytes.
+ */
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Pipes bytes through a compression or decompression stream.
+ *
+ * @param {Uint8Array} bytes - The input bytes.
+ * @param {CompressionStream | DecompressionStream} transform - The stream to use.
+ * @returns {Promise<Uint8Array>} The output bytes.
+ */
+async function transformBytes(
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Encodes an agent as a compact URL fragment value.
+ *
+ * The agent is stored as a single-agent bundle, deflated and base64url-encoded.
+ * The ID is dropped since the importer assigns a new one, and so are uploaded
+ * avatar images, which would make the link far too long.
+ *
+ * @param {Agent} agent - The agent to share.
+ * @returns {Promise<string>} The fragment value (without `#agent=`).
+ */
+export async function encodeAgentFragment(agent: Agent): Promise<string> {
+  const { id: _id, ...shared } = agent;
+  const avatar = agent.avatar && withoutUploadedImages(agent.avatar);
+  const bundle = createAgentBundle([{ ...shared, id: '', ...(avatar && { avatar }) }]);
+  const json = new TextEncoder().encode(JSON.stringify(bundle));
+  return toBase64Url(await transformBytes(json, new CompressionStream('deflate-raw')));
+}
+
+/**
+ * Decodes an agent from a URL fragment value created by `encodeAgentFragment`.
+ *
+ * @param {string} value - The fragment value (without `#agent=`).
+ * @returns {Promise<Agent>} The decoded agent.
+ * @throws {Error} If the value is not a valid shared agent.
+ */
+export async function decodeAgentFragment(value: string): Promise<Agent> {
+  let json: string;
+  try {
+    const bytes = await transformBytes(fromBase64Url(value), new DecompressionStream('deflate-raw'));
+    json = new TextDecoder().decode(bytes);
+  } catch {
+    throw new Error('Shared agent link is corrupted');
+  }
+  return parseAgentBundle(json)[0];
+}
+
+/**
+ * Builds a shareable link that loads the agent when opened.
+ *
+ * @param {Agent} agent - The agent to share.
+ * @returns {Promise<string>} The link, based on the current page URL.
+ */
+export async function createAgentShareLink(agent: Agent): Promise<string> {
+  const url = new URL(window.location.href);
+  url.hash = `${AGENT_LINK_FRAGMENT_KEY}=${await encodeAgentFragment(agent)}`;
+  return url.toString();
+}
@@ -0,0 +1,53 @@
+/**
+ * Sample rate assumed for model audio that doesn't specify one.
+ * Gemini's native audio output is 24 kHz 16-bit mono PCM.
+ */
+export const DEFAULT_OUTPUT_SAMPLE_RATE = 24000;
+
+/**
+ * Converts an ArrayBuffer to a Base64 string.
+ *
+ * Bytes are converted in chunks to stay within the argument limit of `String.fromCharCode`.
+ *
+ * @param {ArrayBuffer} buffer - The buffer to convert.
+ * @returns {string} The Base64 encoded string.
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  const chunkSize = 8192;
+
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, Math.min(i + chunkSize, bytes.length)));
+  }
+
+  return btoa(binary);
+}
+
+/**
+ * Converts a Base64 string to an ArrayBuffer.
+ *
+ * @param {string} base64 - The Base64 encoded string.
+ * @returns {ArrayBuffer} The ArrayBuffer containing the binary data.
+ */
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Reads the sample rate from a PCM mime type such as `audio/pcm;rate=24000`.
+ *
+ * @param {string} mimeType - The mime type of the audio part.
+ * @returns {number} The sample rate, or the default output rate if none is given.
+ */
+export function parseSampleRate(mimeType: string): number {
+  const match = /rate=(\d+)/i.exec(mimeType);
+  const rate = match ? parseInt(match[1], 10) : NaN;
+  return rate > 0 ? rate : DEFAULT_OUTPUT_SAMPLE_RATE;
+}
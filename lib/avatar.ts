@@ -0,0 +1,120 @@
+import { Avatar, AvatarAccessory, AvatarBackground, AvatarKind, EyeStyle, SpriteImages } from '../types';
+
+/**
+ * The avatar agents have unless they choose another: the plain canvas face.
+ */
+export const DEFAULT_AVATAR: Avatar = {
+  kind: 'face',
+  pack: 'blob',
+  eyeStyle: 'round',
+  accessory: 'none',
+  background: 'none',
+  sprite: { idle: '', talking: '', blinking: '' },
+};
+
+/**
+ * Labels for the avatar kinds, in the order they are offered.
+ */
+export const AVATAR_KIND_LABELS: Record<AvatarKind, string> = {
+  face: 'Classic face',
+  character: 'Character',
+  sprite: 'Image sprite',
+};
+
+/**
+ * Labels for the eye styles, in the order they are offered.
+ */
+export const EYE_STYLE_LABELS: Record<EyeStyle, string> = {
+  round: 'Round',
+  oval: 'Oval',
+  sleepy: 'Sleepy',
+  sparkle: 'Sparkly',
+};
+
+/**
+ * Labels for the accessories, in the order they are offered.
+ */
+export const ACCESSORY_LABELS: Record<AvatarAccessory, string> = {
+  none: 'None',
+  glasses: 'Glasses',
+  hat: 'Top hat',
+  bow: 'Bow',
+  headphones: 'Headphones',
+};
+
+/**
+ * Labels for the backgrounds, in the order they are offered.
+ */
+export const BACKGROUND_LABELS: Record<AvatarBackground, string> = {
+  none: 'None',
+  glow: 'Glow',
+  gradient: 'Gradient',
+  stars: 'Stars',
+};
+
+/**
+ * Uploaded sprite images are scaled down to fit this many pixels on each side,
+ * about the size the avatar is shown at.
+ */
+export const SPRITE_IMAGE_MAX_SIZE = 400;
+
+/**
+ * The largest uploaded sprite image kept once scaled down, in bytes of data URL.
+ * Uploads are stored with the agent in local storage, whose quota is only a few
+ * megabytes for the whole app.
+ */
+export const MAX_SPRITE_IMAGE_BYTES = 100 * 1024;
+
+/**
+ * Picks a value from a set of options.
+ *
+ * @param {unknown} value - The candidate value.
+ * @param {Record<T, string>} options - The options, keyed by value.
+ * @param {T} fallback - The value used when the candidate is not an option.
+ * @returns {T} The value.
+ */
+function pick<T extends string>(value: unknown, options: Record<T, string>, fallback: T): T {
+  return typeof value === 'string' && value in options ? (value as T) : fallback;
+}
+
+/**
+ * Normalizes stored or imported avatar data, falling back to the defaults for
+ * missing or malformed fields.
+ *
+ * @param {unknown} value - The avatar data.
+ * @returns {Avatar} The avatar.
+ */
+export function normalizeAvatar(value: unknown): Avatar {
+  if (typeof value !== 'object' || value === null) {
+    return DEFAULT_AVATAR;
+  }
+  const avatar = value as Record<string, unknown>;
+  const sprite = (typeof avatar.sprite === 'object' && avatar.sprite !== null ? avatar.sprite : {}) as Record<string, unknown>;
+  const image = (field: unknown) => (typeof field === 'string' ? field.trim() : '');
+
+  return {
+    kind: pick(avatar.kind, AVATAR_KIND_LABELS, DEFAULT_AVATAR.kind),
+    pack: typeof avatar.pack === 'string' && avatar.pack ? avatar.pack : DEFAULT_AVATAR.pack,
+    eyeStyle: pick(avatar.eyeStyle, EYE_STYLE_LABELS, DEFAULT_AVATAR.eyeStyle),
+    accessory: pick(avatar.accessory, ACCESSORY_LABELS, DEFAULT_AVATAR.accessory),
+    background: pick(avatar.background, BACKGROUND_LABELS, DEFAULT_AVATAR.background),
+    sprite: { idle: image(sprite.idle), talking: image(sprite.talking), blinking: image(sprite.blinking) },
+  };
+}
+
+/**
+ * Drops uploaded sprite images, which would make share links far too long.
+ * Images given by URL are kept.
+ *
+ * @param {Avatar} avatar - The avatar.
+ * @returns {Avatar} The avatar without data URL images.
+ */
+export function withoutUploadedImages(avatar: Avatar): Avatar {
+  const keep = (image: string) => (image.startsWith('data:') ? '' : image);
+  const sprite: SpriteImages = {
+    idle: keep(avatar.sprite.idle),
+    talking: keep(avatar.sprite.talking),
+    blinking: keep(avatar.sprite.blinking),
+  };
+  return { ...avatar, sprite };
+}
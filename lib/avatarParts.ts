@@ -0,0 +1,288 @@
+import { AvatarAccessory, EyeStyle } from '../types';
+import { AvatarFrame } from './AvatarAnimator';
+
+/**
+ * Where the features sit on an avatar's head, in the renderer's units.
+ */
+export type FaceLayout = {
+  /**
+   * The horizontal center of the face.
+   */
+  centerX: number;
+  /**
+   * The vertical center of the head.
+   */
+  headCenterY: number;
+  /**
+   * Half the head's width.
+   */
+  headRadius: number;
+  /**
+   * The top of the head, where hats and bows sit.
+   */
+  headTop: number;
+  /**
+   * The height of the eyes.
+   */
+  eyeY: number;
+  /**
+   * The distance from the center to each eye.
+   */
+  eyeSpacing: number;
+  /**
+   * The radius of a neutral eye.
+   */
+  eyeRadius: number;
+  /**
+   * The height of the mouth.
+   */
+  mouthY: number;
+  /**
+   * The width of a neutral mouth.
+   */
+  mouthWidth: number;
+  /**
+   * How far the mouth opens at most.
+   */
+  mouthMaxOpen: number;
+  /**
+   * The stroke width for brows and lips.
+   */
+  lineWidth: number;
+};
+
+/**
+ * One shape of an avatar, as an SVG path. Canvas renderers draw it with `Path2D`.
+ */
+export type AvatarPart = {
+  /**
+   * The SVG path data.
+   */
+  d: string;
+  /**
+   * The fill color, if filled.
+   */
+  fill?: string;
+  /**
+   * The stroke color, if stroked.
+   */
+  stroke?: string;
+  /**
+   * The stroke width.
+   */
+  lineWidth?: number;
+};
+
+/**
+ * The color of the eyes, brows and mouth.
+ */
+const FEATURE_COLOR = 'white';
+
+/**
+ * The color of pupils.
+ */
+const PUPIL_COLOR = 'rgba(0, 0, 0, 0.75)';
+
+/**
+ * Colors for the accessories.
+ */
+const ACCESSORY_COLORS = { dark: '#1f2937', bow: '#ec4899' };
+
+/**
+ * Builds the path of an ellipse.
+ *
+ * @param {number} cx - The center's x.
+ * @param {number} cy - The center's y.
+ * @param {number} rx - The horizontal radius.
+ * @param {number} ry - The vertical radius.
+ * @returns {string} The path data.
+ */
+function ellipse(cx: number, cy: number, rx: number, ry: number): string {
+  return `M ${cx - rx} ${cy} a ${rx} ${ry} 0 1 0 ${2 * rx} 0 a ${rx} ${ry} 0 1 0 ${-2 * rx} 0 Z`;
+}
+
+/**
+ * Builds the path of a rectangle.
+ *
+ * @param {number} x - The left edge.
+ * @param {number} y - The top edge.
+ * @param {number} width - The width.
+ * @param {number} height - The height.
+ * @returns {string} The path data.
+ */
+function rect(x: number, y: number, width: number, height: number): string {
+  return `M ${x} ${y} h ${width} v ${height} h ${-width} Z`;
+}
+
+/**
+ * Builds the eyes, with pupils following the gaze and lids closing to blink.
+ *
+ * @param {AvatarFrame} frame - The animation frame.
+ * @param {FaceLayout} layout - The face layout.
+ * @param {EyeStyle} style - The eye style.
+ * @returns {AvatarPart[]} The eye parts.
+ */
+function eyeParts(frame: AvatarFrame, layout: FaceLayout, style: EyeStyle): AvatarPart[] {
+  const radius = layout.eyeRadius * frame.expression.eyeScale;
+  // Sleepy eyes are half closed even between blinks
+  const openness = style === 'sleepy' ? frame.eyeOpen * 0.5 : frame.eyeOpen;
+  const height = radius * (style === 'oval' ? 1.35 : 1);
+  const parts: AvatarPart[] = [];
+
+  for (const side of [-1, 1]) {
+    const x = layout.centerX + side * layout.eyeSpacing;
+    parts.push({ d: ellipse(x, layout.eyeY, radius, Math.max(radius * 0.08, height * openness)), fill: FEATURE_COLOR });
+    if (frame.eyeOpen <= 0.3) {
+      continue;
+    }
+
+    const pupilRadius = radius * (style === 'sparkle' ? 0.7 : 0.45);
+    const reach = radius - pupilRadius;
+    const pupilX = x + frame.gaze.x * reach;
+    const pupilY = layout.eyeY + frame.gaze.y * reach * openness;
+    parts.push({ d: ellipse(pupilX, pupilY, pupilRadius, Math.min(pupilRadius, height * openness)), fill: PUPIL_COLOR });
+    if (style === 'sparkle') {
+      parts.push({ d: ellipse(pupilX - pupilRadius * 0.35, pupilY - pupilRadius * 0.35, pupilRadius * 0.25, pupilRadius * 0.25), fill: FEATURE_COLOR });
+      parts.push({ d: ellipse(pupilX + pupilRadius * 0.3, pupilY + pupilRadius * 0.3, pupilRadius * 0.12, pupilRadius * 0.12), fill: FEATURE_COLOR });
+    }
+  }
+  return parts;
+}
+
+/**
+ * Builds the brows, which rise with the expression and drop at the inner end
+ * when furrowed.
+ *
+ * @param {AvatarFrame} frame - The animation frame.
+ * @param {FaceLayout} layout - The face layout.
+ * @returns {AvatarPart[]} The brow parts.
+ */
+function browParts(frame: AvatarFrame, layout: FaceLayout): AvatarPart[] {
+  const { brow, eyeScale } = frame.expression;
+  const radius = layout.eyeRadius * eyeScale;
+  const y = layout.eyeY - radius * (1.8 + brow * 0.8);
+  const furrow = Math.max(0, -brow) * radius * 0.8;
+
+  return [-1, 1].map((side) => {
+    const x = layout.centerX + side * layout.eyeSpacing;
+    return {
+      d: `M ${x - side * radius} ${y + furrow} L ${x + side * radius} ${y}`,
+      stroke: FEATURE_COLOR,
+      lineWidth: layout.lineWidth,
+    };
+  });
+}
+
+/**
+ * Builds the mouth: the corners lift with a smile and the lips part with the viseme.
+ *
+ * @param {AvatarFrame} frame - The animation frame.
+ * @param {FaceLayout} layout - The face layout.
+ * @returns {AvatarPart} The mouth part.
+ */
+function mouthPart(frame: AvatarFrame, layout: FaceLayout): AvatarPart {
+  const { mouth, expression } = frame;
+  const width = layout.mouthWidth * (0.6 + 0.8 * mouth.width) * (1 - 0.35 * mouth.round);
+  const open = Math.max(layout.lineWidth, mouth.open * layout.mouthMaxOpen);
+  const left = layout.centerX - width / 2;
+  const right = layout.centerX + width / 2;
+  const cornerY = layout.mouthY - expression.smile * layout.mouthMaxOpen / 6;
+  const topY = layout.mouthY - open / 2;
+  const bottomY = layout.mouthY + open / 2 + Math.max(0, expression.smile) * layout.mouthMaxOpen / 9;
+  // Control points chosen so each lip's midpoint lands on topY / bottomY
+  return {
+    d: `M ${left} ${cornerY} Q ${layout.centerX} ${2 * topY - cornerY} ${right} ${cornerY} Q ${layout.centerX} ${2 * bottomY - cornerY} ${left} ${cornerY} Z`,
+    fill: FEATURE_COLOR,
+    stroke: FEATURE_COLOR,
+    lineWidth: layout.lineWidth,
+  };
+}
+
+/**
+ * Builds an accessory.
+ *
+ * @param {AvatarAccessory} accessory - The accessory.
+ * @param {AvatarFrame} frame - The animation frame.
+ * @param {FaceLayout} layout - The face layout.
+ * @returns {AvatarPart[]} The accessory parts, drawn over the face.
+ */
+function accessoryParts(accessory: AvatarAccessory, frame: AvatarFrame, layout: FaceLayout): AvatarPart[] {
+  const { centerX, headTop, headRadius, eyeY, eyeSpacing, lineWidth } = layout;
+  const lensRadius = layout.eyeRadius * 2;
+
+  switch (accessory) {
+    case 'glasses':
+      return [
+        ...[-1, 1].map((side) => ({
+          d: ellipse(centerX + side * eyeSpacing, eyeY, lensRadius, lensRadius),
+          stroke: ACCESSORY_COLORS.dark,
+          lineWidth,
+        })),
+        {
+          d: `M ${centerX - eyeSpacing + lensRadius} ${eyeY} L ${centerX + eyeSpacing - lensRadius} ${eyeY}`,
+          stroke: ACCESSORY_COLORS.dark,
+          lineWidth,
+        },
+      ];
+    case 'hat': {
+      const crownWidth = headRadius * 0.9;
+      const crownHeight = headRadius * 0.7;
+      const brimWidth = headRadius * 1.4;
+      const brimHeight = headRadius * 0.1;
+      // Hats bob slightly as the avatar breathes
+      const brimY = headTop + headRadius * 0.05 - frame.breath * lineWidth;
+      return [
+        { d: rect(centerX - crownWidth / 2, brimY - crownHeight, crownWidth, crownHeight), fill: ACCESSORY_COLORS.dark },
+        { d: rect(centerX - brimWidth / 2, brimY - brimHeight / 2, brimWidth, brimHeight), fill: ACCESSORY_COLORS.dark },
+      ];
+    }
+    case 'bow': {
+      const x = centerX + headRadius * 0.45;
+      const y = headTop + headRadius * 0.15;
+      const size = headRadius * 0.28;
+      return [
+        { d: `M ${x} ${y} L ${x - size} ${y - size * 0.7} L ${x - size} ${y + size * 0.7} Z`, fill: ACCESSORY_COLORS.bow },
+        { d: `M ${x} ${y} L ${x + size} ${y - size * 0.7} L ${x + size} ${y + size * 0.7} Z`, fill: ACCESSORY_COLORS.bow },
+        { d: ellipse(x, y, size * 0.25, size * 0.25), fill: ACCESSORY_COLORS.bow },
+      ];
+    }
+    case 'headphones': {
+      const cupY = layout.headCenterY;
+      return [
+        {
+          d: `M ${centerX - headRadius} ${cupY} A ${headRadius} ${cupY - headTop + lineWidth * 2} 0 0 1 ${centerX + headRadius} ${cupY}`,
+          stroke: ACCESSORY_COLORS.dark,
+          lineWidth: lineWidth * 2.5,
+        },
+        ...[-1, 1].map((side) => ({
+          d: ellipse(centerX + side * headRadius, cupY, headRadius * 0.16, headRadius * 0.28),
+          fill: ACCESSORY_COLORS.dark,
+        })),
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Builds the features of an avatar face for one animation frame: eyes, brows,
+ * mouth and accessory, in drawing order. The head itself is left to the renderer.
+ *
+ * @param {AvatarFrame} frame - The animation frame.
+ * @param {FaceLayout} layout - Where the features sit.
+ * @param {{ eyeStyle: EyeStyle; accessory: AvatarAccessory }} style - The avatar's style parameters.
+ * @returns {AvatarPart[]} The parts.
+ */
+export function buildFaceParts(
+  frame: AvatarFrame,
+  layout: FaceLayout,
+  style: { eyeStyle: EyeStyle; accessory: AvatarAccessory }
+): AvatarPart[] {
+  return [
+    ...eyeParts(frame, layout, style.eyeStyle),
+    ...browParts(frame, layout),
+    mouthPart(frame, layout),
+    ...accessoryParts(style.accessory, frame, layout),
+  ];
+}
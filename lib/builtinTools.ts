@@ -0,0 +1,241 @@
+import { Type } from '@google/genai';
+import { LiveTool, ToolRegistry } from './ToolRegistry';
+import { useNotesStore } from '../stores/useNotes';
+
+const MATH_FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  log: Math.log10,
+  ln: Math.log,
+  exp: Math.exp,
+};
+
+const MATH_CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+/**
+ * Evaluates an arithmetic expression without using `eval`.
+ *
+ * Supports numbers, `+ - * / % ^`, parentheses, unary minus, the constants
+ * `pi` and `e`, and the single-argument functions in `MATH_FUNCTIONS`.
+ *
+ * @param {string} expression - The expression to evaluate.
+ * @returns {number} The result.
+ * @throws {Error} If the expression is malformed.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z]+|[-+*/%^()]/gi);
+  if (!tokens || tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new Error(`Invalid expression: ${expression}`);
+  }
+
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) {
+      throw new Error('Unexpected end of expression');
+    }
+    if (token === '(') {
+      const value = parseSum();
+      if (next() !== ')') throw new Error('Missing closing parenthesis');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return parseFloat(token);
+
+    const name = token.toLowerCase();
+    if (name in MATH_CONSTANTS) return MATH_CONSTANTS[name];
+    if (name in MATH_FUNCTIONS) {
+      if (next() !== '(') throw new Error(`Expected "(" after ${name}`);
+      const arg = parseSum();
+      if (next() !== ')') throw new Error('Missing closing parenthesis');
+      return MATH_FUNCTIONS[name](arg);
+    }
+    throw new Error(`Unexpected token: ${token}`);
+  };
+
+  // Exponentiation binds tighter than unary minus, so -2^2 is -4
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^') {
+      next();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = next();
+      const rhs = parseUnary();
+      value = op === '*' ? value * rhs : op === '/' ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      const op = next();
+      const rhs = parseProduct();
+      value = op === '+' ? value + rhs : value - rhs;
+    }
+    return value;
+  };
+
+  const result = parseSum();
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected token: ${tokens[pos]}`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error('Result is not a finite number');
+  }
+  return result;
+}
+
+/**
+ * Reports the current date and time, optionally in a given time zone.
+ */
+const clockTool: LiveTool = {
+  name: 'get_current_time',
+  label: 'Clock',
+  declaration: {
+    name: 'get_current_time',
+    description: 'Returns the current date and time. Use this whenever the user asks about the time or date.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        timeZone: {
+          type: Type.STRING,
+          description: 'An IANA time zone such as "Europe/Paris". Defaults to the user\'s local time zone.',
+        },
+      },
+    },
+  },
+  handler: async ({ timeZone }) => {
+    const zone = typeof timeZone === 'string' && timeZone ? timeZone : undefined;
+    const now = new Date();
+    return {
+      iso: now.toISOString(),
+      local: now.toLocaleString('en-US', { timeZone: zone, dateStyle: 'full', timeStyle: 'long' }),
+      timeZone: zone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  },
+};
+
+/**
+ * Evaluates arithmetic expressions exactly instead of relying on the model.
+ */
+const calculatorTool: LiveTool = {
+  name: 'calculate',
+  label: 'Calculator',
+  declaration: {
+    name: 'calculate',
+    description: 'Evaluates an arithmetic expression, e.g. "(12.5 * 4) / 3" or "sqrt(2) ^ 2". Use this for any non-trivial math.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        expression: {
+          type: Type.STRING,
+          description: 'The expression to evaluate. Supports + - * / % ^, parentheses, pi, e, sqrt, abs, round, floor, ceil, sin, cos, tan, log, ln and exp.',
+        },
+      },
+      required: ['expression'],
+    },
+  },
+  handler: async ({ expression }) => {
+    if (typeof expression !== 'string') {
+      throw new Error('expression must be a string');
+    }
+    return { expression, result: evaluateExpression(expression) };
+  },
+};
+
+/**
+ * Lets the agent save, list and delete notes that persist across sessions.
+ */
+const notesTool: LiveTool = {
+  name: 'manage_notes',
+  label: 'Notes',
+  declaration: {
+    name: 'manage_notes',
+    description: 'Saves, lists or deletes short notes for the user. Notes persist across conversations.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        action: {
+          type: Type.STRING,
+          enum: ['add', 'list', 'delete'],
+          description: 'What to do with the notes.',
+        },
+        text: {
+          type: Type.STRING,
+          description: 'The note text. Required for "add".',
+        },
+        id: {
+          type: Type.STRING,
+          description: 'The ID of the note. Required for "delete".',
+        },
+      },
+      required: ['action'],
+    },
+  },
+  handler: async ({ action, text, id }) => {
+    const { addNote, deleteNote } = useNotesStore.getState();
+    switch (action) {
+      case 'add':
+        if (typeof text !== 'string' || !text.trim()) {
+          throw new Error('text is required to add a note');
+        }
+        return { note: addNote(text.trim()) };
+      case 'list':
+        return { notes: useNotesStore.getState().notes };
+      case 'delete':
+        if (typeof id !== 'string') {
+          throw new Error('id is required to delete a note');
+        }
+        return { deleted: deleteNote(id) };
+      default:
+        throw new Error(`Unknown action: ${String(action)}`);
+    }
+  },
+};
+
+/**
+ * The tools that ship with the app.
+ */
+export const BUILTIN_TOOLS: LiveTool[] = [clockTool, calculatorTool, notesTool];
+
+/**
+ * Creates a tool registry pre-populated with the built-in tools.
+ *
+ * @returns {ToolRegistry} The registry.
+ */
+export function createBuiltinToolRegistry(): ToolRegistry {
+  const registry = new ToolRegistry();
+  BUILTIN_TOOLS.forEach((tool) => registry.register(tool));
+  return registry;
+}
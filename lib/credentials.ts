@@ -0,0 +1,99 @@
+import { useCredentialsStore } from '../stores/useCredentials';
+
+/**
+ * What a Live API connection authenticates with.
+ */
+export type LiveCredentials = {
+  /**
+   * An API key, or an ephemeral token's name (`auth_tokens/…`).
+   */
+  apiKey: string;
+  /**
+   * The API version to connect with. Ephemeral tokens are only accepted by `v1alpha`.
+   */
+  apiVersion?: string;
+};
+
+/**
+ * A short-lived Live API token from the token broker.
+ */
+export type EphemeralToken = {
+  /**
+   * The token's name (`auth_tokens/…`), used in place of an API key.
+   */
+  token: string;
+  /**
+   * When sessions using the token stop working, as an ISO timestamp.
+   */
+  expireTime: string;
+};
+
+/**
+ * The error message when there is no way to authenticate with the Gemini API.
+ */
+export const MISSING_CREDENTIALS_MESSAGE = 'No Gemini API key. Add one in Settings, or set up a token broker.';
+
+/**
+ * How long to wait for the token broker.
+ */
+const BROKER_TIMEOUT_MS = 10000;
+
+/**
+ * Asks a token broker for a short-lived Live API token.
+ *
+ * @param {string} brokerUrl - The broker's base URL (e.g. `http://localhost:8787`).
+ * @returns {Promise<EphemeralToken>} The token.
+ * @throws {Error} If the broker can't be reached or doesn't return a token.
+ */
+export async function fetchEphemeralToken(brokerUrl: string): Promise<EphemeralToken> {
+  const url = `${brokerUrl.replace(/\/+$/, '')}/token`;
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'POST', signal: AbortSignal.timeout(BROKER_TIMEOUT_MS) });
+  } catch (error) {
+    throw new Error(`Token broker unreachable at ${url}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const body = (await response.json().catch(() => null)) as Partial<EphemeralToken> & { error?: string } | null;
+  if (!response.ok) {
+    throw new Error(`Token broker error (${response.status}): ${body?.error ?? response.statusText}`);
+  }
+  if (typeof body?.token !== 'string' || !body.token.startsWith('auth_tokens/')) {
+    throw new Error('Token broker returned an invalid token');
+  }
+  return { token: body.token, expireTime: typeof body.expireTime === 'string' ? body.expireTime : '' };
+}
+
+/**
+ * Gets the credentials for a new Live API connection: a fresh token from the
+ * token broker if one is set up, or else the user's API key.
+ *
+ * @returns {Promise<LiveCredentials>} The credentials.
+ * @throws {Error} If neither is set up, or the broker fails.
+ */
+export async function getLiveCredentials(): Promise<LiveCredentials> {
+  const { apiKey, tokenBrokerUrl } = useCredentialsStore.getState();
+  if (tokenBrokerUrl) {
+    const { token } = await fetchEphemeralToken(tokenBrokerUrl);
+    return { apiKey: token, apiVersion: 'v1alpha' };
+  }
+  if (apiKey) {
+    return { apiKey };
+  }
+  throw new Error(MISSING_CREDENTIALS_MESSAGE);
+}
+
+/**
+ * Gets the user's API key, for the requests other than the Live API (voice
+ * previews and memory summaries), which ephemeral tokens don't cover.
+ *
+ * @returns {string} The API key.
+ * @throws {Error} If no API key was entered.
+ */
+export function getApiKey(): string {
+  const { apiKey } = useCredentialsStore.getState();
+  if (!apiKey) {
+    throw new Error('This needs a Gemini API key. Add one in Settings.');
+  }
+  return apiKey;
+}
@@ -0,0 +1,80 @@
+import { AvatarEmotion, TranscriptEntry } from '../types';
+
+/**
+ * Words and phrases that suggest an emotion, checked against the end of what
+ * the agent is saying. Earlier entries win when several match.
+ */
+const EMOTION_CUES: { emotion: AvatarEmotion; pattern: RegExp }[] = [
+  {
+    emotion: 'surprised',
+    pattern: /\b(wow|whoa|woah|oh my|no way|incredible|unbelievable|astonishing|amazing|can't believe)\b|\breally\?|!\?|\?!/i,
+  },
+  {
+    emotion: 'happy',
+    pattern:
+      /\b(great|glad|happy|love|lovely|wonderful|awesome|fantastic|excellent|delighted|congrat\w*|haha|fun|brilliant|perfect|nice|yay|enjoy\w*)\b/i,
+  },
+  {
+    emotion: 'thinking',
+    pattern: /\b(hmm+|let me think|let's see|good question|i wonder|perhaps|not sure|depends)\b/i,
+  },
+];
+
+/**
+ * How much of the end of an utterance is checked for cues, in characters.
+ * The face should react to what is being said now, not the start of a long reply.
+ */
+const CUE_WINDOW_CHARS = 160;
+
+/**
+ * Guesses the emotion of a piece of speech from simple word cues.
+ *
+ * @param {string} text - What was said.
+ * @returns {AvatarEmotion | null} The emotion, or null if nothing stands out.
+ */
+export function emotionFromText(text: string): AvatarEmotion | null {
+  const recent = text.slice(-CUE_WINDOW_CHARS);
+  return EMOTION_CUES.find(({ pattern }) => pattern.test(recent))?.emotion ?? null;
+}
+
+/**
+ * The conversation state the avatar's emotion is derived from.
+ */
+export type EmotionState = {
+  /**
+   * Whether a session is connected.
+   */
+  isConnected: boolean;
+  /**
+   * Whether a session is being established.
+   */
+  isConnecting: boolean;
+  /**
+   * The transcript of the current conversation.
+   */
+  transcript: TranscriptEntry[];
+};
+
+/**
+ * Picks the avatar's emotion from the connection state and the transcript.
+ *
+ * The avatar thinks while connecting and while waiting for a reply, listens
+ * while the user speaks, and otherwise mirrors the tone of what the agent is
+ * saying.
+ *
+ * @param {EmotionState} state - The conversation state.
+ * @returns {AvatarEmotion} The emotion to show.
+ */
+export function deriveEmotion({ isConnected, isConnecting, transcript }: EmotionState): AvatarEmotion {
+  if (!isConnected) {
+    return isConnecting ? 'thinking' : 'neutral';
+  }
+  const last = transcript[transcript.length - 1];
+  if (!last) {
+    return 'neutral';
+  }
+  if (last.speaker === 'user') {
+    return last.isFinal ? 'thinking' : 'listening';
+  }
+  return emotionFromText(last.text) ?? 'neutral';
+}
@@ -0,0 +1,145 @@
+import { EndSensitivity, LiveConnectConfig, StartSensitivity } from '@google/genai';
+import { GenerationSettings, VadSensitivity } from '../types';
+
+/**
+ * The Live API model conversations use.
+ */
+export const LIVE_MODEL = 'models/gemini-2.0-flash-live-001';
+
+/**
+ * Whether `LIVE_MODEL` is a native-audio model. Only those accept affective
+ * dialog and proactive audio; other models reject a setup that asks for them.
+ */
+export const LIVE_MODEL_HAS_NATIVE_AUDIO = LIVE_MODEL.includes('native-audio');
+
+/**
+ * Generation settings for agents that don't set their own: everything is
+ * left to the model's defaults.
+ */
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  temperature: null,
+  topP: null,
+  maxOutputTokens: null,
+  affectiveDialog: false,
+  proactiveAudio: false,
+  startOfSpeechSensitivity: 'default',
+  endOfSpeechSensitivity: 'default',
+  silenceDurationMs: null,
+};
+
+/**
+ * Bounds for the numeric generation settings, also used by the editor.
+ */
+export const GENERATION_LIMITS = {
+  temperature: { min: 0, max: 2, step: 0.05 },
+  topP: { min: 0, max: 1, step: 0.05 },
+  maxOutputTokens: { min: 1, max: 8192, step: 1 },
+  silenceDurationMs: { min: 100, max: 5000, step: 50 },
+};
+
+/**
+ * Labels for the activity detection sensitivities, in the order they are offered.
+ */
+export const VAD_SENSITIVITY_LABELS: Record<VadSensitivity, string> = {
+  default: 'Default',
+  low: 'Low',
+  high: 'High',
+};
+
+/**
+ * Clamps an optional number to a range and rounds it to the range's step.
+ *
+ * @param {unknown} value - The candidate value.
+ * @param {{ min: number; max: number; step: number }} range - The allowed range.
+ * @returns {number | null} The clamped value, or null when the candidate is not a number.
+ */
+function clampOptional(value: unknown, range: { min: number; max: number; step: number }): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return null;
+  }
+  const stepped = Math.round(value / range.step) * range.step;
+  // Avoid floating point noise such as 0.7000000000000001
+  return Math.min(range.max, Math.max(range.min, Number(stepped.toFixed(2))));
+}
+
+/**
+ * Checks that a value is one of the sensitivities.
+ *
+ * @param {unknown} value - The candidate value.
+ * @returns {VadSensitivity} The sensitivity, or `default` if it isn't one.
+ */
+function toSensitivity(value: unknown): VadSensitivity {
+  return Object.keys(VAD_SENSITIVITY_LABELS).includes(value as string) ? (value as VadSensitivity) : 'default';
+}
+
+/**
+ * Fills in and clamps an agent's generation settings.
+ *
+ * @param {Partial<GenerationSettings> | undefined} settings - The agent's settings, if any.
+ * @returns {GenerationSettings} Complete, valid settings.
+ */
+export function normalizeGenerationSettings(settings: Partial<GenerationSettings> | undefined): GenerationSettings {
+  return {
+    temperature: clampOptional(settings?.temperature, GENERATION_LIMITS.temperature),
+    topP: clampOptional(settings?.topP, GENERATION_LIMITS.topP),
+    maxOutputTokens: clampOptional(settings?.maxOutputTokens, GENERATION_LIMITS.maxOutputTokens),
+    affectiveDialog: settings?.affectiveDialog === true,
+    proactiveAudio: settings?.proactiveAudio === true,
+    startOfSpeechSensitivity: toSensitivity(settings?.startOfSpeechSensitivity),
+    endOfSpeechSensitivity: toSensitivity(settings?.endOfSpeechSensitivity),
+    silenceDurationMs: clampOptional(settings?.silenceDurationMs, GENERATION_LIMITS.silenceDurationMs),
+  };
+}
+
+/**
+ * Checks whether the settings use features only the `v1alpha` API accepts.
+ *
+ * @param {GenerationSettings} settings - The settings.
+ * @returns {boolean} True if affective dialog or proactive audio is on and the model supports them.
+ */
+export function usesPreviewFeatures(settings: GenerationSettings): boolean {
+  return LIVE_MODEL_HAS_NATIVE_AUDIO && (settings.affectiveDialog || settings.proactiveAudio);
+}
+
+/**
+ * Builds the generation and activity detection parts of the Live API config.
+ * Settings left at their defaults are omitted, so the server's defaults apply,
+ * as are affective dialog and proactive audio unless `LIVE_MODEL` supports them.
+ *
+ * @param {GenerationSettings} settings - The agent's settings.
+ * @param {boolean} manualActivity - Whether the client signals the user's turns itself (push-to-talk),
+ * which turns automatic activity detection off.
+ * @returns {Partial<LiveConnectConfig>} The config fields.
+ */
+export function buildGenerationConfig(settings: GenerationSettings, manualActivity: boolean): Partial<LiveConnectConfig> {
+  const config: Partial<LiveConnectConfig> = {};
+  if (settings.temperature !== null) config.temperature = settings.temperature;
+  if (settings.topP !== null) config.topP = settings.topP;
+  if (settings.maxOutputTokens !== null) config.maxOutputTokens = settings.maxOutputTokens;
+  if (LIVE_MODEL_HAS_NATIVE_AUDIO) {
+    if (settings.affectiveDialog) config.enableAffectiveDialog = true;
+    if (settings.proactiveAudio) config.proactivity = { proactiveAudio: true };
+  }
+
+  if (manualActivity) {
+    config.realtimeInputConfig = { automaticActivityDetection: { disabled: true } };
+  } else {
+    const detection = {
+      ...(settings.startOfSpeechSensitivity !== 'default' && {
+        startOfSpeechSensitivity: settings.startOfSpeechSensitivity === 'high'
+          ? StartSensitivity.START_SENSITIVITY_HIGH
+          : StartSensitivity.START_SENSITIVITY_LOW,
+      }),
+      ...(settings.endOfSpeechSensitivity !== 'default' && {
+        endOfSpeechSensitivity: settings.endOfSpeechSensitivity === 'high'
+          ? EndSensitivity.END_SENSITIVITY_HIGH
+          : EndSensitivity.END_SENSITIVITY_LOW,
+      }),
+      ...(settings.silenceDurationMs !== null && { silenceDurationMs: settings.silenceDurationMs }),
+    };
+    if (Object.keys(detection).length > 0) {
+      config.realtimeInputConfig = { automaticActivityDetection: detection };
+    }
+  }
+  return config;
+}
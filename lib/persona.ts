@@ -0,0 +1,105 @@
+import { Agent, Persona, PersonaExample, ResponseLength } from '../types';
+import { compilePersona, createPersona } from '../Snuggles_Audio_Node/src/shared/persona';
+
+// The compiler is shared with the desktop app
+export { compilePersona, createPersona };
+
+/**
+ * The reply length options, with the label shown in the editor and the
+ * instruction given to the model.
+ */
+export const RESPONSE_LENGTHS: Record<ResponseLength, { label: string; instruction: string }> = {
+  short: {
+    label: 'Short',
+    instruction: 'Keep your replies to one or two sentences unless asked for more.',
+  },
+  medium: {
+    label: 'Medium',
+    instruction: 'Keep your replies to a few sentences, concise and conversational.',
+  },
+  long: {
+    label: 'Detailed',
+    instruction: 'Give thorough, detailed replies when the topic calls for it, but stay conversational.',
+  },
+};
+
+/**
+ * Converts a free-text personality, as agents stored before personas were
+ * structured, to a persona. The text is kept unchanged in `notes`.
+ *
+ * @param {string} personality - The personality text.
+ * @returns {Persona} The persona.
+ */
+export function personaFromText(personality: string): Persona {
+  return createPersona({ notes: personality });
+}
+
+/**
+ * Reads a list of non-empty, trimmed strings.
+ *
+ * @param {unknown} value - The candidate list.
+ * @returns {string[]} The strings, or an empty list if the value is not a list.
+ */
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((item): item is string => typeof item === 'string').map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Normalizes stored, imported or edited persona data.
+ *
+ * Strings are trimmed, blank list items and examples are dropped, and missing
+ * or malformed fields fall back to their defaults.
+ *
+ * @param {unknown} value - The persona data.
+ * @returns {Persona} The normalized persona.
+ */
+export function normalizePersona(value: unknown): Persona {
+  if (typeof value !== 'object' || value === null) {
+    return createPersona();
+  }
+  const persona = value as Record<string, unknown>;
+  const text = (field: unknown) => (typeof field === 'string' ? field.trim() : '');
+  const examples = Array.isArray(persona.examples)
+    ? persona.examples
+        .filter((example): example is Record<string, unknown> => typeof example === 'object' && example !== null)
+        .map((example): PersonaExample => ({ user: text(example.user), agent: text(example.agent) }))
+        .filter((example) => example.user && example.agent)
+    : [];
+
+  return {
+    role: text(persona.role),
+    tone: text(persona.tone),
+    expertise: toStringList(persona.expertise),
+    dos: toStringList(persona.dos),
+    donts: toStringList(persona.donts),
+    catchphrases: toStringList(persona.catchphrases),
+    responseLength:
+      typeof persona.responseLength === 'string' && persona.responseLength in RESPONSE_LENGTHS
+        ? (persona.responseLength as ResponseLength)
+        : 'medium',
+    examples,
+    notes: text(persona.notes),
+  };
+}
+
+/**
+ * Builds the system instruction for a live session with an agent.
+ *
+ * @param {Pick<Agent, 'name' | 'persona'>} agent - The agent.
+ * @param {{ name: string; info?: string | null }} user - The user information.
+ * @returns {string} The system instruction, without the memory section.
+ */
+export function buildSystemInstruction(
+  agent: Pick<Agent, 'name' | 'persona'>,
+  user: { name: string; info?: string | null }
+): string {
+  const about = user.info?.trim();
+  return [
+    compilePersona(agent.name, agent.persona),
+    `You are speaking to ${user.name}.${about ? `\nAbout them: ${about}` : ''}`,
+    `Engage in a natural, real-time conversation. ${RESPONSE_LENGTHS[agent.persona.responseLength].instruction}`,
+  ].join('\n\n');
+}
@@ -0,0 +1,168 @@
+import { Agent, TranscriptEntry } from '../types';
+
+/**
+ * What a reply backend is asked to answer.
+ */
+export type ReplyRequest = {
+  /**
+   * The agent replying.
+   */
+  agent: Agent;
+  /**
+   * The user's name.
+   */
+  userName: string;
+  /**
+   * The conversation so far, including the message being answered.
+   */
+  history: TranscriptEntry[];
+  /**
+   * The user's message, or null when the agent should greet the user.
+   */
+  message: string | null;
+  /**
+   * Aborted when the session ends before the reply is ready.
+   */
+  signal: AbortSignal;
+};
+
+/**
+ * Produces the agent's text replies for the browser speech engine, which is
+ * used when the Live API is unreachable.
+ */
+export type ReplyBackend = {
+  /**
+   * The unique backend ID, stored in the settings.
+   */
+  id: string;
+  /**
+   * The name shown in the settings.
+   */
+  label: string;
+  /**
+   * A one-line description shown in the settings.
+   */
+  description: string;
+  /**
+   * Replies to a message.
+   * @param {ReplyRequest} request - The request.
+   * @returns {Promise<string>} The agent's reply.
+   */
+  reply: (request: ReplyRequest) => Promise<string>;
+};
+
+/**
+ * A canned answer for messages matching a pattern.
+ */
+type Rule = {
+  pattern: RegExp;
+  answer: (request: ReplyRequest & { message: string }) => string;
+};
+
+/**
+ * The rule-based backend's answers, checked in order.
+ */
+const RULES: Rule[] = [
+  {
+    pattern: /\b(your name|who are you)\b/i,
+    answer: ({ agent }) => {
+      const role = agent.persona.role.trim();
+      const expertise = agent.persona.expertise.filter((topic) => topic.trim());
+      return `I'm ${agent.name}${role ? `, ${role}` : ''}.${expertise.length ? ` I know a lot about ${expertise.join(', ')}.` : ''}`;
+    },
+  },
+  {
+    pattern: /\bhow are you\b/i,
+    answer: () => "I'm doing well, thanks for asking! How about you?",
+  },
+  {
+    pattern: /\bwhat time\b|\bthe time\b/i,
+    answer: () => `It's ${new Date().toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}.`,
+  },
+  {
+    pattern: /\b(what day|the date|today's date)\b/i,
+    answer: () => `Today is ${new Date().toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric' })}.`,
+  },
+  {
+    pattern: /\b(thanks|thank you)\b/i,
+    answer: () => "You're welcome!",
+  },
+  {
+    pattern: /\b(bye|goodbye|see you)\b/i,
+    answer: ({ userName }) => `Goodbye, ${userName}! Talk soon.`,
+  },
+  {
+    pattern: /\b(hi|hello|hey)\b/i,
+    answer: ({ userName }) => `Hello, ${userName}! What's on your mind?`,
+  },
+  {
+    pattern: /\b(what can you do|help)\b/i,
+    answer: () =>
+      "Right now I'm running in offline mode, so I can only chat a little: ask me my name, the time or the date. Everything else will work again once the live service is back.",
+  },
+  {
+    pattern: /\?\s*$/,
+    answer: () => "That's a good question. I can't look things up in offline mode, but I'd love to hear what you think.",
+  },
+];
+
+/**
+ * Picks one of the agent's catchphrases now and then.
+ *
+ * @param {Agent} agent - The agent.
+ * @returns {string} A catchphrase followed by a space, or an empty string.
+ */
+function sometimesCatchphrase(agent: Agent): string {
+  const phrases = agent.persona.catchphrases.filter((phrase) => phrase.trim());
+  if (phrases.length === 0 || Math.random() > 0.3) {
+    return '';
+  }
+  return `${phrases[Math.floor(Math.random() * phrases.length)].trim()} `;
+}
+
+/**
+ * A rule-based stand-in for the model: greets the user, answers a few simple
+ * questions and otherwise reflects what was said.
+ */
+export const RULE_BASED_BACKEND: ReplyBackend = {
+  id: 'rules',
+  label: 'Simple rules',
+  description: 'Answers greetings and a few simple questions, and reflects everything else.',
+  reply: async (request) => {
+    const { agent, userName, message } = request;
+    if (message === null) {
+      return `${sometimesCatchphrase(agent)}Hi ${userName}, I'm ${agent.name}! I'm in offline mode right now, so I can only chat a little. How can I help?`;
+    }
+    const rule = RULES.find(({ pattern }) => pattern.test(message));
+    if (rule) {
+      return sometimesCatchphrase(agent) + rule.answer({ ...request, message });
+    }
+    return `${sometimesCatchphrase(agent)}You said: "${message.trim()}". Tell me more.`;
+  },
+};
+
+/**
+ * Repeats the user's message back, for testing speech input and output.
+ */
+export const ECHO_BACKEND: ReplyBackend = {
+  id: 'echo',
+  label: 'Echo',
+  description: 'Repeats what you say, to test the microphone and speakers.',
+  reply: async ({ message, userName }) => message ?? `Hi ${userName}. I'll repeat whatever you say.`,
+};
+
+/**
+ * The reply backends, in the order they are offered. Add a backend here to
+ * make it available in the settings.
+ */
+export const REPLY_BACKENDS: ReplyBackend[] = [RULE_BASED_BACKEND, ECHO_BACKEND];
+
+/**
+ * Finds a reply backend, falling back to the rule-based one for unknown IDs.
+ *
+ * @param {string} id - The backend's ID.
+ * @returns {ReplyBackend} The backend.
+ */
+export function getReplyBackend(id: string): ReplyBackend {
+  return REPLY_BACKENDS.find((backend) => backend.id === id) ?? RULE_BASED_BACKEND;
+}
@@ -0,0 +1,94 @@
+import { TranscriptEntry } from '../types';
+
+/**
+ * Generates a reasonably unique identifier for a transcript entry.
+ *
+ * @returns {string} The generated identifier.
+ */
+function createEntryId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Appends a transcription chunk to the transcript.
+ *
+ * Chunks from the same speaker are merged into the open (non-final) entry for
+ * that speaker. A chunk from the other speaker closes any open entry first,
+ * since the Live API only interleaves speakers at turn boundaries.
+ *
+ * @param {TranscriptEntry[]} entries - The current transcript.
+ * @param {TranscriptEntry['speaker']} speaker - Who produced the chunk.
+ * @param {string} text - The transcribed text fragment.
+ * @param {boolean} finished - Whether the server marked this utterance as finished.
+ * @returns {TranscriptEntry[]} A new transcript array.
+ */
+export function appendTranscriptChunk(
+  entries: TranscriptEntry[],
+  speaker: TranscriptEntry['speaker'],
+  text: string,
+  finished: boolean,
+): TranscriptEntry[] {
+  const last = entries[entries.length - 1];
+
+  if (last && !last.isFinal && last.speaker === speaker) {
+    const updated: TranscriptEntry = { ...last, text: last.text + text, isFinal: finished };
+    return [...entries.slice(0, -1), updated];
+  }
+
+  if (!text && !finished) {
+    return entries;
+  }
+
+  const closed = finalizeTranscript(entries);
+  return [
+    ...closed,
+    {
+      id: createEntryId(),
+      speaker,
+      text,
+      isFinal: finished,
+      timestamp: Date.now(),
+    },
+  ];
+}
+
+/**
+ * Sets the text of the speaker's open entry, or starts a new entry.
+ *
+ * Unlike `appendTranscriptChunk`, the text replaces what the entry held. Used
+ * for speech recognizers that revise their whole interim result as they go.
+ *
+ * @param {TranscriptEntry[]} entries - The current transcript.
+ * @param {TranscriptEntry['speaker']} speaker - Who is speaking.
+ * @param {string} text - The utterance so far.
+ * @param {boolean} finished - Whether the utterance is complete.
+ * @returns {TranscriptEntry[]} A new transcript array.
+ */
+export function replaceTranscriptText(
+  entries: TranscriptEntry[],
+  speaker: TranscriptEntry['speaker'],
+  text: string,
+  finished: boolean,
+): TranscriptEntry[] {
+  const last = entries[entries.length - 1];
+  if (last && !last.isFinal && last.speaker === speaker) {
+    return [...entries.slice(0, -1), { ...last, text, isFinal: finished }];
+  }
+  return appendTranscriptChunk(entries, speaker, text, finished);
+}
+
+/**
+ * Marks every open entry in the transcript as final.
+ *
+ * Used at turn boundaries, when the server signals that the model's turn is complete.
+ *
+ * @param {TranscriptEntry[]} entries - The current transcript.
+ * @returns {TranscriptEntry[]} The transcript with all entries final. Returns the
+ * same array if nothing changed.
+ */
+export function finalizeTranscript(entries: TranscriptEntry[]): TranscriptEntry[] {
+  if (entries.every((entry) => entry.isFinal)) {
+    return entries;
+  }
+  return entries.map((entry) => (entry.isFinal ? entry : { ...entry, isFinal: true }));
+}
@@ -0,0 +1,133 @@
+import { MediaModality, UsageMetadata } from '@google/genai';
+import { TokenUsage } from '../types';
+
+/**
+ * Prices in US dollars per million tokens.
+ */
+export type PriceTable = {
+  /**
+   * Text, image and video input.
+   */
+  textInput: number;
+  /**
+   * Audio input.
+   */
+  audioInput: number;
+  /**
+   * Text output.
+   */
+  textOutput: number;
+  /**
+   * Audio output.
+   */
+  audioOutput: number;
+};
+
+/**
+ * Usage before any tokens are reported.
+ */
+export const EMPTY_USAGE: TokenUsage = {
+  promptTokens: 0,
+  responseTokens: 0,
+  audioPromptTokens: 0,
+  audioResponseTokens: 0,
+};
+
+/**
+ * Published paid-tier prices for `gemini-2.0-flash-live-001`. Users can
+ * override them in the settings when prices change.
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  textInput: 0.35,
+  audioInput: 2.1,
+  textOutput: 1.5,
+  audioOutput: 8.5,
+};
+
+/**
+ * Share of the session budget at which the user is warned.
+ */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/**
+ * Sums the tokens for one modality in a `usageMetadata` details list.
+ *
+ * @param {UsageMetadata['promptTokensDetails']} details - The per-modality counts.
+ * @param {MediaModality} modality - The modality to count.
+ * @returns {number} The token count.
+ */
+function countModality(details: UsageMetadata['promptTokensDetails'], modality: MediaModality): number {
+  return (details ?? [])
+    .filter((detail) => detail.modality === modality)
+    .reduce((sum, detail) => sum + (detail.tokenCount ?? 0), 0);
+}
+
+/**
+ * Converts the `usageMetadata` of a Live message to token counts.
+ *
+ * @param {UsageMetadata} metadata - The reported usage.
+ * @returns {TokenUsage} The token counts.
+ */
+export function usageFromMetadata(metadata: UsageMetadata): TokenUsage {
+  return {
+    promptTokens: metadata.promptTokenCount ?? 0,
+    responseTokens: metadata.responseTokenCount ?? 0,
+    audioPromptTokens: countModality(metadata.promptTokensDetails, MediaModality.AUDIO),
+    audioResponseTokens: countModality(metadata.responseTokensDetails, MediaModality.AUDIO),
+  };
+}
+
+/**
+ * Adds two token counts.
+ *
+ * @param {TokenUsage} a - The first usage.
+ * @param {TokenUsage} b - The second usage.
+ * @returns {TokenUsage} The sum.
+ */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    responseTokens: a.responseTokens + b.responseTokens,
+    audioPromptTokens: a.audioPromptTokens + b.audioPromptTokens,
+    audioResponseTokens: a.audioResponseTokens + b.audioResponseTokens,
+  };
+}
+
+/**
+ * Estimates the cost of token usage.
+ *
+ * @param {TokenUsage} usage - The token counts.
+ * @param {PriceTable} prices - The prices per million tokens.
+ * @returns {number} The cost in US dollars.
+ */
+export function estimateCost(usage: TokenUsage, prices: PriceTable): number {
+  const textPrompt = Math.max(0, usage.promptTokens - usage.audioPromptTokens);
+  const textResponse = Math.max(0, usage.responseTokens - usage.audioResponseTokens);
+  return (
+    (textPrompt * prices.textInput +
+      usage.audioPromptTokens * prices.audioInput +
+      textResponse * prices.textOutput +
+      usage.audioResponseTokens * prices.audioOutput) /
+    1_000_000
+  );
+}
+
+/**
+ * Formats a cost in US dollars, with more precision for small amounts.
+ *
+ * @param {number} usd - The cost.
+ * @returns {string} The formatted cost (e.g. "$0.0042" or "$1.25").
+ */
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+}
+
+/**
+ * Formats a token count with thousands separators.
+ *
+ * @param {TokenUsage} usage - The token counts.
+ * @returns {string} The total, e.g. "12,345 tokens".
+ */
+export function formatTokens(usage: TokenUsage): string {
+  return `${(usage.promptTokens + usage.responseTokens).toLocaleString()} tokens`;
+}
@@ -0,0 +1,121 @@
+import { Agent } from '../types';
+
+/**
+ * A Gemini prebuilt voice.
+ */
+export type PrebuiltVoice = {
+  /**
+   * The voice name as sent in `prebuiltVoiceConfig.voiceName`.
+   */
+  name: string;
+  /**
+   * A short description of how the voice sounds.
+   */
+  description: string;
+  /**
+   * A phrase that shows off the voice in previews.
+   */
+  sample: string;
+};
+
+/**
+ * The prebuilt voices supported by the Live API.
+ */
+export const PREBUILT_VOICES: PrebuiltVoice[] = [
+  { name: 'Puck', description: 'Upbeat', sample: "Hey there! I've got a great idea, let's dive right in." },
+  { name: 'Charon', description: 'Informative', sample: 'Let me walk you through how this works, step by step.' },
+  { name: 'Kore', description: 'Firm', sample: "Here's the plan. We'll keep it simple and get it done." },
+  { name: 'Fenrir', description: 'Excitable', sample: "Oh wow, that's amazing! Tell me everything!" },
+  { name: 'Aoede', description: 'Breezy', sample: "No rush at all. Let's take it easy and figure it out together." },
+  { name: 'Leda', description: 'Youthful', sample: "Ooh, fun question! I've been wondering about that too." },
+  { name: 'Orus', description: 'Firm', sample: 'The facts are clear. Allow me to summarize them for you.' },
+  { name: 'Zephyr', description: 'Bright', sample: 'Good morning! It is a wonderful day to learn something new.' },
+];
+
+/**
+ * Language codes offered for speech output.
+ */
+export const VOICE_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'en-AU', label: 'English (Australia)' },
+  { code: 'en-IN', label: 'English (India)' },
+  { code: 'es-US', label: 'Spanish (US)' },
+  { code: 'es-ES', label: 'Spanish (Spain)' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'it-IT', label: 'Italian' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'nl-NL', label: 'Dutch' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'ja-JP', label: 'Japanese' },
+  { code: 'ko-KR', label: 'Korean' },
+];
+
+/**
+ * The voice used when none is set.
+ */
+export const DEFAULT_VOICE: Agent['voice'] = { name: 'Aoede', languageCode: 'en-US' };
+
+/**
+ * The abstract voice settings agents used before prebuilt voices.
+ */
+export type LegacyVoice = {
+  pitch: 'low' | 'medium' | 'high';
+  style: 'calm' | 'energetic' | 'formal';
+};
+
+/**
+ * Maps each legacy pitch and style to the closest-sounding prebuilt voice.
+ */
+const LEGACY_VOICE_MAP: Record<LegacyVoice['pitch'], Record<LegacyVoice['style'], string>> = {
+  low: { calm: 'Charon', energetic: 'Fenrir', formal: 'Orus' },
+  medium: { calm: 'Aoede', energetic: 'Puck', formal: 'Kore' },
+  high: { calm: 'Leda', energetic: 'Zephyr', formal: 'Leda' },
+};
+
+/**
+ * Checks whether a name is a known prebuilt voice.
+ *
+ * @param {string} name - The voice name.
+ * @returns {boolean} True if the voice exists.
+ */
+export const isPrebuiltVoice = (name: string): boolean =>
+  PREBUILT_VOICES.some((voice) => voice.name === name);
+
+/**
+ * Converts legacy pitch/style settings to a prebuilt voice.
+ *
+ * @param {LegacyVoice} legacy - The legacy voice settings.
+ * @returns {Agent['voice']} The equivalent voice, in US English.
+ */
+export const voiceFromLegacy = (legacy: LegacyVoice): Agent['voice'] => ({
+  name: LEGACY_VOICE_MAP[legacy.pitch]?.[legacy.style] ?? DEFAULT_VOICE.name,
+  languageCode: DEFAULT_VOICE.languageCode,
+});
+
+/**
+ * Normalizes stored or imported voice settings to the current shape.
+ *
+ * Accepts the current shape, the legacy pitch/style shape, or anything else
+ * (which falls back to the default voice).
+ *
+ * @param {unknown} voice - The voice settings to normalize.
+ * @returns {Agent['voice']} The normalized voice.
+ */
+export const normalizeVoice = (voice: unknown): Agent['voice'] => {
+  if (typeof voice !== 'object' || voice === null) {
+    return DEFAULT_VOICE;
+  }
+  const { name, languageCode, pitch, style } = voice as Record<string, unknown>;
+  if (typeof name === 'string' && isPrebuiltVoice(name)) {
+    return {
+      name,
+      languageCode: typeof languageCode === 'string' && languageCode ? languageCode : DEFAULT_VOICE.languageCode,
+    };
+  }
+  if (typeof pitch === 'string' && typeof style === 'string') {
+    return voiceFromLegacy({ pitch, style } as LegacyVoice);
+  }
+  return DEFAULT_VOICE;
+};
@@ -0,0 +1,518 @@
+/**
+ * Offline stand-in for the Gemini Live API, for local development, demos and tests.
+ *
+ * It speaks the Live WebSocket protocol well enough for both clients:
+ * - answers `setup` with `setupComplete`
+ * - detects the end of the user's speech (by volume after the requested silence
+ *   duration, or explicit activity start/end when automatic activity detection is
+ *   disabled) and replies with audio, or with streamed text when the client asks
+ *   for TEXT responses
+ * - sends the input and output transcriptions the client asked for, `turnComplete`,
+ *   and `interrupted` on barge-in
+ * - sends session resumption handles, `goAway`, and tool calls
+ * - reports rough `usageMetadata` token counts after every turn
+ *
+ * Replies are either scripted lines spoken as synthetic "voice" tones (`--mode scripted`,
+ * the default) or the user's own audio played back (`--mode echo`).
+ *
+ * Typed messages starting with a slash are commands:
+ * - `/tool <name> [json args]` makes the model call a tool.
+ * - `/goaway [seconds]` announces that the server will close the connection.
+ *
+ * Usage:
+ *   npm run mock-server -- [--port 8765] [--mode scripted|echo] [--go-away-after <seconds>]
+ *
+ * Then point a client at it, e.g. `GEMINI_LIVE_BASE_URL=http://localhost:8765 npm run dev`.
+ */
+import { parseArgs } from 'node:util';
+import { WebSocketServer } from 'ws';
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.MOCK_LIVE_PORT ?? '8765' },
+    mode: { type: 'string', default: 'scripted' },
+    'go-away-after': { type: 'string' },
+  },
+});
+
+const PORT = Number(args.port);
+const MODE = args.mode === 'echo' ? 'echo' : 'scripted';
+const GO_AWAY_AFTER_S = args['go-away-after'] ? Number(args['go-away-after']) : null;
+
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+// Reply audio is sent in chunks of this length, in real time after a short head start
+const CHUNK_MS = 100;
+const PREBUFFER_CHUNKS = 3;
+// Words per text part in TEXT replies
+const TEXT_CHUNK_WORDS = 3;
+// Volume-based end-of-speech detection
+const SPEECH_RMS = 0.02;
+const END_OF_SPEECH_MS = 800;
+const MIN_TURN_SECONDS = 0.3;
+// Rough token estimates for usageMetadata
+const AUDIO_TOKENS_PER_SECOND = 25;
+const CHARS_PER_TEXT_TOKEN = 4;
+const DEFAULT_GO_AWAY_SECONDS = 5;
+
+const SCRIPTED_LINES = [
+  "Hi! I'm the offline mock server. I can't understand what you say, but I can talk back.",
+  'Type slash tool followed by a tool name to see a tool call, or slash go away to test reconnecting.',
+  "That's interesting. Tell me more.",
+  'I see. Anything else you would like to try?',
+];
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Decodes Base64 16-bit PCM into samples.
+ *
+ * @param {string} base64 - The encoded audio.
+ * @returns {Int16Array} The samples.
+ */
+function decodePcm(base64) {
+  const bytes = Buffer.from(base64, 'base64');
+  return new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.length / 2));
+}
+
+/**
+ * Encodes 16-bit PCM samples as Base64.
+ *
+ * @param {Int16Array} samples - The samples.
+ * @returns {string} The encoded audio.
+ */
+function encodePcm(samples) {
+  return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength).toString('base64');
+}
+
+/**
+ * Computes the volume of a chunk.
+ *
+ * @param {Int16Array} samples - The samples.
+ * @returns {number} The RMS level between 0 and 1.
+ */
+function rms(samples) {
+  let sum = 0;
+  for (const sample of samples) {
+    sum += (sample / 32768) ** 2;
+  }
+  return samples.length ? Math.sqrt(sum / samples.length) : 0;
+}
+
+/**
+ * Resamples audio with linear interpolation.
+ *
+ * @param {Int16Array} input - The samples.
+ * @param {number} fromRate - The input sample rate.
+ * @param {number} toRate - The output sample rate.
+ * @returns {Int16Array} The resampled audio.
+ */
+function resample(input, fromRate, toRate) {
+  const output = new Int16Array(Math.floor((input.length * toRate) / fromRate));
+  const step = fromRate / toRate;
+  for (let i = 0; i < output.length; i++) {
+    const t = i * step;
+    const index = Math.floor(t);
+    const next = Math.min(index + 1, input.length - 1);
+    output[i] = input[index] + (input[next] - input[index]) * (t - index);
+  }
+  return output;
+}
+
+/**
+ * Synthesizes a speech-like sequence of tones, one per word, so replies have
+ * a plausible length and rhythm.
+ *
+ * @param {string} text - The reply text.
+ * @returns {Int16Array} 24 kHz audio.
+ */
+function synthesizeSpeech(text) {
+  const words = text.split(/\s+/).filter(Boolean);
+  const gap = Math.round(OUTPUT_SAMPLE_RATE * 0.06);
+  const segments = words.map((word, i) => {
+    const length = Math.round(OUTPUT_SAMPLE_RATE * Math.min(0.45, 0.08 + word.length * 0.035));
+    const pitch = 170 + ((i * 37 + word.length * 11) % 90);
+    const segment = new Int16Array(length + gap);
+    for (let n = 0; n < length; n++) {
+      const envelope = Math.sin((Math.PI * n) / length);
+      const t = n / OUTPUT_SAMPLE_RATE;
+      const wave = Math.sin(2 * Math.PI * pitch * t) + 0.4 * Math.sin(4 * Math.PI * pitch * t);
+      segment[n] = Math.round(wave * envelope * 0.2 * 32767);
+    }
+    return segment;
+  });
+
+  const output = new Int16Array(segments.reduce((total, segment) => total + segment.length, 0));
+  let offset = 0;
+  for (const segment of segments) {
+    output.set(segment, offset);
+    offset += segment.length;
+  }
+  return output;
+}
+
+/**
+ * Estimates the token count of a text.
+ *
+ * @param {string} text - The text.
+ * @returns {number} The estimated tokens.
+ */
+function textTokens(text) {
+  return Math.ceil(text.length / CHARS_PER_TEXT_TOKEN);
+}
+
+/**
+ * Joins audio chunks.
+ *
+ * @param {Int16Array[]} chunks - The chunks.
+ * @returns {Int16Array} The joined audio.
+ */
+function concat(chunks) {
+  const output = new Int16Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+let nextSessionId = 1;
+
+/**
+ * One client connection.
+ */
+class MockSession {
+  constructor(socket) {
+    this.id = nextSessionId++;
+    this.socket = socket;
+    this.setup = null;
+    this.manualActivity = false;
+    this.endOfSpeechMs = END_OF_SPEECH_MS;
+    this.functionNames = [];
+    this.turnAudio = [];
+    this.userSpeaking = false;
+    this.lastSpeechAt = 0;
+    this.inActivity = false;
+    this.currentReply = null;
+    this.pendingToolCalls = new Map();
+    this.turnCount = 0;
+    this.lineIndex = 0;
+    this.timers = [];
+    // The context the model has seen, which the Live API bills on every turn
+    this.contextTokens = { text: 0, audio: 0 };
+
+    socket.on('message', (raw) => {
+      try {
+        this.handle(JSON.parse(raw.toString()));
+      } catch (error) {
+        this.log('Bad message:', error.message);
+      }
+    });
+    socket.on('close', () => {
+      this.cancelReply(false);
+      this.timers.forEach(clearTimeout);
+      this.log('Closed');
+    });
+  }
+
+  log(...parts) {
+    console.log(`[session ${this.id}]`, ...parts);
+  }
+
+  send(message) {
+    if (this.socket.readyState === this.socket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  handle(message) {
+    if (message.setup) this.onSetup(message.setup);
+    else if (message.realtimeInput) this.onRealtimeInput(message.realtimeInput);
+    else if (message.clientContent) this.onClientContent(message.clientContent);
+    else if (message.toolResponse) this.onToolResponse(message.toolResponse);
+  }
+
+  onSetup(setup) {
+    this.setup = setup;
+    this.manualActivity = !!setup.realtimeInputConfig?.automaticActivityDetection?.disabled;
+    this.endOfSpeechMs = setup.realtimeInputConfig?.automaticActivityDetection?.silenceDurationMs ?? END_OF_SPEECH_MS;
+    this.textReplies = !!setup.generationConfig?.responseModalities?.includes('TEXT');
+    this.functionNames = (setup.tools ?? []).flatMap((tool) => tool.functionDeclarations ?? []).map((fn) => fn.name);
+    const instruction = (setup.systemInstruction?.parts ?? []).map((part) => part.text ?? '').join('');
+    this.contextTokens.text += textTokens(instruction);
+    const handle = setup.sessionResumption?.handle;
+    this.log(
+      `Setup: model=${setup.model}`,
+      handle ? `resuming ${handle}` : 'new session',
+      this.manualActivity ? '(manual activity)' : '',
+      this.textReplies ? '(text replies)' : '',
+      this.functionNames.length ? `tools=${this.functionNames.join(',')}` : ''
+    );
+
+    this.send({ setupComplete: {} });
+    this.sendResumptionUpdate();
+    if (GO_AWAY_AFTER_S) {
+      this.timers.push(setTimeout(() => this.goAway(DEFAULT_GO_AWAY_SECONDS), GO_AWAY_AFTER_S * 1000));
+    }
+  }
+
+  onRealtimeInput(input) {
+    const audio = input.audio ?? input.mediaChunks?.find((chunk) => chunk.mimeType?.startsWith('audio/'));
+    if (audio?.data) this.onAudio(decodePcm(audio.data));
+    if (input.activityStart) {
+      this.cancelReply();
+      this.inActivity = true;
+      this.turnAudio = [];
+    }
+    if (input.activityEnd) {
+      this.inActivity = false;
+      this.endUserTurn();
+    }
+    if (input.text) this.onUserText(input.text);
+  }
+
+  onAudio(samples) {
+    if (this.manualActivity) {
+      if (this.inActivity) this.turnAudio.push(samples);
+      return;
+    }
+
+    const now = Date.now();
+    if (rms(samples) > SPEECH_RMS) {
+      if (!this.userSpeaking) {
+        this.userSpeaking = true;
+        // Barge-in: the user started talking over the reply
+        this.cancelReply();
+      }
+      this.lastSpeechAt = now;
+      this.turnAudio.push(samples);
+    } else if (this.userSpeaking) {
+      this.turnAudio.push(samples);
+      if (now - this.lastSpeechAt > this.endOfSpeechMs) {
+        this.userSpeaking = false;
+        this.endUserTurn();
+      }
+    }
+  }
+
+  endUserTurn() {
+    const audio = concat(this.turnAudio);
+    this.turnAudio = [];
+    const seconds = audio.length / INPUT_SAMPLE_RATE;
+    if (seconds < MIN_TURN_SECONDS) return;
+
+    this.log(`User spoke for ${seconds.toFixed(1)}s`);
+    this.contextTokens.audio += Math.round(seconds * AUDIO_TOKENS_PER_SECOND);
+    if (this.setup?.inputAudioTranscription) {
+      this.send({ serverContent: { inputTranscription: { text: `(${seconds.toFixed(1)} seconds of speech)`, finished: true } } });
+    }
+
+    if (MODE === 'echo') {
+      this.reply('Here is what you said.', resample(audio, INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE));
+    } else {
+      this.reply(this.nextLine());
+    }
+  }
+
+  onClientContent(content) {
+    const turns = Array.isArray(content.turns) ? content.turns : content.turns ? [content.turns] : [];
+    const text = turns
+      .flatMap((turn) => turn.parts ?? [])
+      .map((part) => part.text ?? '')
+      .join(' ')
+      .trim();
+    if (text) this.onUserText(text);
+  }
+
+  onUserText(text) {
+    this.log(`User typed: ${text}`);
+    this.contextTokens.text += textTokens(text);
+    this.cancelReply();
+
+    const toolMatch = /^\/tool\s+(\S+)\s*(.*)$/.exec(text);
+    if (toolMatch) {
+      this.callTool(toolMatch[1], toolMatch[2]);
+      return;
+    }
+    const goAwayMatch = /^\/goaway\s*(\d+)?/.exec(text);
+    if (goAwayMatch) {
+      this.goAway(goAwayMatch[1] ? Number(goAwayMatch[1]) : DEFAULT_GO_AWAY_SECONDS);
+      return;
+    }
+
+    this.reply(MODE === 'echo' ? `You said: ${text}` : this.nextLine());
+  }
+
+  nextLine() {
+    const line = SCRIPTED_LINES[this.lineIndex % SCRIPTED_LINES.length];
+    this.lineIndex++;
+    return line;
+  }
+
+  callTool(name, rawArgs) {
+    if (!this.functionNames.includes(name)) {
+      this.reply(`This agent has no tool called ${name}.`);
+      return;
+    }
+    let callArgs = {};
+    try {
+      callArgs = rawArgs ? JSON.parse(rawArgs) : {};
+    } catch {
+      this.reply('The tool arguments must be JSON.');
+      return;
+    }
+
+    const id = `mock-call-${this.id}-${Date.now()}`;
+    this.pendingToolCalls.set(id, name);
+    this.log(`Calling tool ${name}`, callArgs);
+    this.send({ toolCall: { functionCalls: [{ id, name, args: callArgs }] } });
+  }
+
+  onToolResponse(toolResponse) {
+    for (const response of toolResponse.functionResponses ?? []) {
+      const name = this.pendingToolCalls.get(response.id) ?? response.name;
+      this.pendingToolCalls.delete(response.id);
+      this.log(`Tool ${name} returned`, JSON.stringify(response.response));
+      this.reply(`The ${name} tool returned ${JSON.stringify(response.response)}.`);
+    }
+  }
+
+  /**
+   * Streams a reply, then completes the turn. The reply is spoken (with its
+   * transcription, if requested) or, for TEXT sessions, sent as text parts.
+   */
+  async reply(text, audio = synthesizeSpeech(text)) {
+    this.cancelReply(false);
+    const reply = { cancelled: false };
+    this.currentReply = reply;
+
+    if (this.textReplies) {
+      await this.streamText(text, reply);
+    } else {
+      await this.streamAudio(text, audio, reply);
+    }
+
+    if (reply.cancelled) return;
+    this.currentReply = null;
+    this.send({ serverContent: { generationComplete: true } });
+    this.sendUsage(
+      this.textReplies
+        ? { text: textTokens(text), audio: 0 }
+        : { text: 0, audio: Math.round((audio.length / OUTPUT_SAMPLE_RATE) * AUDIO_TOKENS_PER_SECOND) }
+    );
+    this.send({ serverContent: { turnComplete: true } });
+    this.turnCount++;
+    this.sendResumptionUpdate();
+  }
+
+  /**
+   * Sends a text reply a few words at a time.
+   */
+  async streamText(text, reply) {
+    const words = text.split(/\s+/);
+    for (let i = 0; i < words.length; i += TEXT_CHUNK_WORDS) {
+      if (reply.cancelled) return;
+      const fragment = words.slice(i, i + TEXT_CHUNK_WORDS).join(' ');
+      this.send({ serverContent: { modelTurn: { parts: [{ text: i ? ` ${fragment}` : fragment }] } } });
+      await sleep(CHUNK_MS);
+    }
+  }
+
+  /**
+   * Sends a spoken reply in chunks, spreading its transcription over the audio.
+   */
+  async streamAudio(text, audio, reply) {
+    const chunkSamples = (OUTPUT_SAMPLE_RATE * CHUNK_MS) / 1000;
+    const chunkCount = Math.max(1, Math.ceil(audio.length / chunkSamples));
+    const words = text.split(/\s+/);
+    let wordsSent = 0;
+
+    for (let i = 0; i < chunkCount; i++) {
+      if (reply.cancelled) return;
+      const chunk = audio.subarray(i * chunkSamples, (i + 1) * chunkSamples);
+      this.send({
+        serverContent: {
+          modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: encodePcm(chunk) } }] },
+        },
+      });
+
+      // Spread the transcription over the audio
+      const wordsDue = Math.round((words.length * (i + 1)) / chunkCount);
+      if (wordsDue > wordsSent) {
+        const fragment = words.slice(wordsSent, wordsDue).join(' ');
+        if (this.setup?.outputAudioTranscription) {
+          this.send({ serverContent: { outputTranscription: { text: wordsSent ? ` ${fragment}` : fragment } } });
+        }
+        wordsSent = wordsDue;
+      }
+
+      if (i >= PREBUFFER_CHUNKS) await sleep(CHUNK_MS);
+    }
+  }
+
+  /**
+   * Reports the turn's token usage: the whole context as the prompt, plus the reply.
+   * The reply then becomes part of the context.
+   */
+  sendUsage(response) {
+    const prompt = this.contextTokens;
+    const promptTokenCount = prompt.text + prompt.audio;
+    const responseTokenCount = response.text + response.audio;
+    this.send({
+      usageMetadata: {
+        promptTokenCount,
+        responseTokenCount,
+        totalTokenCount: promptTokenCount + responseTokenCount,
+        promptTokensDetails: [
+          { modality: 'TEXT', tokenCount: prompt.text },
+          { modality: 'AUDIO', tokenCount: prompt.audio },
+        ],
+        responseTokensDetails: [response.audio ? { modality: 'AUDIO', tokenCount: response.audio } : { modality: 'TEXT', tokenCount: response.text }],
+      },
+    });
+    this.contextTokens = { text: prompt.text + response.text, audio: prompt.audio + response.audio };
+  }
+
+  /**
+   * Stops the reply in progress, telling the client to flush its playback.
+   *
+   * @param {boolean} [notify=true] - Whether to send `interrupted`.
+   */
+  cancelReply(notify = true) {
+    if (!this.currentReply) return;
+    this.currentReply.cancelled = true;
+    this.currentReply = null;
+    if (notify) {
+      this.log('Interrupted');
+      this.send({ serverContent: { interrupted: true } });
+    }
+  }
+
+  sendResumptionUpdate() {
+    if (!this.setup?.sessionResumption) return;
+    this.send({ sessionResumptionUpdate: { newHandle: `mock-handle-${this.id}-${this.turnCount}`, resumable: true } });
+  }
+
+  goAway(seconds) {
+    this.log(`Going away in ${seconds}s`);
+    this.send({ goAway: { timeLeft: `${seconds}s` } });
+    this.timers.push(setTimeout(() => this.socket.close(1001, 'Going away'), seconds * 1000));
+  }
+}
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket, request) => {
+  const session = new MockSession(socket);
+  const path = (request.url ?? '').split('?')[0];
+  session.log(`Connected on ${path}`);
+  if (!path.includes('BidiGenerateContent')) {
+    session.log('Warning: unexpected path; the Live API uses .../BidiGenerateContent');
+  }
+});
+
+server.on('listening', () => {
+  console.log(`Mock Gemini Live server (${MODE} mode) listening on ws://localhost:${PORT}`);
+  console.log(`Point a client at it with GEMINI_LIVE_BASE_URL=http://localhost:${PORT}`);
+});
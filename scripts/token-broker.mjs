@@ -0,0 +1,148 @@
+/**
+ * Local token broker for the web app: keeps the Gemini API key on the server
+ * and hands the browser short-lived, single-use Live API tokens instead.
+ *
+ * - `POST /token` mints an ephemeral token and answers `{ token, expireTime }`;
+ *   the app uses `token` in place of an API key for one Live API session.
+ * - `GET /health` answers `{ ok: true }`.
+ *
+ * Tokens must start a session within a minute and stop working after
+ * `--ttl-minutes`. Only the listed origins may request tokens, and minting is
+ * rate-limited, so other pages open in the browser can't spend the key.
+ *
+ * The key is read from `GEMINI_API_KEY`, or from `.env.local` / `.env`.
+ *
+ * Usage:
+ *   npm run token-broker -- [--port 8787] [--allow-origin http://localhost:5000[,…]]
+ *                           [--ttl-minutes 30] [--max-per-minute 20]
+ *
+ * Then enter `http://localhost:8787` as the token broker in the app's Settings,
+ * or build the app with `GEMINI_TOKEN_BROKER_URL=http://localhost:8787`.
+ */
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import { GoogleGenAI } from '@google/genai';
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.TOKEN_BROKER_PORT ?? '8787' },
+    'allow-origin': { type: 'string', default: 'http://localhost:5000' },
+    'ttl-minutes': { type: 'string', default: '30' },
+    'max-per-minute': { type: 'string', default: '20' },
+  },
+});
+
+const PORT = Number(args.port);
+const ALLOWED_ORIGINS = args['allow-origin'].split(',').map((origin) => origin.trim()).filter(Boolean);
+const TTL_MS = Number(args['ttl-minutes']) * 60 * 1000;
+const MAX_PER_MINUTE = Number(args['max-per-minute']);
+// How long a token may take to start its session
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+
+for (const file of ['.env.local', '.env']) {
+  if (process.env.GEMINI_API_KEY) break;
+  try {
+    process.loadEnvFile(file);
+  } catch {
+    // No such file
+  }
+}
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set. Export it or add it to .env.local.');
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+
+// Times of the tokens minted in the last minute
+let recentMints = [];
+
+/**
+ * Sends a JSON response.
+ *
+ * @param {import('node:http').ServerResponse} res - The response.
+ * @param {number} status - The HTTP status.
+ * @param {object} body - The response body.
+ */
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Mints a single-use Live API token.
+ *
+ * @returns {Promise<{ token: string; expireTime: string }>} The token and when it expires.
+ */
+async function mintToken() {
+  const now = Date.now();
+  const expireTime = new Date(now + TTL_MS).toISOString();
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime,
+      newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+      httpOptions: { apiVersion: 'v1alpha' },
+    },
+  });
+  if (!token.name) {
+    throw new Error('The API returned no token');
+  }
+  return { token: token.name, expireTime };
+}
+
+const server = createServer(async (req, res) => {
+  const origin = req.headers.origin;
+  const path = (req.url ?? '').split('?')[0];
+
+  if (origin) {
+    if (!ALLOWED_ORIGINS.includes(origin)) {
+      console.warn(`Rejected request from ${origin}`);
+      sendJson(res, 403, { error: `Origin ${origin} is not allowed` });
+      return;
+    }
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Methods', 'POST, GET');
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (req.method === 'GET' && path === '/health') {
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+
+  if (req.method !== 'POST' || path !== '/token') {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  const now = Date.now();
+  recentMints = recentMints.filter((time) => now - time < 60 * 1000);
+  if (recentMints.length >= MAX_PER_MINUTE) {
+    sendJson(res, 429, { error: 'Too many token requests, try again in a minute' });
+    return;
+  }
+  recentMints.push(now);
+
+  try {
+    const token = await mintToken();
+    console.log(`Minted a token, expires ${token.expireTime}`);
+    sendJson(res, 200, token);
+  } catch (error) {
+    console.error('Failed to mint a token:', error);
+    sendJson(res, 502, { error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Token broker listening on http://localhost:${PORT}`);
+  console.log(`Allowed origins: ${ALLOWED_ORIGINS.join(', ')}`);
+});
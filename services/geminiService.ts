@@ -1,3 +1,164 @@
+import { GoogleGenAI, Modality, Type } from '@google/genai';
+import { Agent, TranscriptEntry } from '../types';
+import { base64ToArrayBuffer, parseSampleRate } from '../lib/audioUtils';
+import { getApiKey } from '../lib/credentials';
+
 /**
- * This service is currently empty and reserved for future implementation of Gemini API interactions.
+ * Text-to-speech model used for voice previews. It shares the Live API's prebuilt voices.
  */
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+/**
+ * Text model used to summarize conversations into agent memory.
+ */
+const SUMMARY_MODEL = 'gemini-2.5-flash';
+
+/**
+ * The longest transcript sent for summarizing. Longer ones keep their end.
+ */
+const MAX_SUMMARY_TRANSCRIPT_CHARS = 20000;
+
+let ai: GoogleGenAI | null = null;
+let aiKey = '';
+
+/**
+ * Returns the shared GenAI client, creating it on first use and again when
+ * the API key in Settings changes.
+ *
+ * @returns {GoogleGenAI} The client.
+ * @throws {Error} If no API key was entered.
+ */
+function getClient(): GoogleGenAI {
+  const apiKey = getApiKey();
+  if (!ai || apiKey !== aiKey) {
+    ai = new GoogleGenAI({ apiKey });
+    aiKey = apiKey;
+  }
+  return ai;
+}
+
+/**
+ * Synthesizes speech with a prebuilt voice.
+ *
+ * @param {string} text - The text to speak.
+ * @param {Agent['voice']} voice - The voice and language to use.
+ * @returns {Promise<{ data: ArrayBuffer; sampleRate: number }>} 16-bit mono PCM audio and its sample rate.
+ * @throws {Error} If the model returns no audio.
+ */
+export async function synthesizeSpeech(
+  text: string,
+  voice: Agent['voice']
+): Promise<{ data: ArrayBuffer; sampleRate: number }> {
+  const response = await getClient().models.generateContent({
+    model: TTS_MODEL,
+    contents: [{ role: 'user', parts: [{ text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: voice.name } },
+        languageCode: voice.languageCode,
+      },
+    },
+  });
+
+  const inlineData = response.candidates?.[0]?.content?.parts?.find((part) => part.inlineData?.data)?.inlineData;
+  if (!inlineData?.data) {
+    throw new Error('No audio returned for voice preview');
+  }
+  return {
+    data: base64ToArrayBuffer(inlineData.data),
+    sampleRate: parseSampleRate(inlineData.mimeType ?? ''),
+  };
+}
+
+/**
+ * Speaks a phrase with the given voice and resolves when playback ends.
+ *
+ * @param {string} text - The phrase to speak.
+ * @param {Agent['voice']} voice - The voice and language to use.
+ * @returns {Promise<void>}
+ */
+export async function playVoicePreview(text: string, voice: Agent['voice']): Promise<void> {
+  const { data, sampleRate } = await synthesizeSpeech(text, voice);
+
+  const context = new AudioContext();
+  try {
+    const pcm = new Int16Array(data);
+    // The buffer keeps the source rate; Web Audio resamples it to the context's rate
+    const buffer = context.createBuffer(1, pcm.length, sampleRate);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < pcm.length; i++) {
+      channel[i] = pcm[i] / 32768;
+    }
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    await new Promise<void>((resolve) => {
+      source.onended = () => resolve();
+      source.start();
+    });
+  } finally {
+    await context.close();
+  }
+}
+
+/**
+ * Summarizes a conversation for an agent's memory.
+ *
+ * @param {TranscriptEntry[]} transcript - The conversation's turns.
+ * @param {{ agentName: string; userName: string; knownFacts: string[] }} context - Who spoke,
+ * and the facts the agent already knows (which are not returned again).
+ * @returns {Promise<{ summary: string; facts: string[] }>} A short summary and newly learned facts about the user.
+ * @throws {Error} If the model's response cannot be parsed.
+ */
+export async function summarizeConversation(
+  transcript: TranscriptEntry[],
+  context: { agentName: string; userName: string; knownFacts: string[] }
+): Promise<{ summary: string; facts: string[] }> {
+  const dialogue = transcript
+    .map((entry) => `${entry.speaker === 'user' ? context.userName : context.agentName}: ${entry.text.trim()}`)
+    .join('\n')
+    .slice(-MAX_SUMMARY_TRANSCRIPT_CHARS);
+
+  const prompt = [
+    `Below is a conversation between ${context.userName} (the user) and ${context.agentName} (an AI companion).`,
+    'Write a summary of two or three sentences that would help the companion pick up where they left off.',
+    `Also list new, lasting facts about ${context.userName} that came up (preferences, plans, people, circumstances), each as one short sentence.`,
+    'Leave out small talk and anything already known.',
+    '',
+    'Already known:',
+    ...(context.knownFacts.length ? context.knownFacts.map((fact) => `- ${fact}`) : ['(nothing)']),
+    '',
+    'Conversation:',
+    dialogue,
+  ].join('\n');
+
+  const response = await getClient().models.generateContent({
+    model: SUMMARY_MODEL,
+    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          summary: { type: Type.STRING },
+          facts: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['summary', 'facts'],
+      },
+    },
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(response.text ?? '');
+  } catch {
+    throw new Error('Conversation summary was not valid JSON');
+  }
+  const { summary, facts } = (parsed ?? {}) as { summary?: unknown; facts?: unknown };
+  return {
+    summary: typeof summary === 'string' ? summary : '',
+    facts: Array.isArray(facts) ? facts.filter((fact): fact is string => typeof fact === 'string') : [],
+  };
+}
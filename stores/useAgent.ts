@@ -1,37 +1,95 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { Agent } from '../types';
+import { DEFAULT_VOICE, normalizeVoice } from '../lib/voices';
+import { createPersona, normalizePersona, personaFromText } from '../lib/persona';
 
 /**
  * Predefined agent presets.
  */
-const AGENT_PRESETS: Agent[] = [
+export const AGENT_PRESETS: Agent[] = [
   {
     id: 'zara-p',
     name: 'Zara',
-    personality:
-      'You are Zara, a friendly and insightful AI assistant. You are curious, encouraging, and knowledgeable. You break down complex topics into easy-to-understand explanations. You are patient and always willing to help.',
+    persona: createPersona({
+      role: 'a friendly and insightful AI assistant',
+      tone: 'curious, encouraging and knowledgeable',
+      dos: [
+        'Break down complex topics into easy-to-understand explanations',
+        'Be patient and always willing to help',
+      ],
+    }),
     bodyColor: '#3b82f6', // blue-500
-    voice: { pitch: 'medium', style: 'calm' },
+    voice: { name: 'Aoede', languageCode: 'en-US' },
   },
   {
     id: 'kai-p',
     name: 'Kai',
-    personality:
-      "You are Kai, an energetic and enthusiastic AI companion. You're passionate about creativity, brainstorming, and innovation. You speak in a lively, upbeat manner and often use positive affirmations. You are great at motivating others.",
+    persona: createPersona({
+      role: 'an energetic and enthusiastic AI companion',
+      tone: 'lively and upbeat',
+      dos: ['Use positive affirmations often', 'Motivate others'],
+      notes: "You're passionate about creativity, brainstorming, and innovation.",
+    }),
     bodyColor: '#f59e0b', // amber-500
-    voice: { pitch: 'medium', style: 'energetic' },
+    voice: { name: 'Puck', languageCode: 'en-US' },
   },
   {
     id: 'onyx-p',
     name: 'Onyx',
-    personality:
-      'You are Onyx, a direct and concise AI expert. You value accuracy and efficiency. You speak in a formal, measured tone. You get straight to the point but can provide deep analysis when requested. You are highly logical and analytical.',
+    persona: createPersona({
+      role: 'a direct and concise AI expert',
+      tone: 'formal and measured',
+      dos: [
+        'Value accuracy and efficiency',
+        'Get straight to the point, but provide deep analysis when requested',
+      ],
+      notes: 'You are highly logical and analytical.',
+    }),
     bodyColor: '#6b7280', // gray-500
-    voice: { pitch: 'low', style: 'formal' },
+    voice: { name: 'Orus', languageCode: 'en-US' },
   },
 ];
 
+/**
+ * The free-text personalities the presets shipped with before personas were
+ * structured, used to recognize unedited presets in old stored state.
+ */
+const LEGACY_PRESET_PERSONALITIES: Record<string, string> = {
+  'zara-p':
+    'You are Zara, a friendly and insightful AI assistant. You are curious, encouraging, and knowledgeable. You break down complex topics into easy-to-understand explanations. You are patient and always willing to help.',
+  'kai-p':
+    "You are Kai, an energetic and enthusiastic AI companion. You're passionate about creativity, brainstorming, and innovation. You speak in a lively, upbeat manner and often use positive affirmations. You are great at motivating others.",
+  'onyx-p':
+    'You are Onyx, a direct and concise AI expert. You value accuracy and efficiency. You speak in a formal, measured tone. You get straight to the point but can provide deep analysis when requested. You are highly logical and analytical.',
+};
+
+/**
+ * Template for agents created from scratch.
+ */
+const NEW_AGENT_TEMPLATE: Omit<Agent, 'id'> = {
+  name: 'New Agent',
+  persona: createPersona({ role: 'a helpful and friendly AI companion' }),
+  bodyColor: '#10b981', // emerald-500
+  voice: DEFAULT_VOICE,
+};
+
+/**
+ * Generates a unique ID for a personal agent.
+ *
+ * @returns {string} The generated ID.
+ */
+const createAgentId = (): string =>
+  `agent-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Checks whether an agent ID belongs to a preset.
+ *
+ * @param {string} agentId - The agent ID.
+ * @returns {boolean} True if the ID is a preset's.
+ */
+export const isPresetId = (agentId: string): boolean =>
+  AGENT_PRESETS.some((preset) => preset.id === agentId);
 
 /**
  * State definition for the Agent store.
@@ -42,7 +100,7 @@ type AgentState = {
    */
   current: Agent;
   /**
-   * List of available preset agents.
+   * List of available preset agents, including any local edits.
    */
   availablePresets: Agent[];
   /**
@@ -56,14 +114,174 @@ type AgentState = {
   setCurrent: (agentId: string) => void;
   /**
    * Updates the current agent's data.
+   * Edits to a preset are kept until the preset is reset.
    * @param {Partial<Agent>} agentData - The partial agent data to update.
    */
   update: (agentData: Partial<Agent>) => void;
-  // addAgent, deleteAgent etc. could be added here
+  /**
+   * Creates a new personal agent and selects it.
+   * @param {Partial<Agent>} [agentData] - Initial values, merged over a default template.
+   * @returns {Agent} The created agent.
+   */
+  createAgent: (agentData?: Partial<Omit<Agent, 'id'>>) => Agent;
+  /**
+   * Copies an existing agent (preset or personal) into a new personal agent and selects it.
+   * @param {string} agentId - The ID of the agent to copy.
+   * @returns {Agent | null} The copy, or null if the agent was not found.
+   */
+  duplicateAgent: (agentId: string) => Agent | null;
+  /**
+   * Renames an agent.
+   * @param {string} agentId - The ID of the agent to rename.
+   * @param {string} name - The new name.
+   */
+  renameAgent: (agentId: string, name: string) => void;
+  /**
+   * Deletes a personal agent. Presets cannot be deleted.
+   * If the deleted agent was selected, the first preset is selected instead.
+   * @param {string} agentId - The ID of the agent to delete.
+   */
+  deleteAgent: (agentId: string) => void;
+  /**
+   * Adds imported agents to the personal agents.
+   * Agents whose ID is missing or already taken get a new ID.
+   * @param {Agent[]} agents - The validated agents to import.
+   * @returns {Agent[]} The imported agents, with their final IDs.
+   */
+  importAgents: (agents: Agent[]) => Agent[];
+  /**
+   * Discards local edits to a preset, restoring its shipped definition.
+   * @param {string} presetId - The ID of the preset to reset.
+   */
+  resetPreset: (presetId: string) => void;
 };
 
 /**
- * Store for managing agent state, including selection, updates, and persistence.
+ * The shape of the agent store saved to local storage.
+ *
+ * Only edited presets are stored, so presets added or changed in a new
+ * release reach existing users.
+ */
+type PersistedAgentState = {
+  currentId: string;
+  presetOverrides: Record<string, Agent>;
+  availablePersonal: Agent[];
+};
+
+/**
+ * An agent as stored before version 3, with a free-text personality.
+ */
+type LegacyAgent = Omit<Agent, 'persona'> & { personality?: string; persona?: unknown };
+
+/**
+ * The persisted shape before version 1, which stored whole agent objects.
+ */
+type PersistedAgentStateV0 = {
+  current?: LegacyAgent;
+  availablePresets?: LegacyAgent[];
+  availablePersonal?: LegacyAgent[];
+};
+
+const AGENT_STORAGE_VERSION = 3;
+
+/**
+ * Applies preset overrides to the shipped presets.
+ *
+ * @param {Record<string, Agent>} overrides - Edited presets by ID.
+ * @returns {Agent[]} The presets with overrides applied.
+ */
+const applyPresetOverrides = (overrides: Record<string, Agent>): Agent[] =>
+  AGENT_PRESETS.map((preset) => overrides[preset.id] ?? preset);
+
+/**
+ * Replaces an agent in a list by ID.
+ *
+ * @param {Agent[]} agents - The list.
+ * @param {Agent} agent - The replacement.
+ * @returns {Agent[]} A new list.
+ */
+const replaceAgent = (agents: Agent[], agent: Agent): Agent[] =>
+  agents.map((a) => (a.id === agent.id ? agent : a));
+
+/**
+ * Migrates a persisted agent store to the current version.
+ *
+ * - Version 0 stored `current` and the full `availablePresets` list, and `update`
+ *   only changed `current`. Presets that differ from their shipped definition
+ *   (in the list or as the selected agent) become overrides.
+ * - Version 1 stored abstract `pitch`/`style` voices, which are mapped to
+ *   prebuilt voices.
+ * - Version 2 stored a free-text `personality`, which becomes the `notes` of
+ *   a structured persona, unchanged.
+ *
+ * @param {unknown} persistedState - The stored state.
+ * @param {number} version - The version it was stored with.
+ * @returns {PersistedAgentState} The migrated state.
+ */
+export const migrateAgentStorage = (persistedState: unknown, version: number): PersistedAgentState => {
+  // Agents are only typed as `Agent` again once the version 3 step has run
+  let state = persistedState as Omit<PersistedAgentState, 'presetOverrides' | 'availablePersonal'> & {
+    presetOverrides: Record<string, LegacyAgent>;
+    availablePersonal: LegacyAgent[];
+  };
+
+  if (version < 1) {
+    const old = (persistedState ?? {}) as PersistedAgentStateV0;
+    const presetOverrides: Record<string, LegacyAgent> = {};
+    const candidates = [...(old.availablePresets ?? []), ...(old.current ? [old.current] : [])];
+
+    for (const agent of candidates) {
+      const preset = AGENT_PRESETS.find((p) => p.id === agent.id);
+      if (!preset) {
+        continue;
+      }
+      // Compare voices after mapping, since shipped presets already use prebuilt voices.
+      // Presets now ship structured personas, so the personality is compared to the old text.
+      const { personality, persona: _persona, ...rest } = agent;
+      const { persona: _shipped, ...shipped } = preset;
+      const mapped = { ...rest, voice: normalizeVoice(agent.voice) };
+      if (personality !== LEGACY_PRESET_PERSONALITIES[preset.id] || JSON.stringify(mapped) !== JSON.stringify(shipped)) {
+        presetOverrides[agent.id] = agent;
+      }
+    }
+
+    state = {
+      currentId: old.current?.id ?? AGENT_PRESETS[0].id,
+      presetOverrides,
+      availablePersonal: old.availablePersonal ?? [],
+    };
+  }
+
+  if (version < 2) {
+    const withVoice = (agent: LegacyAgent): LegacyAgent => ({ ...agent, voice: normalizeVoice(agent.voice) });
+    state = {
+      ...state,
+      presetOverrides: Object.fromEntries(
+        Object.entries(state.presetOverrides ?? {}).map(([id, agent]) => [id, withVoice(agent)])
+      ),
+      availablePersonal: (state.availablePersonal ?? []).map(withVoice),
+    };
+  }
+
+  if (version < 3) {
+    const withPersona = ({ personality, persona, ...agent }: LegacyAgent): Agent => ({
+      ...agent,
+      persona: persona ? normalizePersona(persona) : personaFromText(personality ?? ''),
+    });
+    return {
+      ...state,
+      presetOverrides: Object.fromEntries(
+        Object.entries(state.presetOverrides ?? {}).map(([id, agent]) => [id, withPersona(agent)])
+      ),
+      availablePersonal: (state.availablePersonal ?? []).map(withPersona),
+    };
+  }
+
+  return state as PersistedAgentState;
+};
+
+/**
+ * Store for managing agent state, including selection, updates, custom agents and persistence.
  *
  * It uses Zustand with persistence to save the state to local storage.
  */
@@ -81,13 +299,102 @@ export const useAgentStore = create<AgentState>()(
         }
       },
       update: (agentData) => {
+        set((state) => {
+          const current = { ...state.current, ...agentData, id: state.current.id };
+          return {
+            current,
+            availablePresets: replaceAgent(state.availablePresets, current),
+            availablePersonal: replaceAgent(state.availablePersonal, current),
+          };
+        });
+      },
+      createAgent: (agentData = {}) => {
+        const agent: Agent = { ...NEW_AGENT_TEMPLATE, ...agentData, id: createAgentId() };
+        set((state) => ({
+          current: agent,
+          availablePersonal: [...state.availablePersonal, agent],
+        }));
+        return agent;
+      },
+      duplicateAgent: (agentId) => {
+        const source = [...get().availablePresets, ...get().availablePersonal].find((a) => a.id === agentId);
+        if (!source) {
+          return null;
+        }
+        const { id: _id, ...rest } = source;
+        return get().createAgent({ ...rest, name: `${source.name} (copy)` });
+      },
+      renameAgent: (agentId, name) => {
+        const trimmed = name.trim();
+        if (!trimmed) {
+          return;
+        }
+        set((state) => {
+          const rename = (a: Agent) => (a.id === agentId ? { ...a, name: trimmed } : a);
+          return {
+            current: rename(state.current),
+            availablePresets: state.availablePresets.map(rename),
+            availablePersonal: state.availablePersonal.map(rename),
+          };
+        });
+      },
+      deleteAgent: (agentId) => {
+        if (isPresetId(agentId)) {
+          console.warn('Preset agents cannot be deleted:', agentId);
+          return;
+        }
+        set((state) => ({
+          availablePersonal: state.availablePersonal.filter((a) => a.id !== agentId),
+          current: state.current.id === agentId ? state.availablePresets[0] : state.current,
+        }));
+      },
+      importAgents: (agents) => {
+        const { availablePresets, availablePersonal } = get();
+        const takenIds = new Set([...availablePresets, ...availablePersonal].map((a) => a.id));
+        const imported = agents.map((agent) => {
+          const id = agent.id && !takenIds.has(agent.id) ? agent.id : createAgentId();
+          takenIds.add(id);
+          return { ...agent, id };
+        });
+        set((state) => ({ availablePersonal: [...state.availablePersonal, ...imported] }));
+        return imported;
+      },
+      resetPreset: (presetId) => {
+        const preset = AGENT_PRESETS.find((p) => p.id === presetId);
+        if (!preset) {
+          return;
+        }
         set((state) => ({
-          current: { ...state.current, ...agentData },
+          availablePresets: replaceAgent(state.availablePresets, preset),
+          current: state.current.id === presetId ? preset : state.current,
         }));
       },
     }),
     {
       name: 'agent-storage',
+      version: AGENT_STORAGE_VERSION,
+      migrate: migrateAgentStorage,
+      partialize: (state): PersistedAgentState => ({
+        currentId: state.current.id,
+        presetOverrides: Object.fromEntries(
+          state.availablePresets
+            .filter((agent) => !AGENT_PRESETS.includes(agent))
+            .map((agent) => [agent.id, agent])
+        ),
+        availablePersonal: state.availablePersonal,
+      }),
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as PersistedAgentState | undefined;
+        if (!persisted) {
+          return currentState;
+        }
+        const availablePresets = applyPresetOverrides(persisted.presetOverrides ?? {});
+        const availablePersonal = persisted.availablePersonal ?? [];
+        const current =
+          [...availablePresets, ...availablePersonal].find((a) => a.id === persisted.currentId) ??
+          availablePresets[0];
+        return { ...currentState, current, availablePresets, availablePersonal };
+      },
     }
   )
 );
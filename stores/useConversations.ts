@@ -0,0 +1,149 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Conversation, TokenUsage, TranscriptEntry } from '../types';
+
+/**
+ * The most conversations kept. The oldest are dropped beyond this, since
+ * local storage space is limited.
+ */
+const MAX_CONVERSATIONS = 100;
+
+/**
+ * The longest default title taken from the first message.
+ */
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Derives a default title from a transcript.
+ *
+ * @param {TranscriptEntry[]} transcript - The transcript.
+ * @returns {string} The start of the first message, or an empty string.
+ */
+const titleFromTranscript = (transcript: TranscriptEntry[]): string => {
+  const text = transcript.find((entry) => entry.text.trim())?.text.trim() ?? '';
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…` : text;
+};
+
+/**
+ * Checks whether a conversation matches a search query.
+ *
+ * The query is matched case-insensitively against the title, the agent's
+ * name and the transcript text.
+ *
+ * @param {Conversation} conversation - The conversation.
+ * @param {string} query - The search query.
+ * @returns {boolean} True if the conversation matches, or the query is empty.
+ */
+export const matchesConversation = (conversation: Conversation, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return true;
+  }
+  return (
+    conversation.title.toLowerCase().includes(needle) ||
+    conversation.agentName.toLowerCase().includes(needle) ||
+    conversation.transcript.some((entry) => entry.text.toLowerCase().includes(needle))
+  );
+};
+
+/**
+ * State definition for the Conversation store.
+ */
+type ConversationState = {
+  /**
+   * The saved conversations, newest first.
+   */
+  conversations: Conversation[];
+  /**
+   * Starts recording a new conversation.
+   * @param {Pick<Conversation, 'agentId' | 'agentName' | 'userName' | 'startedAt'>} details - Who is talking, and since when.
+   * @returns {string} The ID of the new conversation.
+   */
+  startConversation: (details: Pick<Conversation, 'agentId' | 'agentName' | 'userName' | 'startedAt'>) => string;
+  /**
+   * Replaces a conversation's transcript with its latest finalized turns.
+   * The title is derived from the first message until the user renames it.
+   * @param {string} id - The conversation ID.
+   * @param {TranscriptEntry[]} transcript - The finalized turns.
+   */
+  saveTranscript: (id: string, transcript: TranscriptEntry[]) => void;
+  /**
+   * Marks a conversation as ended now.
+   * @param {string} id - The conversation ID.
+   * @param {TokenUsage} [usage] - The tokens the conversation used, if known.
+   */
+  endConversation: (id: string, usage?: TokenUsage) => void;
+  /**
+   * Renames a conversation.
+   * @param {string} id - The conversation ID.
+   * @param {string} title - The new title. Ignored if blank.
+   */
+  renameConversation: (id: string, title: string) => void;
+  /**
+   * Deletes a conversation.
+   * @param {string} id - The conversation ID.
+   */
+  deleteConversation: (id: string) => void;
+};
+
+/**
+ * Store for the history of past conversations.
+ *
+ * It uses Zustand with persistence to save the state to local storage.
+ */
+export const useConversationStore = create<ConversationState>()(
+  persist(
+    (set, get) => ({
+      conversations: [],
+      startConversation: (details) => {
+        const conversation: Conversation = {
+          ...details,
+          id: `conv-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+          title: '',
+          endedAt: null,
+          transcript: [],
+        };
+        set((state) => ({
+          conversations: [conversation, ...state.conversations].slice(0, MAX_CONVERSATIONS),
+        }));
+        return conversation.id;
+      },
+      saveTranscript: (id, transcript) => {
+        const existing = get().conversations.find((c) => c.id === id);
+        // Finalized turns never change, so an unchanged count means nothing new to save
+        if (!existing || existing.transcript.length === transcript.length) {
+          return;
+        }
+        set((state) => ({
+          conversations: state.conversations.map((c) =>
+            c.id === id
+              ? { ...c, transcript, title: c.title || titleFromTranscript(transcript) }
+              : c
+          ),
+        }));
+      },
+      endConversation: (id, usage) => {
+        set((state) => ({
+          conversations: state.conversations.map((c) =>
+            c.id === id ? { ...c, endedAt: Date.now(), ...(usage && { usage }) } : c
+          ),
+        }));
+      },
+      renameConversation: (id, title) => {
+        const trimmed = title.trim();
+        if (!trimmed) {
+          return;
+        }
+        set((state) => ({
+          conversations: state.conversations.map((c) => (c.id === id ? { ...c, title: trimmed } : c)),
+        }));
+      },
+      deleteConversation: (id) => {
+        set((state) => ({ conversations: state.conversations.filter((c) => c.id !== id) }));
+      },
+    }),
+    {
+      name: 'conversation-storage',
+    }
+  )
+);
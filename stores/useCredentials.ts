@@ -0,0 +1,48 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/**
+ * State definition for the Credentials store.
+ */
+type CredentialsState = {
+  /**
+   * The user's Gemini API key, or an empty string if none was entered.
+   */
+  apiKey: string;
+  /**
+   * The URL of a token broker (`npm run token-broker`) that mints short-lived
+   * Live API tokens, or an empty string to connect with the API key.
+   */
+  tokenBrokerUrl: string;
+  /**
+   * Sets the API key.
+   * @param {string} apiKey - The key, or an empty string to forget it.
+   */
+  setApiKey: (apiKey: string) => void;
+  /**
+   * Sets the token broker URL.
+   * @param {string} tokenBrokerUrl - The URL, or an empty string to stop using a broker.
+   */
+  setTokenBrokerUrl: (tokenBrokerUrl: string) => void;
+};
+
+/**
+ * Store for how the app authenticates with the Gemini API.
+ *
+ * Keys are entered at runtime and kept in this browser's local storage, so no
+ * secret is ever built into the bundle. The broker URL defaults to the
+ * `GEMINI_TOKEN_BROKER_URL` environment variable, which is not a secret.
+ */
+export const useCredentialsStore = create<CredentialsState>()(
+  persist(
+    (set) => ({
+      apiKey: '',
+      tokenBrokerUrl: process.env.GEMINI_TOKEN_BROKER_URL || '',
+      setApiKey: (apiKey) => set({ apiKey: apiKey.trim() }),
+      setTokenBrokerUrl: (tokenBrokerUrl) => set({ tokenBrokerUrl: tokenBrokerUrl.trim() }),
+    }),
+    {
+      name: 'credentials-storage',
+    }
+  )
+);
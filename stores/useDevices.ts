@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/**
+ * State definition for the Devices store.
+ */
+type DevicesState = {
+  /**
+   * The `deviceId` of the microphone to record from, or null for the system default.
+   */
+  inputDeviceId: string | null;
+  /**
+   * The `deviceId` of the speakers to play to, or null for the system default.
+   */
+  outputDeviceId: string | null;
+  /**
+   * Sets the microphone.
+   * @param {string | null} deviceId - The device ID, or null for the system default.
+   */
+  setInputDeviceId: (deviceId: string | null) => void;
+  /**
+   * Sets the speakers.
+   * @param {string | null} deviceId - The device ID, or null for the system default.
+   */
+  setOutputDeviceId: (deviceId: string | null) => void;
+};
+
+/**
+ * Store for the user's choice of audio devices.
+ *
+ * It uses Zustand with persistence to save the state to local storage.
+ */
+export const useDevicesStore = create<DevicesState>()(
+  persist(
+    (set) => ({
+      inputDeviceId: null,
+      outputDeviceId: null,
+      setInputDeviceId: (deviceId) => set({ inputDeviceId: deviceId }),
+      setOutputDeviceId: (deviceId) => set({ outputDeviceId: deviceId }),
+    }),
+    {
+      name: 'device-storage',
+    }
+  )
+);
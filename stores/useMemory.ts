@@ -0,0 +1,159 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/**
+ * The most facts kept per agent. The oldest are dropped beyond this so the
+ * system instruction stays short.
+ */
+const MAX_FACTS = 30;
+
+/**
+ * Something an agent learned about the user.
+ */
+export type MemoryFact = {
+  /**
+   * The unique identifier for the fact.
+   */
+  id: string;
+  /**
+   * The fact, as a short sentence.
+   */
+  text: string;
+  /**
+   * When the fact was learned, in milliseconds since the epoch.
+   */
+  createdAt: number;
+};
+
+/**
+ * What an agent remembers from earlier conversations.
+ */
+export type AgentMemory = {
+  /**
+   * A short summary of the most recent conversation.
+   */
+  summary: string;
+  /**
+   * Facts learned about the user, oldest first.
+   */
+  facts: MemoryFact[];
+  /**
+   * When the memory was last updated, in milliseconds since the epoch.
+   */
+  updatedAt: number;
+};
+
+/**
+ * State definition for the Memory store.
+ */
+type MemoryState = {
+  /**
+   * Memories by agent ID.
+   */
+  memories: Record<string, AgentMemory>;
+  /**
+   * Stores the outcome of a conversation: replaces the summary and adds the
+   * new facts, skipping ones the agent already knows.
+   * @param {string} agentId - The agent's ID.
+   * @param {{ summary: string; facts: string[] }} session - The summary and facts.
+   */
+  recordSession: (agentId: string, session: { summary: string; facts: string[] }) => void;
+  /**
+   * Edits a fact.
+   * @param {string} agentId - The agent's ID.
+   * @param {string} factId - The fact's ID.
+   * @param {string} text - The new text. A blank text deletes the fact.
+   */
+  updateFact: (agentId: string, factId: string, text: string) => void;
+  /**
+   * Deletes a fact.
+   * @param {string} agentId - The agent's ID.
+   * @param {string} factId - The fact's ID.
+   */
+  deleteFact: (agentId: string, factId: string) => void;
+  /**
+   * Forgets everything an agent remembers.
+   * @param {string} agentId - The agent's ID.
+   */
+  clearMemory: (agentId: string) => void;
+};
+
+/**
+ * Updates one agent's memory, if it exists.
+ *
+ * @param {Record<string, AgentMemory>} memories - All memories.
+ * @param {string} agentId - The agent's ID.
+ * @param {(memory: AgentMemory) => AgentMemory} update - Produces the new memory.
+ * @returns {Record<string, AgentMemory>} The new memories.
+ */
+const updateMemory = (
+  memories: Record<string, AgentMemory>,
+  agentId: string,
+  update: (memory: AgentMemory) => AgentMemory
+): Record<string, AgentMemory> =>
+  memories[agentId] ? { ...memories, [agentId]: { ...update(memories[agentId]), updatedAt: Date.now() } } : memories;
+
+/**
+ * Store for what each agent remembers about the user across sessions.
+ *
+ * It uses Zustand with persistence to save the state to local storage.
+ */
+export const useMemoryStore = create<MemoryState>()(
+  persist(
+    (set) => ({
+      memories: {},
+      recordSession: (agentId, { summary, facts }) => {
+        set((state) => {
+          const previous = state.memories[agentId];
+          const known = new Set(previous?.facts.map((fact) => fact.text.toLowerCase()));
+          const added = facts
+            .map((text) => text.trim())
+            .filter((text) => text && !known.has(text.toLowerCase()))
+            .map((text, i) => ({
+              id: `fact-${Date.now().toString(36)}-${i}-${Math.random().toString(36).slice(2, 6)}`,
+              text,
+              createdAt: Date.now(),
+            }));
+          return {
+            memories: {
+              ...state.memories,
+              [agentId]: {
+                summary: summary.trim() || previous?.summary || '',
+                facts: [...(previous?.facts ?? []), ...added].slice(-MAX_FACTS),
+                updatedAt: Date.now(),
+              },
+            },
+          };
+        });
+      },
+      updateFact: (agentId, factId, text) => {
+        const trimmed = text.trim();
+        set((state) => ({
+          memories: updateMemory(state.memories, agentId, (memory) => ({
+            ...memory,
+            facts: trimmed
+              ? memory.facts.map((fact) => (fact.id === factId ? { ...fact, text: trimmed } : fact))
+              : memory.facts.filter((fact) => fact.id !== factId),
+          })),
+        }));
+      },
+      deleteFact: (agentId, factId) => {
+        set((state) => ({
+          memories: updateMemory(state.memories, agentId, (memory) => ({
+            ...memory,
+            facts: memory.facts.filter((fact) => fact.id !== factId),
+          })),
+        }));
+      },
+      clearMemory: (agentId) => {
+        set((state) => {
+          const { [agentId]: _removed, ...rest } = state.memories;
+          return { memories: rest };
+        });
+      },
+    }),
+    {
+      name: 'memory-storage',
+    }
+  )
+);
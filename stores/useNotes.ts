@@ -0,0 +1,74 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/**
+ * A note saved by an agent through the notes tool.
+ */
+export type Note = {
+  /**
+   * The unique identifier for the note.
+   */
+  id: string;
+  /**
+   * The note text.
+   */
+  text: string;
+  /**
+   * When the note was created, in milliseconds since the epoch.
+   */
+  createdAt: number;
+};
+
+/**
+ * State definition for the Notes store.
+ */
+type NotesState = {
+  /**
+   * The saved notes, oldest first.
+   */
+  notes: Note[];
+  /**
+   * Adds a note.
+   * @param {string} text - The note text.
+   * @returns {Note} The created note.
+   */
+  addNote: (text: string) => Note;
+  /**
+   * Deletes a note by ID.
+   * @param {string} id - The ID of the note to delete.
+   * @returns {boolean} True if a note was deleted.
+   */
+  deleteNote: (id: string) => boolean;
+};
+
+/**
+ * Store for notes taken by agents during conversations.
+ *
+ * It uses Zustand with persistence to save the state to local storage.
+ */
+export const useNotesStore = create<NotesState>()(
+  persist(
+    (set, get) => ({
+      notes: [],
+      addNote: (text) => {
+        const note: Note = {
+          id: `note-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+          text,
+          createdAt: Date.now(),
+        };
+        set((state) => ({ notes: [...state.notes, note] }));
+        return note;
+      },
+      deleteNote: (id) => {
+        const exists = get().notes.some((note) => note.id === id);
+        if (exists) {
+          set((state) => ({ notes: state.notes.filter((note) => note.id !== id) }));
+        }
+        return exists;
+      },
+    }),
+    {
+      name: 'notes-storage',
+    }
+  )
+);
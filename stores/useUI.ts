@@ -1,4 +1,28 @@
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { ResponseMode } from '../types';
+
+/**
+ * The main layout of the application.
+ * - `face`: only the agent's face is shown.
+ * - `split`: the face is shown next to the chat panel.
+ */
+export type Layout = 'face' | 'split';
+
+/**
+ * How the microphone is captured while connected.
+ * - `open`: the mic streams continuously and the server detects when the user speaks.
+ * - `pushToTalk`: audio is only sent while the talk button or Space is held.
+ */
+export type MicMode = 'open' | 'pushToTalk';
+
+/**
+ * Which conversation engine serves sessions.
+ * - `auto`: the Live API, falling back to the browser engine when it can't connect.
+ * - `live`: the Live API only.
+ * - `browser`: browser speech recognition and synthesis with a local reply backend.
+ */
+export type EnginePreference = 'auto' | 'live' | 'browser';
 
 /**
  * State definition for the UI store.
@@ -12,6 +36,43 @@ type UIState = {
    * Whether the agent edit modal is visible.
    */
   showAgentEdit: boolean;
+  /**
+   * Whether the application settings modal is visible.
+   */
+  showSettings: boolean;
+  /**
+   * Whether the conversation history sidebar is visible.
+   */
+  showHistory: boolean;
+  /**
+   * The ID of the past conversation shown in the chat panel instead of the
+   * live one, or null to show the live conversation.
+   */
+  viewedConversationId: string | null;
+  /**
+   * The current main layout.
+   */
+  layout: Layout;
+  /**
+   * The microphone mode. Takes effect on the next connection.
+   */
+  micMode: MicMode;
+  /**
+   * How the agent replies. Takes effect on the next connection.
+   */
+  responseMode: ResponseMode;
+  /**
+   * Frames per second sent from the camera or screen share.
+   */
+  videoFrameRate: number;
+  /**
+   * Which conversation engine to use. Takes effect on the next connection.
+   */
+  enginePreference: EnginePreference;
+  /**
+   * The ID of the reply backend the browser engine uses.
+   */
+  replyBackendId: string;
   /**
    * Sets the visibility of the user configuration modal.
    * @param {boolean} show - True to show, false to hide.
@@ -22,14 +83,95 @@ type UIState = {
    * @param {boolean} show - True to show, false to hide.
    */
   setShowAgentEdit: (show: boolean) => void;
+  /**
+   * Sets the visibility of the application settings modal.
+   * @param {boolean} show - True to show, false to hide.
+   */
+  setShowSettings: (show: boolean) => void;
+  /**
+   * Sets the visibility of the conversation history sidebar.
+   * @param {boolean} show - True to show, false to hide.
+   */
+  setShowHistory: (show: boolean) => void;
+  /**
+   * Shows a past conversation in the chat panel.
+   * @param {string | null} id - The conversation ID, or null to return to the live conversation.
+   */
+  setViewedConversationId: (id: string | null) => void;
+  /**
+   * Sets the main layout.
+   * @param {Layout} layout - The layout to use.
+   */
+  setLayout: (layout: Layout) => void;
+  /**
+   * Sets the microphone mode.
+   * @param {MicMode} micMode - The mode to use.
+   */
+  setMicMode: (micMode: MicMode) => void;
+  /**
+   * Sets how the agent replies.
+   * @param {ResponseMode} responseMode - The mode to use.
+   */
+  setResponseMode: (responseMode: ResponseMode) => void;
+  /**
+   * Sets the video frame rate.
+   * @param {number} videoFrameRate - Frames per second.
+   */
+  setVideoFrameRate: (videoFrameRate: number) => void;
+  /**
+   * Sets which conversation engine to use.
+   * @param {EnginePreference} enginePreference - The engine preference.
+   */
+  setEnginePreference: (enginePreference: EnginePreference) => void;
+  /**
+   * Sets the browser engine's reply backend.
+   * @param {string} replyBackendId - The backend's ID.
+   */
+  setReplyBackendId: (replyBackendId: string) => void;
 };
 
 /**
- * Store for managing global UI state, such as modal visibility.
+ * Store for managing global UI state, such as modal visibility, layout and capture settings.
+ *
+ * Only the layout, mic and reply modes, the video frame rate and the engine settings are
+ * persisted to local storage; modals and the history sidebar always start closed.
  */
-export const useUIStore = create<UIState>((set) => ({
-  showUserConfig: false,
-  showAgentEdit: false,
-  setShowUserConfig: (show) => set({ showUserConfig: show }),
-  setShowAgentEdit: (show) => set({ showAgentEdit: show }),
-}));
+export const useUIStore = create<UIState>()(
+  persist(
+    (set) => ({
+      showUserConfig: false,
+      showAgentEdit: false,
+      showSettings: false,
+      showHistory: false,
+      viewedConversationId: null,
+      layout: 'face',
+      micMode: 'open',
+      responseMode: 'audioTranscript',
+      videoFrameRate: 1,
+      enginePreference: 'auto',
+      replyBackendId: 'rules',
+      setShowUserConfig: (show) => set({ showUserConfig: show }),
+      setShowAgentEdit: (show) => set({ showAgentEdit: show }),
+      setShowSettings: (show) => set({ showSettings: show }),
+      setShowHistory: (show) => set({ showHistory: show }),
+      setViewedConversationId: (id) => set({ viewedConversationId: id }),
+      setLayout: (layout) => set({ layout }),
+      setMicMode: (micMode) => set({ micMode }),
+      setResponseMode: (responseMode) => set({ responseMode }),
+      setVideoFrameRate: (videoFrameRate) => set({ videoFrameRate }),
+      setEnginePreference: (enginePreference) => set({ enginePreference }),
+      setReplyBackendId: (replyBackendId) => set({ replyBackendId }),
+    }),
+    {
+      name: 'ui-storage',
+      partialize: (state) => ({
+        layout: state.layout,
+        micMode: state.micMode,
+        responseMode: state.responseMode,
+        videoFrameRate: state.videoFrameRate,
+        enginePreference: state.enginePreference,
+        replyBackendId: state.replyBackendId,
+      }),
+    }
+  )
+);
@@ -0,0 +1,86 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { TokenUsage } from '../types';
+import { addUsage, DEFAULT_PRICES, EMPTY_USAGE, PriceTable } from '../lib/usage';
+
+/**
+ * State definition for the Usage store.
+ */
+type UsageState = {
+  /**
+   * Token usage by agent ID, across all sessions.
+   */
+  agentUsage: Record<string, TokenUsage>;
+  /**
+   * The prices used to estimate costs.
+   */
+  prices: PriceTable;
+  /**
+   * The most a single session may cost, in US dollars, or null for no limit.
+   * The user is warned as the session nears it and disconnected once it is reached.
+   */
+  sessionBudget: number | null;
+  /**
+   * Adds token usage to an agent's total.
+   * @param {string} agentId - The agent's ID.
+   * @param {TokenUsage} usage - The usage to add.
+   */
+  recordUsage: (agentId: string, usage: TokenUsage) => void;
+  /**
+   * Forgets an agent's token usage, or every agent's if no ID is given.
+   * @param {string} [agentId] - The agent's ID.
+   */
+  clearUsage: (agentId?: string) => void;
+  /**
+   * Updates some of the prices.
+   * @param {Partial<PriceTable>} prices - The prices to change.
+   */
+  setPrices: (prices: Partial<PriceTable>) => void;
+  /**
+   * Restores the published prices.
+   */
+  resetPrices: () => void;
+  /**
+   * Sets the session budget.
+   * @param {number | null} budget - The budget in US dollars, or null for no limit.
+   */
+  setSessionBudget: (budget: number | null) => void;
+};
+
+/**
+ * Store for token usage per agent and the settings used to estimate its cost.
+ *
+ * It uses Zustand with persistence to save the state to local storage.
+ */
+export const useUsageStore = create<UsageState>()(
+  persist(
+    (set) => ({
+      agentUsage: {},
+      prices: DEFAULT_PRICES,
+      sessionBudget: null,
+      recordUsage: (agentId, usage) => {
+        set((state) => ({
+          agentUsage: {
+            ...state.agentUsage,
+            [agentId]: addUsage(state.agentUsage[agentId] ?? EMPTY_USAGE, usage),
+          },
+        }));
+      },
+      clearUsage: (agentId) => {
+        set((state) => {
+          if (!agentId) {
+            return { agentUsage: {} };
+          }
+          const { [agentId]: _removed, ...rest } = state.agentUsage;
+          return { agentUsage: rest };
+        });
+      },
+      setPrices: (prices) => set((state) => ({ prices: { ...state.prices, ...prices } })),
+      resetPrices: () => set({ prices: DEFAULT_PRICES }),
+      setSessionBudget: (budget) => set({ sessionBudget: budget && budget > 0 ? budget : null }),
+    }),
+    {
+      name: 'usage-storage',
+    }
+  )
+);
@@ -1,3 +1,148 @@
+import type { Persona } from './Snuggles_Audio_Node/src/shared/persona';
+
+/**
+ * The persona model is shared with the desktop app, whose main process build
+ * can only include files under its own `src`.
+ */
+export type { Persona, PersonaExample, ResponseLength } from './Snuggles_Audio_Node/src/shared/persona';
+
+/**
+ * When the agent speaks up on its own after the user goes quiet.
+ */
+export type NudgeSettings = {
+  /**
+   * Whether the agent follows up after a silence. False means "always wait for me".
+   */
+  enabled: boolean;
+  /**
+   * Seconds of silence before the agent follows up.
+   */
+  idleSeconds: number;
+  /**
+   * The most follow-ups in a row before the agent waits for the user.
+   */
+  maxNudges: number;
+};
+
+/**
+ * How readily the Live API's automatic activity detection notices the start
+ * or end of the user's speech. `default` leaves it to the server.
+ */
+export type VadSensitivity = 'default' | 'low' | 'high';
+
+/**
+ * How the model generates replies and detects the user's turns. Null numbers
+ * leave the value to the model's default.
+ */
+export type GenerationSettings = {
+  /**
+   * Sampling temperature (0-2). Higher is more varied.
+   */
+  temperature: number | null;
+  /**
+   * Nucleus sampling probability (0-1).
+   */
+  topP: number | null;
+  /**
+   * The longest reply, in tokens.
+   */
+  maxOutputTokens: number | null;
+  /**
+   * Whether the agent adapts its tone to the user's. Native-audio models only.
+   */
+  affectiveDialog: boolean;
+  /**
+   * Whether the agent may stay silent when speech isn't meant for it.
+   * Native-audio models only.
+   */
+  proactiveAudio: boolean;
+  /**
+   * How readily the start of the user's speech is detected.
+   */
+  startOfSpeechSensitivity: VadSensitivity;
+  /**
+   * How readily the end of the user's speech is detected.
+   */
+  endOfSpeechSensitivity: VadSensitivity;
+  /**
+   * Milliseconds of silence before the user's turn ends.
+   */
+  silenceDurationMs: number | null;
+};
+
+/**
+ * How an agent's avatar is drawn.
+ * - `face`: the animated canvas face.
+ * - `character`: an SVG character from one of the character packs.
+ * - `sprite`: the user's own images, swapped as the agent talks and blinks.
+ */
+export type AvatarKind = 'face' | 'character' | 'sprite';
+
+/**
+ * The eye styles offered for the face and characters.
+ */
+export type EyeStyle = 'round' | 'oval' | 'sleepy' | 'sparkle';
+
+/**
+ * The accessories offered for the face and characters.
+ */
+export type AvatarAccessory = 'none' | 'glasses' | 'hat' | 'bow' | 'headphones';
+
+/**
+ * The backdrop behind the avatar.
+ */
+export type AvatarBackground = 'none' | 'glow' | 'gradient' | 'stars';
+
+/**
+ * Images for a sprite avatar, as URLs or data URLs. Only `idle` is required;
+ * an empty `talking` or `blinking` image falls back to `idle`.
+ */
+export type SpriteImages = {
+  /**
+   * Shown at rest.
+   */
+  idle: string;
+  /**
+   * Shown while the mouth is open.
+   */
+  talking: string;
+  /**
+   * Shown while blinking.
+   */
+  blinking: string;
+};
+
+/**
+ * An agent's avatar and its parameters. Parameters that don't apply to the
+ * chosen kind are kept, so switching back restores them.
+ */
+export type Avatar = {
+  /**
+   * How the avatar is drawn.
+   */
+  kind: AvatarKind;
+  /**
+   * The character pack, for `character` avatars.
+   */
+  pack: string;
+  /**
+   * The eye style, for `face` and `character` avatars.
+   */
+  eyeStyle: EyeStyle;
+  /**
+   * The accessory, for `face` and `character` avatars.
+   */
+  accessory: AvatarAccessory;
+  /**
+   * The backdrop, for every kind.
+   */
+  background: AvatarBackground;
+  /**
+   * The images, for `sprite` avatars.
+   */
+  sprite: SpriteImages;
+};
+
 /**
  * Represents an AI Agent with specific personality and voice characteristics.
  */
@@ -11,25 +156,156 @@ export type Agent = {
    */
   name: string;
   /**
-   * A description of the agent's personality.
+   * The agent's character, compiled into the system instruction.
    */
-  personality: string;
+  persona: Persona;
   /**
    * The color associated with the agent's visual representation.
    */
   bodyColor: string;
   /**
-   * The voice settings for the agent.
-   * These map to more complex voice generation settings.
+   * The voice settings for the agent, sent to the Live API as `speechConfig`.
    */
   voice: {
     /**
-     * The pitch of the agent's voice.
+     * The Gemini prebuilt voice name (e.g. 'Puck').
      */
-    pitch: 'low' | 'medium' | 'high';
+    name: string;
     /**
-     * The style of the agent's voice.
+     * The BCP-47 language code for speech output (e.g. 'en-US').
      */
-    style: 'calm' | 'energetic' | 'formal';
+    languageCode: string;
   };
+  /**
+   * The names of the tools the agent may call during a live session.
+   * Defaults to no tools when omitted.
+   */
+  tools?: string[];
+  /**
+   * Follow-up behavior when the user goes quiet. Defaults to
+   * `DEFAULT_NUDGE_SETTINGS` when omitted.
+   */
+  nudges?: NudgeSettings;
+  /**
+   * How the agent looks. Defaults to `DEFAULT_AVATAR`, the plain canvas face,
+   * when omitted.
+   */
+  avatar?: Avatar;
+  /**
+   * Model and turn-detection settings for live sessions. Defaults to
+   * `DEFAULT_GENERATION_SETTINGS`, the model's own defaults, when omitted.
+   */
+  generation?: GenerationSettings;
 };
+
+/**
+ * How the agent replies during a live session.
+ * - `audioTranscript`: spoken replies, transcribed into the chat panel.
+ * - `audio`: spoken replies only, with no transcription of either side.
+ * - `text`: streamed text replies shown in the chat panel, with no audio.
+ */
+export type ResponseMode = 'audioTranscript' | 'audio' | 'text';
+
+/**
+ * Represents a single transcribed utterance in a live conversation.
+ */
+export type TranscriptEntry = {
+  /**
+   * The unique identifier for the entry.
+   */
+  id: string;
+  /**
+   * Who said it: the user (input audio) or the agent (output audio).
+   */
+  speaker: 'user' | 'agent';
+  /**
+   * The transcribed text accumulated so far.
+   */
+  text: string;
+  /**
+   * Whether the utterance is complete. Partial entries keep growing
+   * until the speaker's turn ends.
+   */
+  isFinal: boolean;
+  /**
+   * The time the utterance started, in milliseconds since the epoch.
+   */
+  timestamp: number;
+};
+
+/**
+ * Token counts reported by the Live API.
+ */
+export type TokenUsage = {
+  /**
+   * Prompt tokens, including audio and video. The Live API counts the whole
+   * context again on every turn, so this grows quickly in long sessions.
+   */
+  promptTokens: number;
+  /**
+   * Response tokens, including audio.
+   */
+  responseTokens: number;
+  /**
+   * The audio share of `promptTokens`.
+   */
+  audioPromptTokens: number;
+  /**
+   * The audio share of `responseTokens`.
+   */
+  audioResponseTokens: number;
+};
+
+/**
+ * A saved conversation with an agent, kept in the conversation history.
+ */
+export type Conversation = {
+  /**
+   * The unique identifier for the conversation.
+   */
+  id: string;
+  /**
+   * The title shown in the history. Defaults to the start of the first message.
+   */
+  title: string;
+  /**
+   * The ID of the agent the user talked to.
+   */
+  agentId: string;
+  /**
+   * The agent's name at the time, kept in case the agent is renamed or deleted.
+   */
+  agentName: string;
+  /**
+   * The user's name at the time.
+   */
+  userName: string;
+  /**
+   * When the session started, in milliseconds since the epoch.
+   */
+  startedAt: number;
+  /**
+   * When the session ended, in milliseconds since the epoch. Null if the
+   * session is still running or the page was closed without disconnecting.
+   */
+  endedAt: number | null;
+  /**
+   * The finalized turns of the conversation.
+   */
+  transcript: TranscriptEntry[];
+  /**
+   * The tokens the conversation used, across reconnects. Missing for
+   * conversations saved before usage was tracked.
+   */
+  usage?: TokenUsage;
+};
+
+/**
+ * The expression shown on the agent's avatar.
+ * - `neutral`: at rest, or disconnected.
+ * - `happy`: the agent is saying something upbeat.
+ * - `thinking`: connecting, or waiting for the agent's reply.
+ * - `listening`: the user is speaking.
+ * - `surprised`: the agent is saying something astonished.
+ */
+export type AvatarEmotion = 'neutral' | 'happy' | 'thinking' | 'listening' | 'surprised';
@@ -15,7 +15,10 @@ export default defineConfig(({ mode }) => {
         }
       },
       define: {
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || process.env.GEMINI_API_KEY)
+        // Only non-secret settings are built in: API keys are entered at runtime
+        // (Settings) or stay on the token broker (npm run token-broker)
+        'process.env.GEMINI_TOKEN_BROKER_URL': JSON.stringify(env.GEMINI_TOKEN_BROKER_URL || process.env.GEMINI_TOKEN_BROKER_URL || ''),
+        'process.env.GEMINI_LIVE_BASE_URL': JSON.stringify(env.GEMINI_LIVE_BASE_URL || process.env.GEMINI_LIVE_BASE_URL || '')
       },
       resolve: {
         alias: {